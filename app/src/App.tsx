@@ -1,108 +1,112 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { Issue } from './types';
+import type {
+  AuthUser,
+  ChatThread,
+  ChatTurn,
+  Conversation,
+  Issue,
+  IssuesFile,
+  IssueWorkflow,
+  SearchHit,
+  SeverityLevel,
+  WorkflowStatus,
+} from './types';
 import IssueList from './components/IssueList';
 import Copilot from './components/Copilot';
 import RightDrawer from './components/RightDrawer';
+import HistorySidebar from './components/HistorySidebar';
+import WorkflowPanel from './components/WorkflowPanel';
 import Settings from './components/Settings';
-import { getIssues } from './lib/api';
-
-function normalizeUrl(u?: string | null): string | null {
-  if (!u) return null;
-  const s = String(u).trim();
-  if (!s) return null;
-  if (/^https?:\/\//i.test(s)) return s;
-  if (/^[\w.-]+\.[a-z]{2,}([\/?#].*)?$/i.test(s)) return `https://${s}`;
-  return null;
-}
+import Login from './components/Login';
+import {
+  getIssues,
+  getMe,
+  getSeverityLevels,
+  getWorkflows,
+  hasRole,
+  logout,
+  searchIssues,
+  setToken,
+  setUnauthorizedHandler,
+} from './lib/api';
+import { extractIssues } from './lib/catalog';
+import { severityLevel } from './lib/severity';
+import { STATUS_LABELS, WORKFLOW_STATUSES } from './lib/workflow';
 
-function normalizeRecommendations(val: unknown): string[] | undefined {
-  if (!val) return undefined;
-  if (Array.isArray(val)) {
-    const arr = val.map((x) => String(x ?? '').trim()).filter(Boolean);
-    return arr.length ? arr : undefined;
-  }
-  const str = String(val).trim();
-  if (!str) return undefined;
-  const parts = str.split(/\r?\n|•|- |\u2022/).map((x) => x.trim()).filter(Boolean);
-  return (parts.length ? parts : [str]) as string[];
-}
+type SortKey = 'Severity' | 'A–Z' | 'Section';
 
-function extractIssues(data: any): Issue[] {
-  const out: Issue[] = [];
-  const seen = new Set<string>();
-
-  const sections = Array.isArray(data?.sections) ? data.sections : [];
-  for (const section of sections) {
-    const subSections = Array.isArray(section?.sub_sections) ? section.sub_sections : [];
-    for (const sub of subSections) {
-      const templates = Array.isArray(sub?.finding_templates) ? sub.finding_templates : [];
-      for (const ft of templates) {
-        const st = ft?.sem_template;
-        const name: string | undefined = st?.sem_header;
-        if (!name || seen.has(name)) continue;
-
-        const instr = st?.sem_resolution_instruction;
-        let reference: string | undefined;
-        if (Array.isArray(instr)) {
-          for (const candidate of instr) {
-            const norm = normalizeUrl(typeof candidate === 'string' ? candidate : String(candidate));
-            if (norm) {
-              reference = norm;
-              break;
-            }
-          }
-        } else {
-          reference = normalizeUrl(instr) ?? undefined;
-        }
-
-        const description: string | undefined = st?.sem_long_description || undefined;
-        const recommendations = normalizeRecommendations(st?.sem_recommendations);
-
-        const scoreRaw = st?.severity_score;
-        const severityScore =
-          typeof scoreRaw === 'number'
-            ? scoreRaw
-            : scoreRaw != null
-            ? parseFloat(String(scoreRaw))
-            : undefined;
-
-        const category: string | undefined = st?.sem_category || undefined;
-
-        const id = name; // stable id = sem_header
-        out.push({ id, name, reference, description, recommendations, severityScore, category });
-        seen.add(name);
-      }
-    }
-  }
-  return out;
+/** Pick up the token (or error) the server appends after an SSO redirect, then clean the URL */
+function consumeAuthHash(): { authError: string | null } {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const token = params.get('token');
+  const authError = params.get('authError');
+  if (token) setToken(token);
+  if (token || authError) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  return { authError };
 }
 
-type FilterKey = 'All' | 'Critical' | 'Important' | 'Moderate';
-type SortKey = 'Severity' | 'A–Z';
-
-function getSeverityLabel(score?: number): 'Critical' | 'Important' | 'Moderate' | 'Unknown' {
-  if (score == null || Number.isNaN(score)) return 'Unknown';
-  if (score >= 0.9) return 'Critical';
-  if (score >= 0.61) return 'Important';
-  return 'Moderate';
+function compareLocation(a: Issue, b: Issue): number {
+  return (
+    (a.location?.section ?? 0) - (b.location?.section ?? 0) ||
+    (a.location?.subSection ?? 0) - (b.location?.subSection ?? 0)
+  );
 }
 
 export default function App() {
-  const [rawData, setRawData] = useState<any | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [rawData, setRawData] = useState<IssuesFile | null>(null);
   const [selected, setSelected] = useState<Issue | null>(null);
   const [open, setOpen] = useState(false);
-  const [filter, setFilter] = useState<FilterKey>('All');
+  // 'All' or the name of a severity level; the levels (bands of severity_score) come from the server
+  const [filter, setFilter] = useState<string>('All');
+  const [severityLevels, setSeverityLevels] = useState<SeverityLevel[]>([]);
+  // Remediation status per issue id (missing = open) and the optional status filter on top of severity
+  const [workflows, setWorkflows] = useState<Record<string, IssueWorkflow>>({});
+  const [statusFilter, setStatusFilter] = useState<WorkflowStatus | null>(null);
   const [sortBy, setSortBy] = useState<SortKey>('Severity');
   const [view, setView] = useState<'main' | 'settings'>('main');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Copilot conversations keyed by issue id, kept while browsing so Prev/Next can come back to them
+  const [threads, setThreads] = useState<Record<string, ChatThread>>({});
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Server-side search: hits by issue id while a query is active (null = no search)
+  const [query, setQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<Map<string, SearchHit> | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  function updateThread(issueId: string, update: (prev: ChatTurn[]) => ChatTurn[]) {
+    setThreads((prev) => {
+      const cur = prev[issueId] ?? { turns: [] };
+      return { ...prev, [issueId]: { ...cur, turns: update(cur.turns) } };
+    });
+  }
+
+  function setThread(issueId: string, thread: ChatThread) {
+    setThreads((prev) => ({ ...prev, [issueId]: thread }));
+  }
+
+  function handleSaved(issueId: string, conv: Conversation) {
+    setThreads((prev) => ({ ...prev, [issueId]: { ...(prev[issueId] ?? { turns: [] }), conversationId: conv.id } }));
+    setHistoryVersion((v) => v + 1);
+  }
+
+  /** New severity levels (loaded or edited in Settings); a filter on a level that is gone is cleared */
+  function applySeverityLevels(levels: SeverityLevel[]) {
+    setSeverityLevels(levels);
+    setFilter((f) => (f === 'All' || levels.some((l) => l.name === f) ? f : 'All'));
+  }
 
   async function loadIssues() {
     setLoading(true);
     setError(null);
     try {
-      const data = await getIssues();
+      const [data, wf, levels] = await Promise.all([getIssues(), getWorkflows(), getSeverityLevels()]);
       setRawData(data);
+      setWorkflows(wf);
+      applySeverityLevels(levels);
     } catch (e: any) {
       setError(e?.message || String(e));
     } finally {
@@ -111,30 +115,88 @@ export default function App() {
   }
 
   useEffect(() => {
-    loadIssues();
+    const { authError } = consumeAuthHash();
+    setAuthError(authError);
+    // Any 401 (expired token, user removed) drops back to the login screen
+    setUnauthorizedHandler(() => setUser(null));
+    getMe()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setAuthChecked(true));
+    return () => setUnauthorizedHandler(null);
   }, []);
 
+  useEffect(() => {
+    if (user) loadIssues();
+  }, [user?.id]);
+
+  // Debounced search; a newer query (or clearing the box) cancels the request in flight
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setSearchHits(null);
+      setSearchError(null);
+      return;
+    }
+    const ctrl = new AbortController();
+    const t = setTimeout(() => {
+      searchIssues(q, { signal: ctrl.signal })
+        .then((r) => {
+          setSearchHits(new Map(r.results.map((h) => [h.id, h])));
+          setSearchError(r.warning ?? null);
+        })
+        .catch((e: any) => {
+          if (e?.name !== 'AbortError') setSearchError(e?.message || String(e));
+        });
+    }, 250);
+    return () => {
+      clearTimeout(t);
+      ctrl.abort();
+    };
+  }, [query, rawData]);
+
+  function handleLogout() {
+    logout();
+    setUser(null);
+    setOpen(false);
+    setSelected(null);
+    setThreads({});
+    setWorkflows({});
+    setStatusFilter(null);
+    setView('main');
+  }
+
   const allIssues = useMemo(() => (rawData ? extractIssues(rawData) : []), [rawData]);
 
   const counts = useMemo(() => {
-    let critical = 0,
-      important = 0,
-      moderate = 0;
+    const out: Record<string, number> = { All: allIssues.length };
+    for (const l of severityLevels) out[l.name] = 0;
     for (const i of allIssues) {
-      const label = getSeverityLabel(i.severityScore);
-      if (label === 'Critical') critical++;
-      else if (label === 'Important') important++;
-      else if (label === 'Moderate') moderate++;
+      const level = severityLevel(severityLevels, i.severityScore);
+      if (level) out[level.name]++;
     }
-    return { All: allIssues.length, Critical: critical, Important: important, Moderate: moderate };
-  }, [allIssues]);
+    return out;
+  }, [allIssues, severityLevels]);
+
+  const statusCounts = useMemo(() => {
+    const out = Object.fromEntries(WORKFLOW_STATUSES.map((s) => [s, 0])) as Record<WorkflowStatus, number>;
+    for (const i of allIssues) out[workflows[i.id]?.status ?? 'open']++;
+    return out;
+  }, [allIssues, workflows]);
 
   const issues = useMemo(() => {
-    let filtered = filter === 'All' ? allIssues : allIssues.filter((i) => getSeverityLabel(i.severityScore) === filter);
-    if (sortBy === 'A–Z') filtered = [...filtered].sort((a, b) => a.name.localeCompare(b.name));
+    let filtered =
+      filter === 'All'
+        ? allIssues
+        : allIssues.filter((i) => severityLevel(severityLevels, i.severityScore)?.name === filter);
+    if (statusFilter) filtered = filtered.filter((i) => (workflows[i.id]?.status ?? 'open') === statusFilter);
+    if (searchHits) filtered = filtered.filter((i) => searchHits.has(i.id));
+    if (sortBy === 'Section') filtered = [...filtered].sort(compareLocation); // stable: keeps catalog order inside a group
+    else if (searchHits) filtered = [...filtered].sort((a, b) => searchHits.get(b.id)!.score - searchHits.get(a.id)!.score);
+    else if (sortBy === 'A–Z') filtered = [...filtered].sort((a, b) => a.name.localeCompare(b.name));
     else filtered = [...filtered].sort((a, b) => (b.severityScore ?? 0) - (a.severityScore ?? 0));
     return filtered;
-  }, [allIssues, filter, sortBy]);
+  }, [allIssues, filter, severityLevels, statusFilter, workflows, sortBy, searchHits]);
 
   const index = useMemo(() => (selected ? issues.findIndex((i) => i.id === selected.id) : -1), [issues, selected]);
   const total = issues.length;
@@ -152,7 +214,8 @@ export default function App() {
     if (index >= 0 && index < total - 1) setSelected(issues[index + 1]);
   }
 
-  function Pill({ name }: { name: FilterKey }) {
+  /** Severity filter pill ("All" or a level, marked with the level's color) */
+  function Pill({ name, color }: { name: string; color?: string }) {
     const active = filter === name;
     return (
       <button
@@ -169,15 +232,59 @@ export default function App() {
             : 'bg-blue-700/30 text-white border-white/30 hover:bg-blue-600/40',
         ].join(' ')}
       >
-        {name} ({counts[name]})
+        {color ? <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} /> : null}
+        {name} ({counts[name] ?? 0})
       </button>
     );
   }
 
+  /** Status filter pill; clicking the active one clears the status filter */
+  function StatusPill({ status }: { status: WorkflowStatus }) {
+    const active = statusFilter === status;
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setStatusFilter(active ? null : status);
+          setOpen(false);
+          setSelected(null);
+        }}
+        className={[
+          'inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium transition',
+          active
+            ? 'bg-white text-blue-700 border-white'
+            : 'bg-blue-700/30 text-white border-white/30 hover:bg-blue-600/40',
+        ].join(' ')}
+      >
+        {STATUS_LABELS[status]} ({statusCounts[status]})
+      </button>
+    );
+  }
+
+  if (!authChecked) {
+    return <div className="p-4 text-sm text-gray-600">Loading…</div>;
+  }
+
+  if (!user) {
+    return (
+      <Login
+        error={authError}
+        onLoggedIn={(u) => {
+          setAuthError(null);
+          setUser(u);
+        }}
+      />
+    );
+  }
+
   if (view === 'settings') {
     return (
       <Settings
         issues={allIssues}
+        canEdit={hasRole(user, 'editor')}
+        isAdmin={hasRole(user, 'admin')}
+        severityLevels={severityLevels}
+        onSeverityLevelsChange={applySeverityLevels}
         onBack={() => {
           setView('main');
           setOpen(false);
@@ -191,52 +298,95 @@ export default function App() {
     <div className="h-screen w-screen flex flex-col overflow-hidden bg-white">
       <header className="flex items-center justify-between px-6 py-4 bg-blue-800 text-white shadow-md">
         <div className="flex items-center gap-3">
-          <div className="font-semibold text-lg">Security Issues</div>
+            <div className="font-semibold text-lg">Security Issues</div>
 
-          {/* Sort dropdown */}
-          <div className="relative">
-            <select
-              value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as SortKey)}
-              className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1
-                         hover:bg-blue-600/40 focus:outline-none focus:ring-2 focus:ring-white/50 pr-8 appearance-none"
-            >
-              <option value="Severity">Sort by Severity</option>
-              <option value="A–Z">Sort A–Z</option>
-            </select>
-            {/* Chevron icon */}
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 h-3 w-3 text-white"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-              strokeWidth={2}
-            >
-              <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
-            </svg>
+            {/* Sort dropdown */}
+            <div className="relative">
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as SortKey)}
+                className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1
+                           hover:bg-blue-600/40 focus:outline-none focus:ring-2 focus:ring-white/50 pr-8 appearance-none"
+              >
+                <option value="Severity">Sort by Severity</option>
+                <option value="A–Z">Sort A–Z</option>
+                <option value="Section">Group by Section</option>
+              </select>
+              {/* Chevron icon */}
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 h-3 w-3 text-white"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+              </svg>
+            </div>
+
+            {/* Filter pills */}
+            <div className="flex items-center gap-2">
+              <Pill name="All" />
+              {severityLevels.map((l) => (
+                <Pill key={l.name} name={l.name} color={l.color} />
+              ))}
+            </div>
+
+            {/* Workflow status pills */}
+            <div className="flex items-center gap-2 border-l border-white/30 pl-3">
+              {WORKFLOW_STATUSES.map((s) => (
+                <StatusPill key={s} status={s} />
+              ))}
+            </div>
           </div>
 
-          {/* Filter pills */}
-          <div className="flex items-center gap-2">
-            <Pill name="All" />
-            <Pill name="Critical" />
-            <Pill name="Important" />
-            <Pill name="Moderate" />
+          <div className="flex items-center gap-3">
+          {/* Search (ranked by relevance while active) */}
+          <div className="relative">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setOpen(false);
+                setSelected(null);
+              }}
+              placeholder="Search findings…"
+              title={searchError ?? 'Searches titles, descriptions, recommendations and categories'}
+              className={[
+                'w-56 rounded-full border bg-blue-700/30 text-white text-xs px-3 py-1 placeholder-white/60',
+                'focus:outline-none focus:ring-2 focus:ring-white/50',
+                searchError ? 'border-red-300' : 'border-white/30',
+              ].join(' ')}
+            />
           </div>
-        </div>
 
-        {/* Settings button */}
-        <button
-          onClick={() => {
-            setView('settings');
-            setOpen(false);
-            setSelected(null);
-          }}
-          className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
-        >
-          Settings
-        </button>
+          <span className="text-xs text-white/80">
+            {user.username} · {user.role}
+          </span>
+
+          {/* Settings button */}
+          <button
+            onClick={() => {
+              setView('settings');
+              setOpen(false);
+              setSelected(null);
+            }}
+            className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+          >
+            Settings
+          </button>
+
+          {user.provider !== 'disabled' ? (
+            <button
+              onClick={handleLogout}
+              className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+            >
+              Sign out
+            </button>
+          ) : null}
+        </div>
       </header>
 
       {/* Content */}
@@ -251,6 +401,10 @@ export default function App() {
               issues={issues}
               selectedId={selected?.id ?? null}
               onSelect={handleSelect}
+              grouped={sortBy === 'Section'}
+              highlights={searchHits}
+              workflows={workflows}
+              severityLevels={severityLevels}
               className="h-full overflow-y-auto"
             />
           )}
@@ -268,8 +422,45 @@ export default function App() {
           onNext={handleNext}
           disablePrev={index <= 0}
           disableNext={index < 0 || index >= total - 1}
+          subheader={
+            selected ? (
+              <WorkflowPanel
+                issueId={selected.id}
+                canEdit={hasRole(user, 'editor')}
+                onChange={(id, state) => setWorkflows((prev) => ({ ...prev, [id]: state }))}
+              />
+            ) : null
+          }
+          sidebar={
+            selected ? (
+              <HistorySidebar
+                issueId={selected.id}
+                activeId={threads[selected.id]?.conversationId}
+                refreshKey={historyVersion}
+                onOpen={(conv) =>
+                  setThread(conv.issueId, {
+                    conversationId: conv.id,
+                    turns: conv.messages.map((m) => ({ role: m.role, content: m.content, citations: m.citations })),
+                  })
+                }
+                onNew={() => setThread(selected.id, { turns: [] })}
+                onDeleted={(id) => {
+                  if (threads[selected.id]?.conversationId === id) setThread(selected.id, { turns: [] });
+                }}
+              />
+            ) : null
+          }
         >
-          {selected ? <Copilot issue={selected} /> : null}
+          {selected ? (
+            <Copilot
+              issue={selected}
+              thread={threads[selected.id]?.turns}
+              conversationId={threads[selected.id]?.conversationId}
+              onThreadChange={updateThread}
+              onSaved={handleSaved}
+              severityLevels={severityLevels}
+            />
+          ) : null}
         </RightDrawer>
       </div>
     </div>
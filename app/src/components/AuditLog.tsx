@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import type { Issue } from '../types';
+import { exportAuditLog, getAuditLog } from '../lib/api';
+import type { AuditEntry, AuditFilters } from '../lib/api';
+import { saveFile } from '../lib/download';
+
+type Props = {
+  /** Issues to filter by */
+  issues: Issue[];
+  onBack: () => void;
+};
+
+const PAGE = 100;
+
+function show(v: unknown): string {
+  if (v == null || v === '') return '—';
+  if (Array.isArray(v)) return v.map(show).join('\n');
+  return typeof v === 'object' ? JSON.stringify(v, null, 2) : String(v);
+}
+
+/** One line for the collapsed row: changed fields, or what was asked */
+function summary(e: AuditEntry): string {
+  if (e.action === 'chat') {
+    const d = e.details || {};
+    return [
+      d.promptId && `quick action "${d.promptId}"`,
+      d.model,
+      d.status !== 'ok' && d.status,
+      d.question && `“${d.question}”`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  }
+  const fields = Object.keys(e.changes || {});
+  if (e.action.endsWith('.create') || e.action.endsWith('.delete')) return e.details?.via ? `via ${e.details.via}` : '';
+  return fields.length ? `changed ${fields.join(', ')}` : '';
+}
+
+/** Before/after table for one entry, plus its details */
+function EntryDetail({ entry }: { entry: AuditEntry }) {
+  const changes = Object.entries(entry.changes || {});
+  const cell = 'px-3 py-1.5 align-top whitespace-pre-wrap break-words';
+  return (
+    <div className="space-y-2 px-3 py-2 bg-gray-50 text-xs">
+      {changes.length ? (
+        <table className="w-full table-fixed border border-gray-200 bg-white">
+          <thead className="bg-gray-100 text-gray-600">
+            <tr>
+              <th className="w-48 px-3 py-1.5 text-left font-medium">Field</th>
+              <th className="px-3 py-1.5 text-left font-medium">Before</th>
+              <th className="px-3 py-1.5 text-left font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {changes.map(([field, [before, after]]) => (
+              <tr key={field}>
+                <td className={`${cell} font-mono text-gray-600`}>{field}</td>
+                <td className={`${cell} text-red-800 bg-red-50/50`}>{show(before)}</td>
+                <td className={`${cell} text-green-800 bg-green-50/50`}>{show(after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {entry.details ? (
+        <pre className="whitespace-pre-wrap text-gray-700">{JSON.stringify(entry.details, null, 2)}</pre>
+      ) : null}
+      <div className="text-gray-500">
+        {entry.target ? `${entry.target.type} ${entry.target.id} · ` : ''}entry {entry.id}
+      </div>
+    </div>
+  );
+}
+
+/** Admin viewer for the append-only audit log: filters, before/after diffs and export */
+export default function AuditLog({ issues, onBack }: Props) {
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [actions, setActions] = useState<string[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load(offset = 0) {
+    try {
+      setLoading(true);
+      setError(null);
+      const r = await getAuditLog(filters, { limit: PAGE, offset });
+      setActions(r.actions);
+      setTotal(r.total);
+      setEntries((prev) => (offset ? [...prev, ...r.entries] : r.entries));
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Text filters wait for typing to pause
+  useEffect(() => {
+    const t = setTimeout(() => load(0), 300);
+    return () => clearTimeout(t);
+  }, [filters]);
+
+  async function handleExport(format: 'csv' | 'jsonl') {
+    try {
+      const file = await exportAuditLog(format, filters);
+      saveFile(file.blob, file.filename);
+    } catch (e: any) {
+      alert(`Export failed: ${e?.message || String(e)}`);
+    }
+  }
+
+  const set = (key: keyof AuditFilters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters((prev) => ({ ...prev, [key]: e.target.value }));
+  const groups = [...new Set(actions.filter((a) => a.includes('.')).map((a) => a.split('.')[0]))];
+  const field = 'border rounded px-2 py-1.5 text-sm';
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-white">
+      <header className="flex items-center justify-between px-6 py-4 bg-blue-800 text-white shadow-md">
+        <div className="font-semibold text-lg">Audit log</div>
+        <button
+          onClick={onBack}
+          className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+        >
+          ← Back to Settings
+        </button>
+      </header>
+
+      <div className="px-6 pt-4 flex flex-wrap items-center gap-2">
+        <select className={field} value={filters.action || ''} onChange={set('action')}>
+          <option value="">All actions</option>
+          {groups.map((g) => (
+            <option key={g} value={g}>
+              {g}.*
+            </option>
+          ))}
+          {actions.map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+        <select className={`${field} max-w-xs`} value={filters.target || ''} onChange={set('target')}>
+          <option value="">All issues</option>
+          {issues.map((i) => (
+            <option key={i.id} value={i.id}>
+              {i.name}
+            </option>
+          ))}
+        </select>
+        <input className={`${field} w-36`} placeholder="User" value={filters.actor || ''} onChange={set('actor')} />
+        <input
+          className={`${field} w-48`}
+          placeholder="Text in changes…"
+          value={filters.q || ''}
+          onChange={set('q')}
+        />
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          From
+          <input type="date" className={field} value={filters.from || ''} onChange={set('from')} />
+        </label>
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          To
+          <input type="date" className={field} value={filters.to || ''} onChange={set('to')} />
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button className="px-3 py-1.5 rounded border text-sm hover:bg-gray-50" onClick={() => handleExport('csv')}>
+            Export CSV
+          </button>
+          <button className="px-3 py-1.5 rounded border text-sm hover:bg-gray-50" onClick={() => handleExport('jsonl')}>
+            Export JSONL
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 space-y-3">
+        {error ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+        <div className="text-xs text-gray-500">
+          {loading ? 'Loading…' : `${total.toLocaleString()} entries (times in your local zone, filters in UTC days)`}
+        </div>
+
+        <div className="rounded-lg border border-gray-200 divide-y divide-gray-100 text-sm">
+          {entries.map((e) => (
+            <div key={e.id}>
+              <button
+                type="button"
+                className="w-full px-3 py-2 flex items-center gap-3 text-left hover:bg-gray-50"
+                onClick={() => setExpanded(expanded === e.id ? null : e.id)}
+                aria-expanded={expanded === e.id}
+              >
+                <span className="w-40 shrink-0 tabular-nums text-gray-500">{new Date(e.at).toLocaleString()}</span>
+                <span className="w-28 shrink-0 truncate" title={e.actor.role}>
+                  {e.actor.username || e.actor.id}
+                </span>
+                <span className="w-36 shrink-0 font-mono text-xs text-blue-800">{e.action}</span>
+                <span className="w-64 shrink-0 truncate font-medium">{e.target?.label || '—'}</span>
+                <span className="min-w-0 truncate text-gray-500">{summary(e)}</span>
+              </button>
+              {expanded === e.id ? <EntryDetail entry={e} /> : null}
+            </div>
+          ))}
+          {!entries.length && !loading ? (
+            <div className="px-3 py-4 text-center text-gray-500">No entries match these filters.</div>
+          ) : null}
+        </div>
+
+        {entries.length < total ? (
+          <button
+            className="px-3 py-1.5 rounded border text-sm hover:bg-gray-50 disabled:opacity-50"
+            disabled={loading}
+            onClick={() => load(entries.length)}
+          >
+            Load more
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
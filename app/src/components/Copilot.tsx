@@ -1,89 +1,240 @@
-import React, { useEffect, useState, KeyboardEvent } from 'react';
-import type { Issue } from '../types';
-import { scrape, rawChat } from '../lib/api';
+import React, { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import type {
+  ChatCitation,
+  ChatMessage,
+  ChatPassage,
+  ChatSourceStatus,
+  ChatTurn,
+  Conversation,
+  Issue,
+  SeverityLevel,
+} from '../types';
+import { createConversation, exportRunbook, listPrompts, renderPrompt, streamChat, updateConversation } from '../lib/api';
+import type { PromptTemplate } from '../lib/api';
+import { printMarkdown, saveFile } from '../lib/download';
+import { severityLevel } from '../lib/severity';
+import SeverityIcon from './SeverityIcon';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
-type Props = { issue?: Issue | null };
-type ScrapedSource = { url: string; text: string };
+type Props = {
+  issue?: Issue | null;
+  /** Conversation so far for this issue (owned by the parent so it survives Prev/Next) */
+  thread?: ChatTurn[];
+  /** Update the thread of a given issue; the id is explicit so late stream chunks land in the right thread */
+  onThreadChange?: (issueId: string, update: (prev: ChatTurn[]) => ChatTurn[]) => void;
+  /** Server-side conversation this thread is saved as (undefined until the first answer) */
+  conversationId?: string;
+  /** Called after the thread was saved on the server */
+  onSaved?: (issueId: string, conversation: Conversation) => void;
+  /** Severity levels from the server (title icon) */
+  severityLevels?: SeverityLevel[];
+};
 
-export default function Copilot({ issue }: Props) {
+const NO_TURNS: ChatTurn[] = [];
+
+// Shown until the server's quick actions load (and if they cannot be loaded); rendered server-side either way
+const DEFAULT_ACTIONS: PromptTemplate[] = [
+  { id: 'about', kind: 'action', label: 'Tell me about this issue', template: '', builtIn: true },
+  { id: 'resolve', kind: 'action', label: 'How to resolve this issue', template: '', builtIn: true },
+];
+
+// Inline citation markers as the server resolves them: "[1.2]" or "[1.2, 2.1]"
+const MARKER_RE = /\[(\d+\.\d+(?:\s*[,;]\s*\d+\.\d+)*)\]/g;
+
+/** Turn resolved markers into "#cite-n" links (rendered as numbered badges); unknown ids stay as text */
+function linkCitations(content: string, citations?: ChatCitation[]): string {
+  if (!citations?.length) return content;
+  const byId = new Map(citations.map((c) => [c.id, c]));
+  return content.replace(MARKER_RE, (marker, ids: string) => {
+    const ns = ids
+      .split(/\s*[,;]\s*/)
+      .map((id) => byId.get(id)?.n)
+      .filter((n): n is number => n != null);
+    return ns.length ? ns.map((n) => `[${n}](#cite-${n})`).join('') : marker;
+  });
+}
+
+/**
+ * Link to the cited sentence on the page via a text fragment (#:~:text=start,end), which browsers
+ * that support it scroll to and highlight; others just open the page.
+ */
+function citationHref(c: ChatCitation): string {
+  const enc = (t: string) => encodeURIComponent(t).replace(/-/g, '%2D');
+  const words = c.quote.split(/\s+/).filter(Boolean);
+  const directive =
+    words.length > 10 ? `${enc(words.slice(0, 5).join(' '))},${enc(words.slice(-5).join(' '))}` : enc(words.join(' '));
+  if (!directive) return c.url;
+  return `${c.url}${c.url.includes('#') ? '' : '#'}:~:text=${directive}`;
+}
+
+/** Replace the content of the last (assistant) turn */
+function patchLast(turns: ChatTurn[], patch: (t: ChatTurn) => ChatTurn): ChatTurn[] {
+  if (!turns.length) return turns;
+  return [...turns.slice(0, -1), patch(turns[turns.length - 1])];
+}
+
+export default function Copilot({
+  issue,
+  thread = NO_TURNS,
+  onThreadChange,
+  conversationId,
+  onSaved,
+  severityLevels = [],
+}: Props) {
   const [loading, setLoading] = useState(false);
-  const [reply, setReply] = useState<string>('');
   const [question, setQuestion] = useState<string>('');
   const [justSwitched, setJustSwitched] = useState<boolean>(false);
+  const [streaming, setStreaming] = useState<boolean>(false);
+  const [actions, setActions] = useState<PromptTemplate[]>(DEFAULT_ACTIONS);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Quick-action buttons are admin-editable prompt templates
+  useEffect(() => {
+    listPrompts()
+      .then((r) => setActions(r.prompts.filter((p) => p.kind === 'action')))
+      .catch((e) => console.error('Failed to load quick actions:', e));
+  }, []);
 
   useEffect(() => {
-    // When switching issues, clear chat and show a friendly placeholder
-    setReply('');
+    // When switching issues, stop any in-flight answer and show a friendly placeholder.
+    // The thread itself is kept by the parent, so coming back restores the transcript.
+    abortRef.current?.abort();
+    abortRef.current = null;
     setQuestion('');
     setLoading(false);
+    setStreaming(false);
     if (issue) setJustSwitched(true);
   }, [issue?.id]);
 
-  function promptFor(kind: 'about' | 'resolve'): string {
-    const name = issue?.name || 'this issue';
-    return kind === 'about'
-      ? `Tell me about this issue: "${name}".`
-      : `How to resolve this issue: "${name}".`;
+  // Abort generation if the panel unmounts mid-answer
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  function stop() {
+    abortRef.current?.abort();
   }
 
-  /** Build a compact context block from the selected issue */
-  function buildIssueContext(i: Issue): string {
-    const lines: string[] = [];
-    if (i.name) lines.push(`Issue: ${i.name}`);
-    if (i.description) lines.push(`Description: ${i.description}`);
-    if (i.recommendations && i.recommendations.length) {
-      lines.push(
-        `Recommendations:\n- ${i.recommendations.map((r) => r.trim()).filter(Boolean).join('\n- ')}`
-      );
+  /** Download the issue + latest answer as a Markdown runbook, or print it (the print dialog can save a PDF) */
+  async function exportAnswer(kind: 'markdown' | 'print') {
+    if (!issue) return;
+    const last = [...thread].reverse().find((t) => t.role === 'assistant' && !t.error && !t.pending);
+    try {
+      const file = await exportRunbook({ issueId: issue.id, answer: last?.content, citations: last?.citations });
+      if (kind === 'markdown') saveFile(file.blob, file.filename);
+      else if (!printMarkdown(issue.name, await file.blob.text())) alert('Allow pop-ups for this site to print the runbook.');
+    } catch (e: any) {
+      alert(`Export failed: ${e?.message || String(e)}`);
     }
-    if (typeof i.severityScore === 'number') {
-      const label =
-        i.severityScore >= 0.9 ? 'Critical' : i.severityScore >= 0.61 ? 'Important' : 'Moderate';
-      lines.push(`Severity: ${label} (${i.severityScore})`);
+  }
+
+  function updateThread(issueId: string, update: (prev: ChatTurn[]) => ChatTurn[]) {
+    onThreadChange?.(issueId, update);
+  }
+
+  /** Save the finished transcript so it can be reopened from the history sidebar */
+  async function persist(issueId: string, turns: ChatTurn[]) {
+    const messages: ChatMessage[] = turns
+      .filter((t) => !t.error && !t.pending && t.content)
+      .map(({ role, content, citations }) => ({ role, content, ...(citations?.length ? { citations } : {}) }));
+    if (!messages.length) return;
+    try {
+      const saved = conversationId
+        ? await updateConversation(conversationId, { messages })
+        : await createConversation({ issueId, messages });
+      onSaved?.(issueId, saved);
+    } catch (e) {
+      // History is best-effort; the live thread is still in memory
+      console.error('Failed to save conversation:', e);
+    }
+  }
+
+  /** Fill a quick action's template for the current issue and ask it */
+  async function runAction(action: PromptTemplate) {
+    if (!issue) return;
+    try {
+      const { text } = await renderPrompt({ id: action.id, issueId: issue.id });
+      await run(text, action.id);
+    } catch (e: any) {
+      alert(`${action.label} failed: ${e?.message || String(e)}`);
     }
-    if (i.category) lines.push(`Category: ${i.category}`);
-    if (i.reference) lines.push(`Reference URL: ${i.reference}`);
-    return lines.join('\n');
   }
 
-  async function run(userQuestion?: string) {
+  /**
+   * Turn the transcript into chat messages; failed turns are left out so the model never sees them.
+   * The server wraps the first question in the issue context template (found by issueId).
+   */
+  function buildMessages(turns: ChatTurn[]): ChatMessage[] {
+    return turns.filter((t) => !t.error && t.content).map((t) => ({ role: t.role, content: t.content }));
+  }
+
+  async function run(userQuestion?: string, promptId?: string) {
     const q = ((userQuestion ?? question) || '').trim();
     if (!q || !issue) return;
 
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    const issueId = issue.id;
+
+    const history = [...thread.filter((t) => !t.pending), { role: 'user', content: q } as ChatTurn];
+    updateThread(issueId, () => [...history, { role: 'assistant', content: '', pending: true }]);
+
     setJustSwitched(false);
     setLoading(true);
-    setReply('');
+    setQuestion('');
+    let answer = '';
+    let citations: ChatCitation[] = [];
 
     try {
-      // 1) Scrape the reference (if any) so the server gets real page text as "sources"
-      let sources: ScrapedSource[] = [];
-      if (issue.reference) {
-        const { results } = await scrape([issue.reference]);
-        sources = results
-          .filter((r: any) => r.ok && r.text)
-          .map((r: any) => ({ url: r.url, text: r.text as string }));
-      }
-
-      // 2) Build a single "user" message containing Issue Context + Question
-      const contextBlock = buildIssueContext(issue);
-      const bundled =
-        `Context:\n${contextBlock}\n\n` +
-        `Question:\n${q}\n\n` +
-        `Please answer based on the context and the reference. If steps are needed, format them clearly using markdown.`;
-
-      // 3) Send to Chat endpoint
-      const r = await rawChat({
-        messages: [{ role: 'user', content: bundled }],
-        sources,
-      });
+      // The server scrapes every reference in parallel (cached) and sends only the passages relevant to the question
+      const sources = (issue.references || []).map((r) => ({ url: r.url }));
+      setStreaming(true);
+      const full = await streamChat(
+        { messages: buildMessages(history), sources, issueId, promptId },
+        {
+          signal: ctrl.signal,
+          onContext: (passages, sourceStatus) => {
+            if (passages.length || sourceStatus.length) {
+              updateThread(issueId, (prev) => patchLast(prev, (t) => ({ ...t, passages, sources: sourceStatus })));
+            }
+          },
+          onCitations: (list) => {
+            citations = list;
+            if (list.length) updateThread(issueId, (prev) => patchLast(prev, (t) => ({ ...t, citations: list })));
+          },
+          onDelta: (chunk) => {
+            setLoading(false);
+            answer += chunk;
+            updateThread(issueId, (prev) => patchLast(prev, (t) => ({ ...t, content: t.content + chunk })));
+          },
+        }
+      );
 
-      setReply(r.reply || 'No response.');
+      updateThread(issueId, (prev) =>
+        patchLast(prev, (t) => ({ ...t, content: full ? t.content : 'No response.', pending: false }))
+      );
+      if (full) persist(issueId, [...history, { role: 'assistant', content: full, citations }]);
     } catch (e: any) {
-      setReply(`Error: ${e.message || String(e)}`);
+      if (e?.name === 'AbortError') {
+        // Stopped by the user, superseded by a new run or an issue switch: keep any partial answer
+        updateThread(issueId, (prev) => {
+          const last = prev[prev.length - 1];
+          if (!last?.pending) return prev;
+          if (!last.content) return prev.slice(0, -1);
+          return patchLast(prev, (t) => ({ ...t, content: `${t.content}\n\n_Stopped._`, pending: false }));
+        });
+        if (answer) persist(issueId, [...history, { role: 'assistant', content: `${answer}\n\n_Stopped._` }]);
+      } else {
+        updateThread(issueId, (prev) =>
+          patchLast(prev, (t) => ({ ...t, content: `Error: ${e.message || String(e)}`, error: true, pending: false }))
+        );
+      }
     } finally {
-      setLoading(false);
+      if (abortRef.current === ctrl) {
+        abortRef.current = null;
+        setLoading(false);
+        setStreaming(false);
+      }
     }
   }
 
@@ -98,23 +249,18 @@ export default function Copilot({ issue }: Props) {
   const optionBtn =
     'px-3 py-2 rounded-lg border border-blue-600 text-blue-600 bg-white hover:bg-blue-50 ' +
     'focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:opacity-50 text-sm';
-
-  // Severity icon
-  const severityIcon =
-    typeof issue?.severityScore === 'number'
-      ? issue.severityScore <= 0.6
-        ? '/icons/moderate.png'
-        : issue.severityScore <= 0.89
-        ? '/icons/important.png'
-        : '/icons/critical.png'
-      : null;
+  const busy = loading || streaming;
+  const hasAnswer = thread.some((t) => t.role === 'assistant' && !t.error && !t.pending && t.content);
+  // Per-reference status from the latest answer (empty while a new answer is still loading its sources)
+  const lastAnswer = [...thread].reverse().find((t) => t.role === 'assistant');
+  const sourceStatus = new Map((lastAnswer?.sources || []).map((s) => [s.url, s]));
 
   return (
     <div className="h-full flex flex-col px-[60px]"> {/* tripled side margins */}
       {/* Issue title with severity icon */}
       {issue?.name ? (
         <div className="pt-6 pb-4 flex items-center gap-2">
-          {severityIcon ? <img src={severityIcon} alt="Severity" className="w-5 h-5" /> : null}
+          <SeverityIcon level={severityLevel(severityLevels, issue.severityScore)} className="w-5 h-5" />
           <h1 className="text-lg font-bold text-slate-900">{issue.name}</h1>
         </div>
       ) : null}
@@ -141,18 +287,35 @@ export default function Copilot({ issue }: Props) {
         </div>
       ) : null}
 
-      {/* Single Reference */}
-      {issue?.reference ? (
+      {/* References (with how loading each one went for the latest answer) */}
+      {issue?.references?.length ? (
         <div className="pb-4 space-y-2">
-          <div className="text-sm font-semibold text-slate-800">Reference</div>
-          <a
-            href={issue.reference}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-600 hover:underline break-words"
-          >
-            {issue.reference}
-          </a>
+          <div className="text-sm font-semibold text-slate-800">
+            {issue.references.length === 1 ? 'Reference' : 'References'}
+          </div>
+          <ul className="space-y-1 text-sm">
+            {issue.references.map((ref) => (
+              <li key={ref.url} className="flex items-start gap-2">
+                <SourceBadge status={sourceStatus.get(ref.url)} loading={!!lastAnswer?.pending && !sourceStatus.has(ref.url)} />
+                <div className="min-w-0">
+                  <a
+                    href={ref.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:underline break-words"
+                    title={ref.label ? ref.url : undefined}
+                  >
+                    {ref.label || ref.url}
+                  </a>
+                  {sourceStatus.get(ref.url)?.ok === false ? (
+                    <div className="text-xs text-red-600">
+                      Not used: {sourceStatus.get(ref.url)?.error || sourceStatus.get(ref.url)?.reason}
+                    </div>
+                  ) : null}
+                </div>
+              </li>
+            ))}
+          </ul>
         </div>
       ) : null}
 
@@ -165,27 +328,31 @@ export default function Copilot({ issue }: Props) {
           </div>
 
           <div className="flex flex-wrap gap-2">
-            <button
-              type="button"
-              className={optionBtn}
-              disabled={loading}
-              onClick={() => run(promptFor('about'))}
-            >
-              Tell me about this issue
-            </button>
-            <button
-              type="button"
-              className={optionBtn}
-              disabled={loading}
-              onClick={() => run(promptFor('resolve'))}
-            >
-              How to resolve this issue
-            </button>
+            {actions.map((action) => (
+              <button
+                key={action.id}
+                type="button"
+                className={optionBtn}
+                disabled={busy}
+                onClick={() => runAction(action)}
+              >
+                {action.label}
+              </button>
+            ))}
+            {busy ? (
+              <button
+                type="button"
+                className="px-3 py-2 rounded-lg border border-red-600 text-red-600 bg-white hover:bg-red-50 text-sm"
+                onClick={stop}
+              >
+                Stop
+              </button>
+            ) : null}
           </div>
 
           <input
             className="w-full border rounded-lg px-3 py-2"
-            placeholder="Type your question and press Enter…"
+            placeholder={thread.length ? 'Ask a follow-up and press Enter…' : 'Type your question and press Enter…'}
             value={question}
             onChange={(e) => setQuestion(e.target.value)}
             onKeyDown={handleKeyDown}
@@ -196,16 +363,66 @@ export default function Copilot({ issue }: Props) {
       {/* Chat area */}
       <div className="py-6">
         <div className="w-full rounded-lg bg-white p-0">
-          {loading ? (
-            <Placeholder
-              title="Thinking…"
-              subtitle="Chatting with the model and considering the issue context and reference."
-              spinner
-            />
-          ) : reply ? (
-            <article className="prose prose-sm max-w-none leading-relaxed">
-              <ReactMarkdown remarkPlugins={[remarkGfm]}>{reply}</ReactMarkdown>
-            </article>
+          {thread.length > 0 ? (
+            <div className="space-y-4">
+              {thread.map((turn, idx) =>
+                turn.role === 'user' ? (
+                  <div key={idx} className="flex justify-end">
+                    <div className="max-w-[85%] rounded-lg bg-blue-50 px-3 py-2 text-sm text-slate-800 whitespace-pre-wrap">
+                      {turn.content}
+                    </div>
+                  </div>
+                ) : turn.pending && !turn.content ? (
+                  <Placeholder
+                    key={idx}
+                    title="Thinking…"
+                    subtitle="Chatting with the model and considering the issue context and reference."
+                    spinner
+                  />
+                ) : (
+                  <article
+                    key={idx}
+                    className={[
+                      'prose prose-sm max-w-none leading-relaxed',
+                      turn.error ? 'text-red-600' : '',
+                    ].join(' ')}
+                  >
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      components={{
+                        a: ({ href, children }) => {
+                          const cited = href?.startsWith('#cite-')
+                            ? turn.citations?.find((c) => `#cite-${c.n}` === href)
+                            : undefined;
+                          return cited ? (
+                            <CitationMarker citation={cited} />
+                          ) : (
+                            <a href={href} target="_blank" rel="noreferrer">
+                              {children}
+                            </a>
+                          );
+                        },
+                      }}
+                    >
+                      {linkCitations(turn.content, turn.citations)}
+                    </ReactMarkdown>
+                    {turn.passages?.length ? <PassageList passages={turn.passages} /> : null}
+                  </article>
+                )
+              )}
+
+              {hasAnswer && !busy ? (
+                <div className="flex items-center gap-3 pt-2 border-t text-xs text-slate-500">
+                  Export runbook:
+                  <button type="button" className="text-blue-600 hover:underline" onClick={() => exportAnswer('markdown')}>
+                    Markdown
+                  </button>
+                  <button type="button" className="text-blue-600 hover:underline" onClick={() => exportAnswer('print')}>
+                    Print…
+                  </button>
+                </div>
+              ) : null}
+            </div>
           ) : !issue ? (
             <Placeholder
               title="Select an issue to start"
@@ -250,3 +467,65 @@ function Placeholder({
     </div>
   );
 }
+
+/** Whether a reference could be read for the latest answer: spinner, ✓ (loaded) or ✕ (with the reason on hover) */
+function SourceBadge({ status, loading }: { status?: ChatSourceStatus; loading?: boolean }) {
+  if (loading) {
+    return <span className="mt-1 h-3 w-3 shrink-0 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />;
+  }
+  if (!status) return <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-slate-300" title="Not loaded yet" />;
+  return status.ok ? (
+    <span className="shrink-0 text-xs text-green-600" title={status.cached ? 'Loaded (from cache)' : 'Loaded'}>
+      ✓
+    </span>
+  ) : (
+    <span className="shrink-0 text-xs text-red-600" title={`Could not load: ${status.error || status.reason || 'unknown error'}`}>
+      ✕
+    </span>
+  );
+}
+
+/** The reference passages an answer was grounded on, collapsed under the answer */
+function PassageList({ passages }: { passages: ChatPassage[] }) {
+  return (
+    <details className="not-prose mt-2 text-xs text-slate-500">
+      <summary className="cursor-pointer select-none">
+        Based on {passages.length} reference {passages.length === 1 ? 'passage' : 'passages'}
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {passages.map((p) => (
+          <li key={p.id} className="rounded border border-slate-200 bg-slate-50 px-2 py-1.5">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-slate-600">[{p.id}]</span>
+              <a href={p.url} target="_blank" rel="noreferrer" className="truncate text-blue-600 hover:underline">
+                {p.url}
+              </a>
+            </div>
+            <div className="mt-1 text-slate-600 line-clamp-3">{p.excerpt}</div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+/** Numbered citation badge; hovering (or focusing) shows the quoted passage, clicking opens the page there */
+function CitationMarker({ citation }: { citation: ChatCitation }) {
+  return (
+    <span className="not-prose group relative inline-block align-super">
+      <a
+        href={citationHref(citation)}
+        target="_blank"
+        rel="noreferrer"
+        className="mx-0.5 rounded bg-blue-100 px-1 text-[10px] font-semibold text-blue-700 no-underline hover:bg-blue-200"
+        aria-label={`Source ${citation.n}: ${citation.quote}`}
+      >
+        {citation.n}
+      </a>
+      <span className="invisible absolute bottom-full left-1/2 z-20 mb-1 w-72 -translate-x-1/2 rounded border border-slate-200 bg-white p-2 text-left text-xs font-normal leading-snug text-slate-700 shadow-lg group-hover:visible group-focus-within:visible">
+        <span className="block italic">“{citation.quote}”</span>
+        <span className="mt-1 block truncate text-slate-400">{citation.url}</span>
+      </span>
+    </span>
+  );
+}
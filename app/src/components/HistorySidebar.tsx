@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import type { Conversation, ConversationSummary } from '../types';
+import { deleteConversation, getConversation, listConversations, updateConversation } from '../lib/api';
+
+type Props = {
+  issueId: string;
+  activeId?: string;
+  /** Bump to reload the list (e.g. after the Copilot saved a thread) */
+  refreshKey?: number;
+  onOpen: (conversation: Conversation) => void;
+  onNew: () => void;
+  onDeleted?: (id: string) => void;
+};
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '';
+  return d.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export default function HistorySidebar({ issueId, activeId, refreshKey, onOpen, onNew, onDeleted }: Props) {
+  const [items, setItems] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+    try {
+      setItems(await listConversations(issueId));
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, [issueId, refreshKey]);
+
+  async function handleOpen(id: string) {
+    try {
+      onOpen(await getConversation(id));
+    } catch (e: any) {
+      alert(`Open failed: ${e?.message || String(e)}`);
+    }
+  }
+
+  async function handleRename(c: ConversationSummary) {
+    const title = window.prompt('Rename conversation', c.title);
+    if (title == null || !title.trim() || title.trim() === c.title) return;
+    try {
+      await updateConversation(c.id, { title: title.trim() });
+      await load();
+    } catch (e: any) {
+      alert(`Rename failed: ${e?.message || String(e)}`);
+    }
+  }
+
+  async function handleDelete(c: ConversationSummary) {
+    if (!window.confirm(`Delete conversation "${c.title}"?`)) return;
+    try {
+      await deleteConversation(c.id);
+      onDeleted?.(c.id);
+      await load();
+    } catch (e: any) {
+      alert(`Delete failed: ${e?.message || String(e)}`);
+    }
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-3 py-3 flex items-center justify-between border-b">
+        <div className="text-xs font-semibold uppercase tracking-wider text-slate-600">History</div>
+        <button
+          type="button"
+          onClick={onNew}
+          className="text-xs font-medium text-blue-600 hover:underline"
+        >
+          + New
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {loading && items.length === 0 ? (
+          <div className="p-3 text-xs text-gray-500">Loading…</div>
+        ) : error ? (
+          <div className="p-3 text-xs text-red-600">Error: {error}</div>
+        ) : items.length === 0 ? (
+          <div className="p-3 text-xs text-gray-500">No saved conversations for this issue yet.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map((c) => {
+              const active = c.id === activeId;
+              return (
+                <li key={c.id} className={active ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                  <button
+                    type="button"
+                    onClick={() => handleOpen(c.id)}
+                    className="w-full text-left px-3 pt-2"
+                  >
+                    <div className={['text-xs text-slate-800 truncate', active ? 'font-semibold' : ''].join(' ')}>
+                      {c.title}
+                    </div>
+                    <div className="text-[11px] text-slate-500">
+                      {formatWhen(c.updatedAt)} · {c.messageCount} messages
+                    </div>
+                  </button>
+                  <div className="px-3 pb-2 flex gap-3 text-[11px]">
+                    <button type="button" onClick={() => handleRename(c)} className="text-slate-500 hover:underline">
+                      Rename
+                    </button>
+                    <button type="button" onClick={() => handleDelete(c)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
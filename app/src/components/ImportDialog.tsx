@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { IMPORT_TARGET_FIELDS, importFindings } from '../lib/api';
+import type { ImportFormat, ImportMapping, ImportResult, ImportRow } from '../lib/api';
+
+type Props = {
+  onClose: () => void;
+  /** Called after a successful (non dry-run) import so the caller can reload */
+  onImported: () => Promise<void>;
+};
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  native: 'Catalog JSON (sections)',
+  csv: 'CSV',
+  sarif: 'SARIF 2.1',
+  json: 'Scanner JSON',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  sem_header: 'Title',
+  sem_category: 'Category',
+  severity_score: 'Severity',
+  sem_long_description: 'Description',
+  sem_recommendations: 'Recommendations',
+  sem_resolution_instruction: 'Reference URL(s)',
+  section: 'Section',
+  sub_section: 'Sub-section',
+};
+
+const ACTION_STYLES: Record<ImportRow['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  conflict: 'bg-amber-100 text-amber-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+/** Guess the format from the file name and (for JSON) its top-level shape */
+function detectFormat(fileName: string, text: string): ImportFormat {
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  if (/\.sarif(\.json)?$/i.test(fileName)) return 'sarif';
+  try {
+    const doc = JSON.parse(text);
+    if (Array.isArray(doc?.runs)) return 'sarif';
+    if (Array.isArray(doc?.sections)) return 'native';
+    return 'json';
+  } catch {
+    return 'csv';
+  }
+}
+
+export default function ImportDialog({ onClose, onImported }: Props) {
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [onConflict, setOnConflict] = useState<'update' | 'skip'>('update');
+  const [mapping, setMapping] = useState<ImportMapping | undefined>(undefined);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [done, setDone] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mapped = format === 'csv' || format === 'json';
+  const writable = preview ? preview.summary.create + preview.summary.update : 0;
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setFormat(detectFormat(file.name, text));
+    setMapping(undefined);
+    setPreview(null);
+    setDone(null);
+    setError(null);
+  }
+
+  async function run(dryRun: boolean) {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await importFindings({ format, content, mapping, onConflict, dryRun });
+      if (dryRun) {
+        setPreview(result);
+        setMapping(result.mapping);
+      } else {
+        setDone(result);
+        setPreview(null);
+        await onImported();
+      }
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const shown = done || preview;
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-4xl rounded-lg bg-white shadow-lg max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <div className="font-semibold">Import Findings</div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-auto">
+          {/* Step 1: file + options */}
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="block text-sm">
+              <span className="text-gray-700">File</span>
+              <input
+                type="file"
+                accept=".csv,.json,.sarif"
+                className="mt-1 block text-sm"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+
+            <label className="block text-sm">
+              <span className="text-gray-700">Format</span>
+              <select
+                className="mt-1 block border rounded px-2 py-1.5"
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as ImportFormat);
+                  setMapping(undefined);
+                  setPreview(null);
+                }}
+              >
+                {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((f) => (
+                  <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block text-sm">
+              <span className="text-gray-700">Existing titles</span>
+              <select
+                className="mt-1 block border rounded px-2 py-1.5"
+                value={onConflict}
+                onChange={(e) => {
+                  setOnConflict(e.target.value as 'update' | 'skip');
+                  setPreview(null);
+                }}
+              >
+                <option value="update">Update them</option>
+                <option value="skip">Skip (report conflict)</option>
+              </select>
+            </label>
+
+            <button
+              className="px-3 py-2 rounded border text-sm hover:bg-gray-50 disabled:opacity-50"
+              disabled={!content || busy}
+              onClick={() => run(true)}
+            >
+              {preview ? 'Refresh Preview' : 'Preview'}
+            </button>
+          </div>
+
+          {fileName ? <div className="text-xs text-gray-500">{fileName}</div> : null}
+          {error ? <div className="text-sm text-red-600">Error: {error}</div> : null}
+
+          {/* Step 2: field mapping (CSV / scanner JSON only) */}
+          {mapped && preview ? (
+            <div className="rounded border border-gray-200 p-3">
+              <div className="text-xs font-semibold uppercase tracking-wider text-gray-600 mb-2">Field mapping</div>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                {IMPORT_TARGET_FIELDS.map((field) => (
+                  <label key={field} className="flex items-center gap-2 text-sm">
+                    <span className="w-36 text-gray-700">{FIELD_LABELS[field]}</span>
+                    <select
+                      className="flex-1 border rounded px-2 py-1 text-sm"
+                      value={mapping?.[field] || ''}
+                      onChange={(e) => setMapping({ ...(mapping || {}), [field]: e.target.value || undefined })}
+                    >
+                      <option value="">—</option>
+                      {preview.columns.map((c) => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-gray-500">Change the mapping, then Refresh Preview.</div>
+            </div>
+          ) : null}
+
+          {/* Step 3: preview / result */}
+          {shown ? (
+            <div>
+              <div className="mb-2 text-sm text-gray-700">
+                {done ? 'Imported: ' : 'Preview: '}
+                {shown.summary.create} to create · {shown.summary.update} to update · {shown.summary.conflict} conflicts ·{' '}
+                {shown.summary.error} errors
+              </div>
+              <div className="rounded border border-gray-200 overflow-auto max-h-80">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr className="text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                      <th className="px-3 py-2 w-12">Row</th>
+                      <th className="px-3 py-2">Title</th>
+                      <th className="px-3 py-2 w-24">Action</th>
+                      <th className="px-3 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {shown.rows.map((r) => (
+                      <tr key={r.row}>
+                        <td className="px-3 py-1.5 text-gray-500">{r.row}</td>
+                        <td className="px-3 py-1.5 text-gray-800">{r.header || <em className="text-gray-400">(none)</em>}</td>
+                        <td className="px-3 py-1.5">
+                          <span className={`px-2 py-0.5 rounded text-xs ${ACTION_STYLES[r.action]}`}>{r.action}</span>
+                        </td>
+                        <td className="px-3 py-1.5 text-xs text-gray-600">
+                          {r.errors?.length ? <span className="text-red-700">{r.errors.join('; ')}</span> : r.message || r.location || ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="px-4 py-3 border-t flex items-center justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-2 rounded border text-sm">
+            {done ? 'Close' : 'Cancel'}
+          </button>
+          {!done ? (
+            <button
+              onClick={() => run(false)}
+              disabled={!preview || writable === 0 || busy}
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+            >
+              Import {writable || ''} {writable === 1 ? 'finding' : 'findings'}
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,186 @@
-import React from 'react';
-import type { Issue } from '../types';
+import React, { useState } from 'react';
+import type { HighlightRange, Issue, IssueWorkflow, SearchHit, SeverityLevel } from '../types';
+import SeverityIcon from './SeverityIcon';
+import { severityLevel } from '../lib/severity';
+import { STATUS_LABELS, STATUS_STYLES, isOverdue } from '../lib/workflow';
 
 type Props = {
   issues: Issue[];
   selectedId: string | null;
   onSelect: (issue: Issue) => void;
   className?: string;
+  grouped?: boolean; // show findings under collapsible section / sub-section headers
+  highlights?: Map<string, SearchHit> | null; // active search: mark matches and show a snippet
+  workflows?: Record<string, IssueWorkflow>; // remediation status by issue id (missing = open)
+  severityLevels?: SeverityLevel[]; // picks each row's icon
 };
 
-export default function IssueList({ issues, selectedId, onSelect, className }: Props) {
+type Group = { key: string; title: string; subs: { key: string; title: string; issues: Issue[] }[] };
+
+/** Group consecutive issues by section, then sub-section (expects issues sorted by location) */
+function groupIssues(issues: Issue[]): Group[] {
+  const groups: Group[] = [];
+  for (const issue of issues) {
+    const secKey = String(issue.location?.section ?? issue.section ?? '');
+    const subKey = `${secKey}/${issue.location?.subSection ?? issue.subSection ?? ''}`;
+    let group = groups[groups.length - 1];
+    if (!group || group.key !== secKey) {
+      group = { key: secKey, title: issue.section || 'Ungrouped', subs: [] };
+      groups.push(group);
+    }
+    let sub = group.subs[group.subs.length - 1];
+    if (!sub || sub.key !== subKey) {
+      sub = { key: subKey, title: issue.subSection || '', issues: [] };
+      group.subs.push(sub);
+    }
+    sub.issues.push(issue);
+  }
+  return groups;
+}
+
+/** Remediation status; red ring when the due date has passed */
+function StatusBadge({ workflow }: { workflow?: IssueWorkflow }) {
+  const status = workflow?.status ?? 'open';
+  const overdue = isOverdue(workflow);
+  const title = [
+    STATUS_LABELS[status],
+    workflow?.owner && `Owner: ${workflow.owner}`,
+    workflow?.dueDate && `${overdue ? 'Overdue since' : 'Due'} ${workflow.dueDate}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
   return (
-    <div className={['divide-y divide-gray-200', className].join(' ')}>
-      {issues.map((issue) => {
-        const active = issue.id === selectedId;
-
-        // Pick severity icon
-        let icon: string | null = null;
-        if (issue.severityScore != null) {
-          if (issue.severityScore <= 0.6) {
-            icon = '/icons/moderate.png';
-          } else if (issue.severityScore <= 0.89) {
-            icon = '/icons/important.png';
-          } else {
-            icon = '/icons/critical.png';
-          }
-        }
+    <span
+      title={title}
+      className={[
+        'ml-auto flex-shrink-0 rounded-full border px-2 py-0.5 text-[11px] font-medium whitespace-nowrap',
+        STATUS_STYLES[status],
+        overdue ? 'ring-1 ring-red-400' : '',
+      ].join(' ')}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
 
-        return (
-          <button
-            key={issue.id}
-            type="button"
-            onClick={() => onSelect(issue)}
-            className={[
-              'w-full text-left px-4 py-3 flex items-center gap-2',
-              active ? 'bg-blue-50 font-semibold' : 'hover:bg-gray-50'
-            ].join(' ')}
-          >
-            {icon ? (
-              <img src={icon} alt="Severity" className="w-4 h-4 flex-shrink-0" />
+/** Text with <mark> around the given [start, end) ranges */
+function Highlighted({ text, ranges }: { text: string; ranges: HighlightRange[] }) {
+  if (!ranges.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    pos = end;
+  });
+  if (pos < text.length) parts.push(text.slice(pos));
+  return <>{parts}</>;
+}
+
+export default function IssueList({
+  issues,
+  selectedId,
+  onSelect,
+  className,
+  grouped,
+  highlights,
+  workflows,
+  severityLevels = [],
+}: Props) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  function toggle(key: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  function renderRow(issue: Issue) {
+    const active = issue.id === selectedId;
+    const hit = highlights?.get(issue.id);
+
+    return (
+      <button
+        key={issue.id}
+        type="button"
+        onClick={() => onSelect(issue)}
+        className={[
+          'w-full text-left px-4 py-3 flex items-center gap-2',
+          active ? 'bg-blue-50 font-semibold' : 'hover:bg-gray-50'
+        ].join(' ')}
+      >
+        <SeverityIcon level={severityLevel(severityLevels, issue.severityScore)} />
+        {hit ? (
+          <span className="min-w-0">
+            <span className="block truncate">
+              <Highlighted text={hit.header} ranges={hit.highlights.header} />
+            </span>
+            {hit.highlights.snippet.ranges.length ? (
+              <span className="block text-xs font-normal text-gray-500 line-clamp-2">
+                <Highlighted text={hit.highlights.snippet.text} ranges={hit.highlights.snippet.ranges} />
+              </span>
             ) : null}
-            <span className="truncate">{issue.name}</span>
-          </button>
+          </span>
+        ) : (
+          <span className="truncate">{issue.name}</span>
+        )}
+        <StatusBadge workflow={workflows?.[issue.id]} />
+      </button>
+    );
+  }
+
+  if (!grouped) {
+    return <div className={['divide-y divide-gray-200', className].join(' ')}>{issues.map(renderRow)}</div>;
+  }
+
+  return (
+    <div className={className}>
+      {groupIssues(issues).map((group) => {
+        const open = !collapsed.has(group.key);
+        const count = group.subs.reduce((n, s) => n + s.issues.length, 0);
+        return (
+          <section key={group.key}>
+            <button
+              type="button"
+              onClick={() => toggle(group.key)}
+              aria-expanded={open}
+              className="sticky top-0 z-10 w-full text-left px-4 py-2 flex items-center gap-2 bg-gray-100 border-b text-sm font-semibold text-slate-800"
+            >
+              <span className="w-3 text-xs">{open ? '▾' : '▸'}</span>
+              <span className="truncate">{group.title}</span>
+              <span className="ml-auto text-xs font-normal text-slate-500">{count}</span>
+            </button>
+
+            {open
+              ? group.subs.map((sub) => {
+                  const subOpen = !collapsed.has(sub.key);
+                  return (
+                    <div key={sub.key}>
+                      <button
+                        type="button"
+                        onClick={() => toggle(sub.key)}
+                        aria-expanded={subOpen}
+                        className="w-full text-left pl-8 pr-4 py-1.5 flex items-center gap-2 bg-gray-50 border-b text-xs font-medium text-slate-600"
+                      >
+                        <span className="w-3">{subOpen ? '▾' : '▸'}</span>
+                        <span className="truncate">{sub.title}</span>
+                        <span className="ml-auto text-slate-400">{sub.issues.length}</span>
+                      </button>
+                      {subOpen ? (
+                        <div className="divide-y divide-gray-200 border-b">{sub.issues.map(renderRow)}</div>
+                      ) : null}
+                    </div>
+                  );
+                })
+              : null}
+          </section>
         );
       })}
     </div>
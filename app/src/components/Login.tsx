@@ -0,0 +1,91 @@
+import React, { useEffect, useState, FormEvent } from 'react';
+import type { AuthUser } from '../types';
+import { getAuthConfig, login, oidcLoginUrl } from '../lib/api';
+
+type Props = {
+  onLoggedIn: (user: AuthUser) => void;
+  error?: string | null; // e.g. returned from a failed SSO redirect
+};
+
+export default function Login({ onLoggedIn, error: initialError }: Props) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(initialError ?? null);
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+
+  useEffect(() => {
+    getAuthConfig()
+      .then((c) => setSsoEnabled(c.oidc.enabled))
+      .catch(() => setSsoEnabled(false));
+  }, []);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    setBusy(true);
+    setError(null);
+    try {
+      onLoggedIn(await login(username.trim(), password));
+    } catch (err: any) {
+      setError(err?.status === 401 ? 'Invalid username or password.' : err?.message || String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-white">
+      <header className="flex items-center px-6 py-4 bg-blue-800 text-white shadow-md">
+        <div className="font-semibold text-lg">Security Issues</div>
+      </header>
+
+      <div className="flex-1 flex items-center justify-center p-4">
+        <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-lg border border-gray-200 shadow-sm">
+          <div className="px-4 py-3 border-b font-semibold">Sign in</div>
+
+          <div className="p-4 space-y-3">
+            <label className="block text-sm">
+              <span className="text-gray-700">Username</span>
+              <input
+                className="mt-1 w-full border rounded px-3 py-2"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                autoFocus
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Password</span>
+              <input
+                type="password"
+                className="mt-1 w-full border rounded px-3 py-2"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </label>
+            {error ? <div className="text-sm text-red-600">{error}</div> : null}
+          </div>
+
+          <div className="px-4 py-3 border-t flex items-center justify-between gap-2">
+            {ssoEnabled ? (
+              <a href={oidcLoginUrl()} className="text-sm text-blue-600 hover:underline">
+                Sign in with SSO
+              </a>
+            ) : (
+              <span />
+            )}
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {busy ? 'Signing in…' : 'Sign in'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
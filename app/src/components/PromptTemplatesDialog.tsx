@@ -0,0 +1,308 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Issue } from '../types';
+import {
+  createPrompt,
+  deletePrompt,
+  listPrompts,
+  renderPrompt,
+  reorderPrompts,
+  resetPrompt,
+  updatePrompt,
+} from '../lib/api';
+import type { PromptTemplate, PromptVariable } from '../lib/api';
+
+type Props = {
+  /** Issues to preview a template against */
+  issues: Issue[];
+  onClose: () => void;
+};
+
+const NEW_ID = '__new__';
+
+const KIND_HINTS: Record<PromptTemplate['kind'], string> = {
+  system: 'Sent as the system message of every chat. {{passages}} is where the reference passages go.',
+  context: 'Wraps the first question about an issue. {{question}} is what the user asked.',
+  action: 'A quick-action button under the issue; the rendered text is asked as the question.',
+};
+
+/** Admin editor for the Copilot prompt templates: system prompt, issue context and quick actions */
+export default function PromptTemplatesDialog({ issues, onClose }: Props) {
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [template, setTemplate] = useState('');
+  const [previewIssueId, setPreviewIssueId] = useState(issues[0]?.id || '');
+  const [preview, setPreview] = useState<{ text: string; unknown: string[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const selected = prompts.find((p) => p.id === selectedId) || null;
+  const isNew = selectedId === NEW_ID;
+  const dirty = isNew || (!!selected && (label !== selected.label || template !== selected.template));
+  const actions = prompts.filter((p) => p.kind === 'action');
+
+  useEffect(() => {
+    listPrompts()
+      .then((r) => {
+        setPrompts(r.prompts);
+        setVariables(r.variables);
+        if (r.prompts[0]) select(r.prompts[0]);
+      })
+      .catch((e) => setError(e?.message || String(e)));
+  }, []);
+
+  function select(p: PromptTemplate | null) {
+    setSelectedId(p ? p.id : NEW_ID);
+    setLabel(p ? p.label : '');
+    setTemplate(p ? p.template : '');
+    setPreview(null);
+    setError(null);
+  }
+
+  function choose(p: PromptTemplate | null) {
+    if (dirty && !window.confirm('Discard unsaved changes?')) return;
+    select(p);
+  }
+
+  async function act(fn: () => Promise<void>) {
+    try {
+      setBusy(true);
+      setError(null);
+      await fn();
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function replace(saved: PromptTemplate) {
+    setPrompts((prev) =>
+      prev.some((p) => p.id === saved.id) ? prev.map((p) => (p.id === saved.id ? saved : p)) : [...prev, saved]
+    );
+    select(saved);
+  }
+
+  const save = () =>
+    act(async () => {
+      const fields = { label, template };
+      replace(isNew ? await createPrompt(fields) : await updatePrompt(selectedId as string, fields));
+    });
+
+  const reset = () =>
+    act(async () => {
+      if (!selected || !window.confirm(`Reset "${selected.label}" to its default text?`)) return;
+      replace(await resetPrompt(selected.id));
+    });
+
+  const remove = () =>
+    act(async () => {
+      if (!selected || !window.confirm(`Delete the quick action "${selected.label}"?`)) return;
+      await deletePrompt(selected.id);
+      const rest = prompts.filter((p) => p.id !== selected.id);
+      setPrompts(rest);
+      select(rest[0] || null);
+    });
+
+  const move = (id: string, delta: number) =>
+    act(async () => {
+      const ids = actions.map((a) => a.id);
+      const i = ids.indexOf(id);
+      const j = i + delta;
+      if (j < 0 || j >= ids.length) return;
+      [ids[i], ids[j]] = [ids[j], ids[i]];
+      setPrompts(await reorderPrompts(ids));
+    });
+
+  const runPreview = () =>
+    act(async () => {
+      setPreview(await renderPrompt({ template, issueId: previewIssueId || undefined }));
+    });
+
+  /** Insert {{name}} at the cursor */
+  function insertVariable(name: string) {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    const at = el ? el.selectionStart : template.length;
+    const end = el ? el.selectionEnd : template.length;
+    setTemplate(template.slice(0, at) + token + template.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(at + token.length, at + token.length);
+    });
+  }
+
+  const kind = isNew ? 'action' : selected?.kind;
+  const itemCls = (active: boolean) =>
+    `w-full text-left px-3 py-1.5 rounded text-sm truncate ${active ? 'bg-blue-50 text-blue-800' : 'hover:bg-gray-50'}`;
+  const linkBtn = 'text-xs text-gray-500 hover:text-gray-800 disabled:opacity-30';
+  const chipBtn =
+    'rounded border border-gray-200 bg-gray-50 px-2 py-0.5 font-mono text-xs text-gray-700 hover:bg-gray-100';
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-5xl rounded-lg bg-white shadow-lg max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <div className="font-semibold">Prompt templates</div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          {/* Template list */}
+          <div className="w-60 shrink-0 border-r p-3 space-y-4 overflow-auto">
+            <div>
+              <div className="px-3 mb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">Chat</div>
+              {prompts
+                .filter((p) => p.kind !== 'action')
+                .map((p) => (
+                  <button key={p.id} className={itemCls(p.id === selectedId)} onClick={() => choose(p)}>
+                    {p.label}
+                  </button>
+                ))}
+            </div>
+            <div>
+              <div className="px-3 mb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Quick actions
+              </div>
+              {actions.map((p, i) => (
+                <div key={p.id} className="flex items-center gap-1">
+                  <button className={itemCls(p.id === selectedId)} onClick={() => choose(p)} title={p.label}>
+                    {p.label}
+                  </button>
+                  <button
+                    className={linkBtn}
+                    disabled={busy || i === 0}
+                    onClick={() => move(p.id, -1)}
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className={linkBtn}
+                    disabled={busy || i === actions.length - 1}
+                    onClick={() => move(p.id, 1)}
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                </div>
+              ))}
+              <button className={`${itemCls(isNew)} text-blue-600`} onClick={() => choose(null)}>
+                + New quick action
+              </button>
+            </div>
+          </div>
+
+          {/* Editor + preview */}
+          <div className="flex-1 min-w-0 p-4 space-y-3 overflow-auto">
+            {kind ? <div className="text-xs text-gray-500">{KIND_HINTS[kind]}</div> : null}
+            <label className="block text-sm">
+              <span className="text-gray-700">{kind === 'action' ? 'Button label' : 'Name'}</span>
+              <input
+                className="mt-1 w-full border rounded px-3 py-2 text-sm"
+                value={label}
+                maxLength={60}
+                placeholder="e.g. Write a PowerShell script"
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Template</span>
+              <textarea
+                ref={textareaRef}
+                className="mt-1 w-full border rounded px-3 py-2 text-sm font-mono"
+                rows={kind === 'action' ? 4 : 10}
+                value={template}
+                placeholder='e.g. Write a PowerShell script that remediates "{{issue.name}}".'
+                onChange={(e) => setTemplate(e.target.value)}
+              />
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {variables.map((v) => (
+                <button
+                  key={v.name}
+                  type="button"
+                  className={chipBtn}
+                  title={v.description}
+                  onClick={() => insertVariable(v.name)}
+                >
+                  {`{{${v.name}}}`}
+                </button>
+              ))}
+            </div>
+
+            <div className="rounded border border-gray-200 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-semibold uppercase tracking-wider text-gray-600">Preview</span>
+                <select
+                  className="flex-1 min-w-0 border rounded px-2 py-1 text-sm"
+                  value={previewIssueId}
+                  onChange={(e) => setPreviewIssueId(e.target.value)}
+                >
+                  <option value="">(no issue)</option>
+                  {issues.map((i) => (
+                    <option key={i.id} value={i.id}>
+                      {i.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="px-3 py-1 rounded border text-sm hover:bg-gray-50 disabled:opacity-50"
+                  disabled={busy || !template.trim()}
+                  onClick={runPreview}
+                >
+                  Render
+                </button>
+              </div>
+              {preview?.unknown.length ? (
+                <div className="text-xs text-amber-700">
+                  Unknown variables (left as written): {preview.unknown.map((n) => `{{${n}}}`).join(', ')}
+                </div>
+              ) : null}
+              {preview ? (
+                <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs text-gray-800">
+                  {preview.text}
+                </pre>
+              ) : null}
+            </div>
+
+            {error ? <div className="text-sm text-red-600">Error: {error}</div> : null}
+          </div>
+        </div>
+
+        <div className="px-4 py-3 border-t flex items-center justify-between gap-2">
+          <div className="flex gap-2">
+            {selected?.kind === 'action' ? (
+              <button
+                className="px-3 py-2 rounded border text-sm text-red-600 hover:bg-red-50"
+                disabled={busy}
+                onClick={remove}
+              >
+                Delete
+              </button>
+            ) : null}
+            {selected?.builtIn ? (
+              <button className="px-3 py-2 rounded border text-sm hover:bg-gray-50" disabled={busy} onClick={reset}>
+                Reset to default
+              </button>
+            ) : null}
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+              disabled={busy || !dirty || !label.trim() || !template.trim()}
+              onClick={save}
+            >
+              {isNew ? 'Create' : 'Save'}
+            </button>
+            <button onClick={onClose} className="px-3 py-2 rounded border text-sm">
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
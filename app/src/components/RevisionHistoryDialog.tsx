@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { getRevisions, restoreRevision } from '../lib/api';
+import type { Revision } from '../lib/api';
+import type { SemTemplate } from '../types';
+import { diffWords } from '../lib/diff';
+
+type Props = {
+  issueId: string;
+  issueName: string;
+  canEdit: boolean;
+  onClose: () => void;
+  onRestored: () => void; // after a revision was restored (reload the catalog)
+};
+
+const ACTION_LABELS: Record<Revision['action'], string> = {
+  baseline: 'Before first tracked edit',
+  create: 'Created',
+  update: 'Edited',
+  import: 'Imported',
+  restore: 'Restored',
+  undelete: 'Restored from trash',
+};
+
+function asList(v: unknown): string[] {
+  if (v == null || v === '') return [];
+  return (Array.isArray(v) ? v : [v]).map((x) => String(x).trim()).filter(Boolean);
+}
+
+/** The fields shown side by side, as plain text */
+function fieldsOf(t: SemTemplate | null): [string, string][] {
+  const labels = t?.sem_reference_labels || {};
+  const refs = asList(t?.sem_resolution_instruction).map((u) => (labels[u] ? `${labels[u]} — ${u}` : u));
+  return [
+    ['Title', t?.sem_header || ''],
+    ['Category', t?.sem_category || ''],
+    ['Severity', t?.severity_score == null ? '' : String(t.severity_score)],
+    ['Description', t?.sem_long_description || ''],
+    ['Recommendations', asList(t?.sem_recommendations).join('\n')],
+    ['References', refs.join('\n')],
+  ];
+}
+
+/** One field of the side-by-side view: removed words marked on the left, added words on the right */
+function FieldDiff({ label, before, after }: { label: string; before: string; after: string }) {
+  const parts = diffWords(before, after);
+  const changed = before !== after;
+  const cell = 'px-3 py-2 align-top whitespace-pre-wrap break-words text-sm';
+  return (
+    <tr className={changed ? '' : 'text-gray-500'}>
+      <td className="px-3 py-2 align-top text-xs font-medium text-gray-600 w-32">
+        {label}
+        {changed ? null : <div className="font-normal text-gray-400">unchanged</div>}
+      </td>
+      <td className={cell}>
+        {parts
+          .filter((p) => p.kind !== 'added')
+          .map((p, i) =>
+            p.kind === 'removed' ? (
+              <del key={i} className="bg-red-100 text-red-800 no-underline rounded-sm">
+                {p.text}
+              </del>
+            ) : (
+              <span key={i}>{p.text}</span>
+            )
+          )}
+        {!before ? <span className="text-gray-400">—</span> : null}
+      </td>
+      <td className={cell}>
+        {parts
+          .filter((p) => p.kind !== 'removed')
+          .map((p, i) =>
+            p.kind === 'added' ? (
+              <ins key={i} className="bg-green-100 text-green-800 no-underline rounded-sm">
+                {p.text}
+              </ins>
+            ) : (
+              <span key={i}>{p.text}</span>
+            )
+          )}
+        {!after ? <span className="text-gray-400">—</span> : null}
+      </td>
+    </tr>
+  );
+}
+
+/** Version history of one finding: pick a revision, compare it with the current text, restore it */
+export default function RevisionHistoryDialog({ issueId, issueName, canEdit, onClose, onRestored }: Props) {
+  const [current, setCurrent] = useState<SemTemplate | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      setError(null);
+      const r = await getRevisions(issueId);
+      setCurrent(r.current);
+      setRevisions(r.revisions);
+      // Newest revision is the current text; start by comparing the one before it
+      setSelected(r.revisions[1]?.rev ?? r.revisions[0]?.rev ?? null);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, [issueId]);
+
+  const revision = revisions.find((r) => r.rev === selected) || null;
+  const before = fieldsOf(revision?.template || null);
+  const after = fieldsOf(current);
+  const identical = !!revision && before.every(([, v], i) => v === after[i][1]);
+
+  async function handleRestore() {
+    if (!revision || !window.confirm(`Restore revision ${revision.rev} of "${issueName}"?`)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await restoreRevision(issueId, revision.rev);
+      await load();
+      onRestored();
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-6xl rounded-lg bg-white shadow-lg max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <div className="font-semibold truncate">History · {issueName}</div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          {/* Revision list */}
+          <div className="w-64 shrink-0 border-r overflow-auto p-2 space-y-1">
+            {revisions.map((r, i) => (
+              <button
+                key={r.rev}
+                className={`w-full text-left px-3 py-2 rounded text-sm ${
+                  r.rev === selected ? 'bg-blue-50 text-blue-800' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => setSelected(r.rev)}
+              >
+                <div className="font-medium">
+                  Revision {r.rev}
+                  {i === 0 && current ? (
+                    <span className="ml-1 text-xs font-normal text-gray-500">(current)</span>
+                  ) : null}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {ACTION_LABELS[r.action] || r.action}
+                  {r.restoredFrom ? ` ${r.restoredFrom}` : ''}
+                  {r.by ? ` by ${r.by}` : ''}
+                </div>
+                <div className="text-xs text-gray-400">{new Date(r.at).toLocaleString()}</div>
+              </button>
+            ))}
+            {!revisions.length && !error ? (
+              <div className="px-3 py-2 text-sm text-gray-500">
+                No revisions recorded yet; they start with the next edit.
+              </div>
+            ) : null}
+          </div>
+
+          {/* Side-by-side diff */}
+          <div className="flex-1 min-w-0 overflow-auto p-4">
+            {revision ? (
+              <table className="w-full table-fixed divide-y divide-gray-100">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-gray-500">
+                    <th className="w-32" />
+                    <th className="px-3 py-2">Revision {revision.rev}</th>
+                    <th className="px-3 py-2">{current ? 'Current' : 'Current (in the trash)'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {before.map(([label, value], i) => (
+                    <FieldDiff key={label} label={label} before={value} after={after[i][1]} />
+                  ))}
+                </tbody>
+              </table>
+            ) : null}
+            {error ? <div className="mt-3 text-sm text-red-600">Error: {error}</div> : null}
+          </div>
+        </div>
+
+        <div className="px-4 py-3 border-t flex items-center justify-end gap-2">
+          {canEdit && revision ? (
+            <button
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+              disabled={busy || identical || !current}
+              title={identical ? 'This revision matches the current text' : undefined}
+              onClick={handleRestore}
+            >
+              Restore revision {revision.rev}
+            </button>
+          ) : null}
+          <button onClick={onClose} className="px-3 py-2 rounded border text-sm">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
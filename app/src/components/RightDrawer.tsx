@@ -12,6 +12,9 @@ type Props = {
   onNext?: () => void;
   disablePrev?: boolean;
   disableNext?: boolean;
+
+  sidebar?: React.ReactNode; // optional left column (e.g. conversation history)
+  subheader?: React.ReactNode; // optional full-width strip under the toolbar (e.g. workflow status)
 };
 
 export default function RightDrawer({
@@ -24,7 +27,9 @@ export default function RightDrawer({
   onPrev,
   onNext,
   disablePrev,
-  disableNext
+  disableNext,
+  sidebar,
+  subheader
 }: Props) {
   // Close on ESC
   useEffect(() => {
@@ -110,8 +115,17 @@ export default function RightDrawer({
           </div>
         </div>
 
-        {/* Content */}
-        <div className="h-full overflow-auto">{children}</div>
+        {subheader}
+
+        {/* Content (+ optional sidebar) */}
+        {sidebar ? (
+          <div className="flex-1 min-h-0 flex">
+            <div className="w-56 flex-shrink-0 border-r min-h-0">{sidebar}</div>
+            <div className="flex-1 min-w-0 overflow-auto">{children}</div>
+          </div>
+        ) : (
+          <div className="h-full overflow-auto">{children}</div>
+        )}
       </aside>
     </>
   );
@@ -1,24 +1,55 @@
-import React, { useMemo, useState } from 'react';
-import type { Issue } from '../types';
-import { deleteIssue, updateIssue, getIssues, createIssue } from '../lib/api';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { FieldErrors, Issue, IssueLocation, IssueReference, SectionOutline, SeverityLevel } from '../types';
+import ImportDialog from './ImportDialog';
+import PromptTemplatesDialog from './PromptTemplatesDialog';
+import UsageDashboard from './UsageDashboard';
+import AuditLog from './AuditLog';
+import RevisionHistoryDialog from './RevisionHistoryDialog';
+import SeverityIcon from './SeverityIcon';
+import SeverityLevelsDialog from './SeverityLevelsDialog';
+import TrashDialog from './TrashDialog';
+import { extractIssues } from '../lib/catalog';
+import { saveFile } from '../lib/download';
+import { severityLabel, severityLevel } from '../lib/severity';
+import {
+  ApiError,
+  deleteIssue,
+  updateIssue,
+  getIssues,
+  createIssue,
+  exportCatalog,
+  getSections,
+  createSection,
+  renameSection,
+  deleteSection,
+  createSubSection,
+  renameSubSection,
+  deleteSubSection,
+} from '../lib/api';
 
 type Props = {
   issues: Issue[];
   onBack: () => void;
+  canEdit?: boolean; // editors+ may create/edit/delete; viewers get a read-only table
+  isAdmin?: boolean; // admins also manage the Copilot prompt templates and severity levels
+  severityLevels: SeverityLevel[];
+  onSeverityLevelsChange: (levels: SeverityLevel[]) => void; // after an admin saved new levels
 };
 
-function sevLabel(score?: number): string {
-  if (score == null || Number.isNaN(score)) return 'Unknown';
-  if (score >= 0.9) return `Critical (${score.toFixed(2)})`;
-  if (score >= 0.61) return `Important (${score.toFixed(2)})`;
-  return `Moderate (${score.toFixed(2)})`;
+/** sem_resolution_instruction + sem_reference_labels for a create/update payload */
+function referencePayload(refs?: IssueReference[]) {
+  const list = (refs || []).filter((r) => r.url);
+  return {
+    sem_resolution_instruction: list.map((r) => r.url),
+    sem_reference_labels: Object.fromEntries(list.filter((r) => r.label).map((r) => [r.url, r.label as string])),
+  };
 }
 
-function sevBucket(score?: number): 'Critical' | 'Important' | 'Moderate' | 'Unknown' {
-  if (score == null || Number.isNaN(score)) return 'Unknown';
-  if (score >= 0.9) return 'Critical';
-  if (score >= 0.61) return 'Important';
-  return 'Moderate';
+/** Trim the edited rows; rows without a URL are dropped */
+function cleanReferences(refs: IssueReference[]): IssueReference[] {
+  return refs
+    .map((r) => ({ url: r.url.trim(), label: r.label?.trim() || undefined }))
+    .filter((r) => r.url);
 }
 
 // standard categories
@@ -43,80 +74,57 @@ function normalizeCategoryLabel(raw?: string): CategoryOption {
   return 'Other';
 }
 
-export default function Settings({ issues, onBack }: Props) {
+export default function Settings({
+  issues,
+  onBack,
+  canEdit = false,
+  isAdmin = false,
+  severityLevels,
+  onSeverityLevelsChange,
+}: Props) {
   const [openMenu, setOpenMenu] = useState<string | null>(null);
   const [editing, setEditing] = useState<Issue | null>(null);
   const [creating, setCreating] = useState<boolean>(false);
   const [busy, setBusy] = useState(false);
   const [localIssues, setLocalIssues] = useState<Issue[]>(issues);
+  const [sections, setSections] = useState<SectionOutline[]>([]);
+  const [managingSections, setManagingSections] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [history, setHistory] = useState<Issue | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [editingPrompts, setEditingPrompts] = useState(false);
+  const [editingSeverity, setEditingSeverity] = useState(false);
 
   // controls
   const [search, setSearch] = useState('');
   const [filterCategory, setFilterCategory] = useState<CategoryOption | 'All'>('All');
-  const [filterSeverity, setFilterSeverity] = useState<'All' | 'Critical' | 'Important' | 'Moderate'>('All');
+  const [filterSeverity, setFilterSeverity] = useState<string>('All'); // 'All' or a severity level name
   const [sortBy, setSortBy] = useState<'Title' | 'Severity'>('Title');
 
   useMemo(() => setLocalIssues(issues), [issues]);
 
-  async function refreshFromServer() {
-    const data = await getIssues();
-
-    function normalizeUrl(u?: string | null): string | null {
-      if (!u) return null;
-      const s = String(u).trim();
-      if (!s) return null;
-      if (/^https?:\/\//i.test(s)) return s;
-      if (/^[\w.-]+\.[a-z]{2,}([\/?#].*)?$/i.test(s)) return `https://${s}`;
-      return null;
-    }
-    function normalizeRecommendations(val: unknown): string[] | undefined {
-      if (!val) return undefined;
-      if (Array.isArray(val)) {
-        const arr = val.map((x) => String(x ?? '').trim()).filter(Boolean);
-        return arr.length ? arr : undefined;
-      }
-      const str = String(val).trim();
-      if (!str) return undefined;
-      const parts = str.split(/\r?\n|•|- |\u2022/).map((x) => x.trim()).filter(Boolean);
-      return (parts.length ? parts : [str]) as string[];
+  async function loadSections() {
+    try {
+      setSections(await getSections());
+    } catch (e) {
+      console.error('Failed to load sections:', e);
     }
+  }
 
-    const out: Issue[] = [];
-    const seen = new Set<string>();
-    for (const section of data.sections || []) {
-      for (const sub of section.sub_sections || []) {
-        for (const ft of sub.finding_templates || []) {
-          const st = ft?.sem_template || {};
-          const name = st.sem_header as string | undefined;
-          if (!name || seen.has(name)) continue;
-
-          let reference: string | undefined;
-          const instr = st.sem_resolution_instruction;
-          if (Array.isArray(instr)) {
-            for (const c of instr) {
-              const norm = normalizeUrl(typeof c === 'string' ? c : String(c));
-              if (norm) { reference = norm; break; }
-            }
-          } else {
-            reference = normalizeUrl(instr) ?? undefined;
-          }
-
-          const description: string | undefined = st.sem_long_description || undefined;
-          const recommendations = normalizeRecommendations(st.sem_recommendations);
-          const severityScore = st.severity_score != null ? Number(st.severity_score) : undefined;
-          const categoryRaw: string | undefined = st.sem_category || undefined;
-          const category = normalizeCategoryLabel(categoryRaw);
-
-          out.push({ id: name, name, reference, description, recommendations, severityScore, category });
-          seen.add(name);
-        }
-      }
-    }
-    setLocalIssues(out);
+  useEffect(() => {
+    loadSections();
+  }, []);
+
+  async function refreshFromServer() {
+    const data = await getIssues();
+    setLocalIssues(extractIssues(data).map((i) => ({ ...i, category: normalizeCategoryLabel(i.category) })));
+    await loadSections();
   }
 
   async function handleDelete(issue: Issue) {
-    if (!window.confirm(`Delete issue "${issue.name}"? This cannot be undone.`)) return;
+    if (!window.confirm(`Move issue "${issue.name}" to the trash? You can restore it from Trash….`)) return;
     try {
       setBusy(true);
       await deleteIssue(issue.id);
@@ -129,6 +137,20 @@ export default function Settings({ issues, onBack }: Props) {
     }
   }
 
+  /** Download the catalog; when a search/filter is active only the visible rows are exported */
+  async function handleExport(format: 'csv' | 'json') {
+    const filtered = search.trim() !== '' || filterCategory !== 'All' || filterSeverity !== 'All';
+    try {
+      setBusy(true);
+      const file = await exportCatalog(format, filtered ? { ids: visibleIssues.map((i) => i.id) } : {});
+      saveFile(file.blob, file.filename);
+    } catch (e: any) {
+      alert(`Export failed: ${e?.message || String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
   // derived list
   const visibleIssues = useMemo(() => {
     let rows = localIssues.map((i) => ({
@@ -140,13 +162,15 @@ export default function Settings({ issues, onBack }: Props) {
     if (q) rows = rows.filter((i) => i.name.toLowerCase().includes(q));
 
     if (filterCategory !== 'All') rows = rows.filter((i) => i.category === filterCategory);
-    if (filterSeverity !== 'All') rows = rows.filter((i) => sevBucket(i.severityScore) === filterSeverity);
+    if (filterSeverity !== 'All') {
+      rows = rows.filter((i) => severityLevel(severityLevels, i.severityScore)?.name === filterSeverity);
+    }
 
     if (sortBy === 'Title') rows = [...rows].sort((a, b) => a.name.localeCompare(b.name));
     else rows = [...rows].sort((a, b) => (b.severityScore ?? 0) - (a.severityScore ?? 0));
 
     return rows;
-  }, [localIssues, search, filterCategory, filterSeverity, sortBy]);
+  }, [localIssues, search, filterCategory, filterSeverity, severityLevels, sortBy]);
 
   function Kebab({ id }: { id: string }) {
     const open = openMenu === id;
@@ -176,6 +200,15 @@ export default function Settings({ issues, onBack }: Props) {
             >
               Edit
             </button>
+            <button
+              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+              onClick={() => {
+                setHistory(localIssues.find((i) => i.id === id) || null);
+                setOpenMenu(null);
+              }}
+            >
+              History…
+            </button>
             <button
               className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
               onClick={() => {
@@ -191,17 +224,38 @@ export default function Settings({ issues, onBack }: Props) {
     );
   }
 
+  if (showUsage) return <UsageDashboard onBack={() => setShowUsage(false)} />;
+  if (showAudit) return <AuditLog issues={localIssues} onBack={() => setShowAudit(false)} />;
+
   return (
     <div className="h-screen w-screen flex flex-col bg-white">
       {/* Header */}
       <header className="flex items-center justify-between px-6 py-4 bg-blue-800 text-white shadow-md">
         <div className="font-semibold text-lg">Settings</div>
-        <button
-          onClick={onBack}
-          className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
-        >
-          ← Back to Security Issues
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowUsage(true)}
+            className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+            title="Copilot token usage and estimated cost"
+          >
+            Usage
+          </button>
+          {isAdmin ? (
+            <button
+              onClick={() => setShowAudit(true)}
+              className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+              title="Who changed the catalog, workflow, prompts or severity levels, and Copilot requests"
+            >
+              Audit log
+            </button>
+          ) : null}
+          <button
+            onClick={onBack}
+            className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+          >
+            ← Back to Security Issues
+          </button>
+        </div>
       </header>
 
       {/* Search + Create button bar */}
@@ -213,11 +267,68 @@ export default function Settings({ issues, onBack }: Props) {
           onChange={(e) => setSearch(e.target.value)}
         />
         <button
-          className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
-          onClick={() => setCreating(true)}
+          className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+          onClick={() => handleExport('csv')}
+          title="Download the visible findings as CSV"
         >
-          + Create New Finding
+          Export CSV
         </button>
+        <button
+          className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+          onClick={() => handleExport('json')}
+          title="Download the visible findings as catalog JSON"
+        >
+          Export JSON
+        </button>
+        {canEdit ? (
+          <>
+            <button
+              className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+              onClick={() => setManagingSections(true)}
+            >
+              Sections…
+            </button>
+            <button
+              className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+              onClick={() => setImporting(true)}
+            >
+              Import…
+            </button>
+            <button
+              className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+              onClick={() => setShowTrash(true)}
+              title="Deleted findings: restore or delete for good"
+            >
+              Trash…
+            </button>
+            {isAdmin ? (
+              <button
+                className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+                onClick={() => setEditingPrompts(true)}
+                title="Copilot system prompt, issue context and quick-action buttons"
+              >
+                Prompts…
+              </button>
+            ) : null}
+            {isAdmin ? (
+              <button
+                className="px-3 py-2 rounded border text-sm hover:bg-gray-50"
+                onClick={() => setEditingSeverity(true)}
+                title="Severity names, score thresholds, colors and icons"
+              >
+                Severity levels…
+              </button>
+            ) : null}
+            <button
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+              onClick={() => setCreating(true)}
+            >
+              + Create New Finding
+            </button>
+          </>
+        ) : (
+          <span className="text-xs text-gray-500">Read-only: editing requires the editor role</span>
+        )}
       </div>
 
       {/* Content */}
@@ -244,6 +355,10 @@ export default function Settings({ issues, onBack }: Props) {
                   </div>
                 </th>
 
+                <th className="px-4 py-2 text-left align-top">
+                  <div className="text-xs font-medium text-gray-600 uppercase tracking-wider">Section</div>
+                </th>
+
                 {/* CATEGORY header with inline FILTER */}
                 <th className="px-4 py-2 text-left align-top">
                   <div className="flex items-center gap-2">
@@ -278,9 +393,9 @@ export default function Settings({ issues, onBack }: Props) {
                       title="Filter severity"
                     >
                       <option value="All">All</option>
-                      <option value="Critical">Critical</option>
-                      <option value="Important">Important</option>
-                      <option value="Moderate">Moderate</option>
+                      {severityLevels.map((l) => (
+                        <option key={l.name} value={l.name}>{l.name}</option>
+                      ))}
                     </select>
                   </div>
                 </th>
@@ -293,16 +408,25 @@ export default function Settings({ issues, onBack }: Props) {
               {visibleIssues.map((i) => (
                 <tr key={i.id} className="hover:bg-gray-50">
                   <td className="px-4 py-3 text-sm text-gray-800">{i.name}</td>
+                  <td className="px-4 py-3 text-xs text-gray-600">
+                    {i.section}
+                    {i.subSection ? <span className="text-gray-400"> › {i.subSection}</span> : null}
+                  </td>
                   <td className="px-4 py-3 text-sm text-gray-700">{normalizeCategoryLabel(i.category as string)}</td>
-                  <td className="px-4 py-3 text-sm text-gray-700">{sevLabel(i.severityScore)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    <span className="inline-flex items-center gap-1.5">
+                      <SeverityIcon level={severityLevel(severityLevels, i.severityScore)} />
+                      {severityLabel(severityLevels, i.severityScore)}
+                    </span>
+                  </td>
                   <td className="px-2 py-3 text-right">
-                    <Kebab id={i.id} />
+                    {canEdit ? <Kebab id={i.id} /> : null}
                   </td>
                 </tr>
               ))}
               {visibleIssues.length === 0 && (
                 <tr>
-                  <td colSpan={4} className="px-4 py-6 text-center text-sm text-gray-500">
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
                     No issues match the current criteria.
                   </td>
                 </tr>
@@ -317,12 +441,15 @@ export default function Settings({ issues, onBack }: Props) {
       {/* Edit modal */}
       {editing && (
         <EditDialog
+          sections={sections}
+          severityLevels={severityLevels}
           issue={{
             ...editing,
             category: normalizeCategoryLabel(editing.category as string),
           }}
           onClose={() => setEditing(null)}
           onSave={async (updated) => {
+            // Failures reach the dialog, which shows them next to the fields
             try {
               setBusy(true);
               await updateIssue(editing.id, {
@@ -331,12 +458,11 @@ export default function Settings({ issues, onBack }: Props) {
                 severity_score: updated.severityScore,
                 sem_long_description: updated.description,
                 sem_recommendations: updated.recommendations,
-                sem_resolution_instruction: updated.reference ? [updated.reference] : [],
+                ...referencePayload(updated.references),
+                location: updated.location,
               });
               await refreshFromServer();
               setEditing(null);
-            } catch (e: any) {
-              alert(`Update failed: ${e?.message || String(e)}`);
             } finally {
               setBusy(false);
             }
@@ -344,32 +470,57 @@ export default function Settings({ issues, onBack }: Props) {
         />
       )}
 
+      {/* Sections modal */}
+      {importing && <ImportDialog onClose={() => setImporting(false)} onImported={refreshFromServer} />}
+      {editingPrompts && <PromptTemplatesDialog issues={localIssues} onClose={() => setEditingPrompts(false)} />}
+      {editingSeverity && (
+        <SeverityLevelsDialog
+          levels={severityLevels}
+          issues={localIssues}
+          onClose={() => setEditingSeverity(false)}
+          onSaved={onSeverityLevelsChange}
+        />
+      )}
+      {showTrash && <TrashDialog onClose={() => setShowTrash(false)} onChanged={refreshFromServer} />}
+      {history && (
+        <RevisionHistoryDialog
+          issueId={history.id}
+          issueName={history.name}
+          canEdit={canEdit}
+          onClose={() => setHistory(null)}
+          onRestored={refreshFromServer}
+        />
+      )}
+
+      {managingSections && (
+        <SectionsDialog
+          sections={sections}
+          onClose={() => setManagingSections(false)}
+          onChanged={refreshFromServer}
+        />
+      )}
+
       {/* Create modal */}
       {creating && (
         <CreateDialog
+          sections={sections}
+          severityLevels={severityLevels}
           existingNames={new Set(localIssues.map((i) => i.name))}
           onClose={() => setCreating(false)}
           onSave={async (draft) => {
             try {
               setBusy(true);
-              // basic validation
-              if (!draft.name.trim()) throw new Error('Title is required.');
-              if (draft.severityScore == null || draft.severityScore < 0 || draft.severityScore > 1) {
-                throw new Error('Severity Score must be between 0 and 1.');
-              }
-              // POST new issue
               await createIssue({
                 sem_header: draft.name,
                 sem_category: draft.category,
                 severity_score: draft.severityScore,
                 sem_long_description: draft.description,
                 sem_recommendations: draft.recommendations,
-                sem_resolution_instruction: draft.reference ? [draft.reference] : [],
+                ...referencePayload(draft.references),
+                location: draft.location,
               });
               await refreshFromServer();
               setCreating(false);
-            } catch (e: any) {
-              alert(`Create failed: ${e?.message || String(e)}`);
             } finally {
               setBusy(false);
             }
@@ -380,10 +531,42 @@ export default function Settings({ issues, onBack }: Props) {
   );
 }
 
+/** Checks that need no round trip; everything else is validated by the server (422 with `fields`) */
+function draftErrors(name: string, severity: number, existingNames?: Set<string>): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!name.trim()) errors.sem_header = 'Title is required';
+  else if (existingNames?.has(name.trim())) errors.sem_header = 'Another issue already uses this title';
+  if (Number.isNaN(severity)) errors.severity_score = 'Severity must be a number between 0 and 1';
+  return errors;
+}
+
+/** Save state of an issue form: per-field errors (local or from the server) and any other failure */
+function useSaveErrors() {
+  const [fields, setFields] = useState<FieldErrors>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  /** Run `save` unless `local` has errors; a rejected save's field errors are kept for the form */
+  async function submit(local: FieldErrors, save: () => void | Promise<void>) {
+    setFields(local);
+    setMessage(null);
+    if (Object.keys(local).length) return;
+    try {
+      await save();
+    } catch (e: any) {
+      if (e instanceof ApiError && e.fields) setFields(e.fields);
+      else setMessage(e?.message || String(e));
+    }
+  }
+
+  return { fields, message, submit };
+}
+
 function EditDialog({
-  issue, onClose, onSave
+  issue, sections, severityLevels, onClose, onSave
 }: {
   issue: Issue;
+  sections: SectionOutline[];
+  severityLevels: SeverityLevel[];
   onClose: () => void;
   onSave: (i: Issue) => void | Promise<void>;
 }) {
@@ -392,9 +575,26 @@ function EditDialog({
     (issue.category as CategoryOption) || 'Configuration Changes'
   );
   const [severity, setSeverity] = useState(issue.severityScore ?? 0.5);
-  const [reference, setReference] = useState(issue.reference || '');
+  const [references, setReferences] = useState<IssueReference[]>(issue.references || []);
   const [description, setDescription] = useState(issue.description || '');
   const [recs, setRecs] = useState((issue.recommendations || []).join('\n'));
+  const [location, setLocation] = useState<IssueLocation | undefined>(issue.location);
+  const errors = useSaveErrors();
+
+  function trySave() {
+    errors.submit(draftErrors(name, severity), () =>
+      onSave({
+        ...issue,
+        name: name.trim(),
+        category,
+        severityScore: severity,
+        references: cleanReferences(references),
+        description,
+        recommendations: recs.split('\n').map((x) => x.trim()).filter(Boolean),
+        location,
+      })
+    );
+  }
 
   return (
     <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
@@ -407,28 +607,18 @@ function EditDialog({
         <FormFields
           name={name} setName={setName}
           category={category} setCategory={setCategory}
-          severity={severity} setSeverity={setSeverity}
-          reference={reference} setReference={setReference}
+          severity={severity} setSeverity={setSeverity} severityLevels={severityLevels}
+          references={references} setReferences={setReferences}
           description={description} setDescription={setDescription}
           recs={recs} setRecs={setRecs}
+          sections={sections} location={location} setLocation={setLocation}
+          errors={errors.fields}
         />
 
+        {errors.message ? <div className="px-4 pb-3 text-sm text-red-600">Error: {errors.message}</div> : null}
         <div className="px-4 py-3 border-t flex items-center justify-end gap-2">
           <button onClick={onClose} className="px-3 py-2 rounded border text-sm">Cancel</button>
-          <button
-            onClick={() =>
-              onSave({
-                ...issue,
-                name: name.trim(),
-                category,
-                severityScore: severity,
-                reference: reference.trim(),
-                description,
-                recommendations: recs.split('\n').map((x) => x.trim()).filter(Boolean),
-              })
-            }
-            className="px-3 py-2 rounded bg-blue-600 text-white text-sm"
-          >
+          <button onClick={trySave} className="px-3 py-2 rounded bg-blue-600 text-white text-sm">
             Save
           </button>
         </div>
@@ -438,8 +628,10 @@ function EditDialog({
 }
 
 function CreateDialog({
-  existingNames, onClose, onSave
+  sections, severityLevels, existingNames, onClose, onSave
 }: {
+  sections: SectionOutline[];
+  severityLevels: SeverityLevel[];
   existingNames: Set<string>;
   onClose: () => void;
   onSave: (i: Issue) => void | Promise<void>;
@@ -447,25 +639,29 @@ function CreateDialog({
   const [name, setName] = useState('');
   const [category, setCategory] = useState<CategoryOption | 'Other'>('Configuration Changes');
   const [severity, setSeverity] = useState<number>(0.5);
-  const [reference, setReference] = useState('');
+  const [references, setReferences] = useState<IssueReference[]>([]);
   const [description, setDescription] = useState('');
   const [recs, setRecs] = useState('');
+  const [location, setLocation] = useState<IssueLocation | undefined>(
+    sections[0]?.sub_sections[0] ? { section: 0, subSection: 0 } : undefined
+  );
+
+  const errors = useSaveErrors();
 
   function trySave() {
     const title = name.trim();
-    if (!title) return alert('Title is required.');
-    if (existingNames.has(title)) {
-      return alert('An issue with this Title already exists. Please choose a different Title.');
-    }
-    onSave({
-      id: title,
-      name: title,
-      category,
-      severityScore: severity,
-      reference: reference.trim(),
-      description,
-      recommendations: recs.split('\n').map((x) => x.trim()).filter(Boolean),
-    });
+    errors.submit(draftErrors(name, severity, existingNames), () =>
+      onSave({
+        id: title,
+        name: title,
+        category,
+        severityScore: severity,
+        references: cleanReferences(references),
+        description,
+        recommendations: recs.split('\n').map((x) => x.trim()).filter(Boolean),
+        location,
+      })
+    );
   }
 
   return (
@@ -479,12 +675,15 @@ function CreateDialog({
         <FormFields
           name={name} setName={setName}
           category={category} setCategory={setCategory}
-          severity={severity} setSeverity={setSeverity}
-          reference={reference} setReference={setReference}
+          severity={severity} setSeverity={setSeverity} severityLevels={severityLevels}
+          references={references} setReferences={setReferences}
           description={description} setDescription={setDescription}
           recs={recs} setRecs={setRecs}
+          sections={sections} location={location} setLocation={setLocation}
+          errors={errors.fields}
         />
 
+        {errors.message ? <div className="px-4 pb-3 text-sm text-red-600">Error: {errors.message}</div> : null}
         <div className="px-4 py-3 border-t flex items-center justify-end gap-2">
           <button onClick={onClose} className="px-3 py-2 rounded border text-sm">Cancel</button>
           <button onClick={trySave} className="px-3 py-2 rounded bg-blue-600 text-white text-sm">
@@ -499,37 +698,45 @@ function CreateDialog({
 function FormFields(props: {
   name: string; setName: (v: string) => void;
   category: CategoryOption | 'Other'; setCategory: (v: CategoryOption | 'Other') => void;
-  severity: number; setSeverity: (v: number) => void;
-  reference: string; setReference: (v: string) => void;
+  severity: number; setSeverity: (v: number) => void; severityLevels: SeverityLevel[];
+  references: IssueReference[]; setReferences: (v: IssueReference[]) => void;
   description: string; setDescription: (v: string) => void;
   recs: string; setRecs: (v: string) => void;
+  sections: SectionOutline[];
+  location?: IssueLocation; setLocation: (v: IssueLocation | undefined) => void;
+  errors?: FieldErrors; // shown under the matching field
 }) {
   const {
+    errors = {},
+    sections, location, setLocation,
     name, setName,
     category, setCategory,
-    severity, setSeverity,
-    reference, setReference,
+    severity, setSeverity, severityLevels,
+    references, setReferences,
     description, setDescription,
     recs, setRecs,
   } = props;
+  const input = (field: keyof FieldErrors) =>
+    `mt-1 w-full border rounded px-3 py-2${errors[field] ? ' border-red-500' : ''}`;
 
   return (
     <div className="p-4 space-y-3">
       <label className="block text-sm">
         <span className="text-gray-700">Title</span>
         <input
-          className="mt-1 w-full border rounded px-3 py-2"
+          className={input('sem_header')}
           value={name}
           onChange={(e) => setName(e.target.value)}
           placeholder="e.g., Disable basic authentication for IMAP/POP/SMTP"
         />
+        <FieldError message={errors.sem_header} />
       </label>
 
       <div className="grid grid-cols-2 gap-3">
         <label className="block text-sm">
           <span className="text-gray-700">Finding Category</span>
           <select
-            className="mt-1 w-full border rounded px-3 py-2"
+            className={input('sem_category')}
             value={category}
             onChange={(e) => setCategory(e.target.value as any)}
           >
@@ -538,48 +745,245 @@ function FormFields(props: {
             ))}
             <option value="Other">Other</option>
           </select>
+          <FieldError message={errors.sem_category} />
         </label>
 
         <label className="block text-sm">
           <span className="text-gray-700">Severity Score (0–1)</span>
           <input
             type="number" step="0.01" min="0" max="1"
-            className="mt-1 w-full border rounded px-3 py-2"
+            className={input('severity_score')}
             value={severity}
             onChange={(e) => setSeverity(parseFloat(e.target.value))}
           />
+          {errors.severity_score ? (
+            <FieldError message={errors.severity_score} />
+          ) : severityLevel(severityLevels, severity) ? (
+            <div className="mt-1 text-xs text-gray-500">{severityLabel(severityLevels, severity)}</div>
+          ) : null}
         </label>
       </div>
 
       <label className="block text-sm">
-        <span className="text-gray-700">Reference (single URL)</span>
-        <input
-          className="mt-1 w-full border rounded px-3 py-2"
-          value={reference}
-          onChange={(e) => setReference(e.target.value)}
-          placeholder="https://example.com/how-to-fix"
-        />
+        <span className="text-gray-700">Location (section › sub-section)</span>
+        <select
+          className={input('location')}
+          value={location ? `${location.section}:${location.subSection}` : ''}
+          onChange={(e) => {
+            const [section, subSection] = e.target.value.split(':').map(Number);
+            setLocation(e.target.value ? { section, subSection } : undefined);
+          }}
+        >
+          {!location ? <option value="">Default (first sub-section)</option> : null}
+          {sections.map((sec) => (
+            <optgroup key={sec.index} label={sec.label}>
+              {sec.sub_sections.map((sub) => (
+                <option key={sub.index} value={`${sec.index}:${sub.index}`}>
+                  {sec.label} › {sub.label}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <FieldError message={errors.location} />
       </label>
 
+      <div className="block text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-700">References</span>
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => setReferences([...references, { url: '' }])}
+          >
+            + Add reference
+          </button>
+        </div>
+        {references.length === 0 ? (
+          <div className="mt-1 text-xs text-gray-500">No references yet.</div>
+        ) : null}
+        {references.map((ref, i) => {
+          const change = (patch: Partial<IssueReference>) =>
+            setReferences(references.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+          return (
+            <div key={i} className="mt-1 flex items-center gap-2">
+              <input
+                className="w-40 border rounded px-3 py-2"
+                value={ref.label || ''}
+                onChange={(e) => change({ label: e.target.value })}
+                placeholder="Label (optional)"
+              />
+              <input
+                className="flex-1 border rounded px-3 py-2"
+                value={ref.url}
+                onChange={(e) => change({ url: e.target.value })}
+                placeholder="https://example.com/how-to-fix"
+              />
+              <button
+                type="button"
+                className="px-2 text-gray-400 hover:text-red-600"
+                title="Remove reference"
+                onClick={() => setReferences(references.filter((_, j) => j !== i))}
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+        <FieldError message={errors.sem_resolution_instruction || errors.sem_reference_labels} />
+      </div>
+
       <label className="block text-sm">
         <span className="text-gray-700">Description</span>
         <textarea
-          className="mt-1 w-full border rounded px-3 py-2 h-24"
+          className={`${input('sem_long_description')} h-24`}
           value={description}
           onChange={(e) => setDescription(e.target.value)}
           placeholder="Briefly describe the finding and its impact…"
         />
+        <FieldError message={errors.sem_long_description} />
       </label>
 
       <label className="block text-sm">
         <span className="text-gray-700">Recommendations (one per line)</span>
         <textarea
-          className="mt-1 w-full border rounded px-3 py-2 h-24"
+          className={`${input('sem_recommendations')} h-24`}
           value={recs}
           onChange={(e) => setRecs(e.target.value)}
           placeholder={`Use MFA for admin accounts\nDisable legacy protocols\nEnable DKIM/DMARC`}
         />
+        <FieldError message={errors.sem_recommendations} />
       </label>
     </div>
   );
 }
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <div className="mt-1 text-xs text-red-600">{message}</div> : null;
+}
+
+function SectionsDialog({
+  sections, onClose, onChanged
+}: {
+  sections: SectionOutline[];
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  async function act(label: string, fn: () => Promise<unknown>) {
+    try {
+      setBusy(true);
+      await fn();
+      await onChanged();
+    } catch (e: any) {
+      alert(`${label} failed: ${e?.message || String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function ask(message: string, current = ''): string | null {
+    const v = window.prompt(message, current);
+    return v && v.trim() ? v.trim() : null;
+  }
+
+  const linkBtn = 'text-xs hover:underline disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-xl rounded-lg bg-white shadow-lg max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <div className="font-semibold">Sections</div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-auto">
+          {sections.map((sec) => (
+            <div key={sec.index} className="rounded border border-gray-200">
+              <div className="px-3 py-2 flex items-center gap-3 bg-gray-50">
+                <div className="text-sm font-semibold text-gray-800 flex-1 truncate">{sec.label}</div>
+                <button
+                  className={`${linkBtn} text-blue-600`}
+                  disabled={busy}
+                  onClick={() => {
+                    const t = ask('Sub-section title');
+                    if (t) act('Add sub-section', () => createSubSection(sec.index, t));
+                  }}
+                >
+                  + Sub-section
+                </button>
+                <button
+                  className={`${linkBtn} text-gray-600`}
+                  disabled={busy}
+                  onClick={() => {
+                    const t = ask('Rename section', sec.title);
+                    if (t) act('Rename', () => renameSection(sec.index, t));
+                  }}
+                >
+                  Rename
+                </button>
+                <button
+                  className={`${linkBtn} text-red-600`}
+                  disabled={busy}
+                  onClick={() => {
+                    if (window.confirm(`Delete section "${sec.label}"?`)) act('Delete', () => deleteSection(sec.index));
+                  }}
+                >
+                  Delete
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {sec.sub_sections.map((sub) => (
+                  <li key={sub.index} className="pl-6 pr-3 py-1.5 flex items-center gap-3">
+                    <div className="text-sm text-gray-700 flex-1 truncate">
+                      {sub.label} <span className="text-xs text-gray-400">({sub.count})</span>
+                    </div>
+                    <button
+                      className={`${linkBtn} text-gray-600`}
+                      disabled={busy}
+                      onClick={() => {
+                        const t = ask('Rename sub-section', sub.title);
+                        if (t) act('Rename', () => renameSubSection(sec.index, sub.index, t));
+                      }}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      className={`${linkBtn} text-red-600`}
+                      disabled={busy || sub.count > 0}
+                      title={sub.count > 0 ? 'Move its findings elsewhere first' : undefined}
+                      onClick={() => {
+                        if (window.confirm(`Delete sub-section "${sub.label}"?`)) {
+                          act('Delete', () => deleteSubSection(sec.index, sub.index));
+                        }
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t flex items-center justify-between gap-2">
+          <button
+            className="px-3 py-2 rounded border text-sm"
+            disabled={busy}
+            onClick={() => {
+              const t = ask('Section title');
+              if (t) act('Add section', () => createSection(t));
+            }}
+          >
+            + Add Section
+          </button>
+          <button onClick={onClose} className="px-3 py-2 rounded bg-blue-600 text-white text-sm">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
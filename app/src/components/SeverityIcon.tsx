@@ -0,0 +1,21 @@
+import React from 'react';
+import type { SeverityLevel } from '../types';
+import { severityIconUrl } from '../lib/severity';
+
+type Props = {
+  level: SeverityLevel | null;
+  className?: string; // size, e.g. "w-4 h-4"
+};
+
+/** The level's icon, or a dot in its color for levels without one */
+export default function SeverityIcon({ level, className = 'w-4 h-4' }: Props) {
+  if (!level) return null;
+  const url = severityIconUrl(level);
+  const title = `Severity: ${level.name}`;
+  if (url) return <img src={url} alt={title} title={title} className={`${className} flex-shrink-0`} />;
+  return (
+    <span className={`${className} flex-shrink-0 inline-flex items-center justify-center`} title={title}>
+      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: level.color }} />
+    </span>
+  );
+}
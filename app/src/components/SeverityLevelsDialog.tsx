@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { resetSeverityLevels, updateSeverityLevels } from '../lib/api';
+import { SEVERITY_ICONS, severityLevel, severityRange } from '../lib/severity';
+import type { Issue, SeverityIcon as SeverityIconName, SeverityLevel } from '../types';
+import SeverityIcon from './SeverityIcon';
+
+type Props = {
+  levels: SeverityLevel[];
+  issues: Issue[]; // to show how many findings each level would hold
+  onClose: () => void;
+  onSaved: (levels: SeverityLevel[]) => void;
+};
+
+/** Admin editor for the severity levels: name, lowest score of the band, color and icon */
+export default function SeverityLevelsDialog({ levels, issues, onClose, onSaved }: Props) {
+  const [draft, setDraft] = useState<SeverityLevel[]>(levels);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bands as the server will store them (highest first), with the number of findings in each
+  const preview = useMemo(() => {
+    const sorted = [...draft].filter((l) => !Number.isNaN(l.min)).sort((a, b) => b.min - a.min);
+    const counts = new Map<SeverityLevel, number>(sorted.map((l) => [l, 0]));
+    for (const i of issues) {
+      const level = severityLevel(sorted, i.severityScore);
+      if (level) counts.set(level, (counts.get(level) ?? 0) + 1);
+    }
+    return { sorted, counts };
+  }, [draft, issues]);
+
+  function change(index: number, patch: Partial<SeverityLevel>) {
+    setDraft(draft.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+  }
+
+  async function act(fn: () => Promise<SeverityLevel[]>) {
+    try {
+      setBusy(true);
+      setError(null);
+      const saved = await fn();
+      onSaved(saved);
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const save = () => act(() => updateSeverityLevels(draft.map((l) => ({ ...l, name: l.name.trim() }))));
+
+  const reset = () => {
+    if (!window.confirm('Replace these levels with the built-in Critical / Important / Moderate?')) return;
+    act(resetSeverityLevels);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-3xl rounded-lg bg-white shadow-lg max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <div className="font-semibold">Severity levels</div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          <div className="text-xs text-gray-500">
+            A finding belongs to the level with the highest minimum score at or below its severity score. The lowest
+            level must start at 0. Filters, counts, icons and the Copilot&apos;s {'{{severity}}'} all use these levels.
+          </div>
+
+          <div className="grid grid-cols-[1fr_7rem_4rem_8rem_2rem] gap-2 items-center text-xs font-medium text-gray-600">
+            <div>Name</div>
+            <div>Minimum score</div>
+            <div>Color</div>
+            <div>Icon</div>
+            <div />
+          </div>
+          {draft.map((level, i) => (
+            <div key={i} className="grid grid-cols-[1fr_7rem_4rem_8rem_2rem] gap-2 items-center">
+              <input
+                className="border rounded px-3 py-2 text-sm"
+                value={level.name}
+                onChange={(e) => change(i, { name: e.target.value })}
+                placeholder="e.g. High"
+              />
+              <input
+                type="number" step="0.01" min="0" max="1"
+                className="border rounded px-3 py-2 text-sm"
+                value={Number.isNaN(level.min) ? '' : level.min}
+                onChange={(e) => change(i, { min: parseFloat(e.target.value) })}
+              />
+              <input
+                type="color"
+                className="h-9 w-full border rounded"
+                value={level.color}
+                onChange={(e) => change(i, { color: e.target.value })}
+              />
+              <div className="flex items-center gap-2">
+                <SeverityIcon level={level} />
+                <select
+                  className="flex-1 border rounded px-2 py-2 text-sm"
+                  value={level.icon}
+                  onChange={(e) => change(i, { icon: e.target.value as SeverityIconName })}
+                >
+                  {SEVERITY_ICONS.map((icon) => (
+                    <option key={icon} value={icon}>
+                      {icon === 'none' ? 'Color dot' : icon}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                title="Remove level"
+                disabled={draft.length <= 1}
+                onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => setDraft([...draft, { name: '', min: 0, color: '#6b7280', icon: 'none' }])}
+          >
+            + Add level
+          </button>
+
+          <div className="pt-2 border-t">
+            <div className="text-xs font-medium text-gray-600 mb-1">Preview</div>
+            <div className="flex flex-wrap gap-2">
+              {preview.sorted.map((l, i) => (
+                <span key={i} className="inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs">
+                  <SeverityIcon level={l} className="w-3.5 h-3.5" />
+                  {l.name || 'Untitled'} · {severityRange(preview.sorted, i)} · {preview.counts.get(l) ?? 0} findings
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error ? <div className="px-4 py-2 text-sm text-red-600">Error: {error}</div> : null}
+        <div className="px-4 py-3 border-t flex items-center justify-between">
+          <button className="px-3 py-2 rounded border text-sm disabled:opacity-50" disabled={busy} onClick={reset}>
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-3 py-2 rounded border text-sm">
+              Cancel
+            </button>
+            <button
+              className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+              disabled={busy}
+              onClick={save}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { listTrash, purgeFromTrash, restoreFromTrash } from '../lib/api';
+import type { TrashItem } from '../lib/api';
+
+type Props = {
+  onClose: () => void;
+  onChanged: () => void; // after a restore (reload the catalog)
+};
+
+/** Deleted findings: put them back where they were, or delete them for good */
+export default function TrashDialog({ onClose, onChanged }: Props) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      setItems(await listTrash());
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setLoaded(true);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function act(fn: () => Promise<unknown>, changesCatalog: boolean) {
+    try {
+      setBusy(true);
+      setError(null);
+      await fn();
+      await load();
+      if (changesCatalog) onChanged();
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const restore = (item: TrashItem) => act(() => restoreFromTrash(item.id), true);
+
+  const purge = (item: TrashItem) => {
+    const name = item.sem_template.sem_header || item.id;
+    const question = `Delete "${name}" permanently, with its history and copilot conversations? This cannot be undone.`;
+    if (!window.confirm(question)) return;
+    act(() => purgeFromTrash(item.id), false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-3xl rounded-lg bg-white shadow-lg max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <div className="font-semibold">Trash</div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-auto divide-y divide-gray-100">
+          {items.map((item) => (
+            <div key={item.id} className="px-4 py-3 flex items-center gap-3">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-gray-800 truncate">{item.sem_template.sem_header || item.id}</div>
+                <div className="text-xs text-gray-500 truncate">
+                  {[item.location.sectionTitle, item.location.subSectionTitle].filter(Boolean).join(' › ') ||
+                    'Untitled section'}{' '}
+                  · deleted {new Date(item.deletedAt).toLocaleString()}
+                  {item.deletedBy ? ` by ${item.deletedBy}` : ''}
+                </div>
+              </div>
+              <button
+                className="px-3 py-1.5 rounded border text-sm hover:bg-gray-50 disabled:opacity-50"
+                disabled={busy}
+                onClick={() => restore(item)}
+              >
+                Restore
+              </button>
+              <button
+                className="px-3 py-1.5 rounded border text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                disabled={busy}
+                onClick={() => purge(item)}
+              >
+                Delete forever
+              </button>
+            </div>
+          ))}
+          {loaded && !items.length ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">Trash is empty.</div>
+          ) : null}
+        </div>
+
+        {error ? <div className="px-4 py-2 text-sm text-red-600">Error: {error}</div> : null}
+        <div className="px-4 py-3 border-t flex justify-end">
+          <button onClick={onClose} className="px-3 py-2 rounded border text-sm">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
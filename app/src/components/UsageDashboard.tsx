@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { getUsage } from '../lib/api';
+import type { UsageSummary, UsageTotals } from '../lib/api';
+
+type Props = {
+  onBack: () => void;
+};
+
+const RANGES = [7, 30, 90] as const;
+
+const tokens = (t: UsageTotals) => t.promptTokens + t.completionTokens;
+
+function formatTokens(n: number): string {
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (n >= 1e4) return `${Math.round(n / 1e3)}k`;
+  return n.toLocaleString();
+}
+
+function formatCost(usd: number | null | undefined): string {
+  if (usd == null) return '—';
+  if (usd === 0) return '$0';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function Card({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+      <div className="mt-1 text-2xl font-semibold text-gray-900">{value}</div>
+      {hint ? <div className="mt-1 text-xs text-gray-500">{hint}</div> : null}
+    </div>
+  );
+}
+
+/** Today's use against one daily limit (0 = no limit configured) */
+function LimitBar(props: { label: string; used: number; limit: number; format: (n: number) => string }) {
+  const { label, used, limit, format } = props;
+  if (!limit) return null;
+  const pct = Math.min(100, (used / limit) * 100);
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span>
+          {format(used)} / {format(limit)}
+        </span>
+      </div>
+      <div className="mt-1 h-2 rounded bg-gray-100">
+        <div
+          className={`h-2 rounded ${pct >= 100 ? 'bg-red-500' : pct >= 80 ? 'bg-amber-500' : 'bg-blue-600'}`}
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function Table({ head, rows }: { head: string[]; rows: React.ReactNode[][] }) {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {head.map((h, i) => (
+              <th key={h} className={`px-3 py-2 font-medium text-gray-600 ${i ? 'text-right' : 'text-left'}`}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.length ? (
+            rows.map((cells, r) => (
+              <tr key={r}>
+                {cells.map((c, i) => (
+                  <td key={i} className={`px-3 py-2 ${i ? 'text-right tabular-nums' : 'text-left'}`}>
+                    {c}
+                  </td>
+                ))}
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <td colSpan={head.length} className="px-3 py-4 text-center text-gray-500">
+                No requests in this period.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Copilot token usage and estimated cost: totals, daily trend, and breakdowns by user, model and issue */
+export default function UsageDashboard({ onBack }: Props) {
+  const [days, setDays] = useState<number>(30);
+  const [data, setData] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await getUsage(days));
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, [days]);
+
+  const peak = data ? Math.max(1, ...data.byDay.map(tokens)) : 1;
+  const limits = data?.limits;
+  const limitNotes = limits
+    ? [
+        limits.dailyTokensPerUser && `${formatTokens(limits.dailyTokensPerUser)} tokens per user per day`,
+        limits.dailyCostPerUser && `${formatCost(limits.dailyCostPerUser)} per user per day`,
+        limits.dailyCostTotal && `${formatCost(limits.dailyCostTotal)} per day for everyone`,
+        limits.ratePerMinute && `${limits.ratePerMinute} requests per user per minute`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-white">
+      <header className="flex items-center justify-between px-6 py-4 bg-blue-800 text-white shadow-md">
+        <div className="font-semibold text-lg">Copilot usage</div>
+        <button
+          onClick={onBack}
+          className="rounded-full border border-white/30 bg-blue-700/30 text-white text-xs font-medium px-3 py-1 hover:bg-blue-600/40"
+        >
+          ← Back to Settings
+        </button>
+      </header>
+
+      <div className="px-6 pt-4 flex items-center gap-3">
+        <div className="inline-flex rounded border overflow-hidden text-sm">
+          {RANGES.map((d) => (
+            <button
+              key={d}
+              className={`px-3 py-1.5 ${d === days ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+              onClick={() => setDays(d)}
+            >
+              {d} days
+            </button>
+          ))}
+        </div>
+        <button className="px-3 py-1.5 rounded border text-sm hover:bg-gray-50" onClick={load} disabled={loading}>
+          {loading ? 'Loading…' : 'Refresh'}
+        </button>
+        {data ? (
+          <span className="text-xs text-gray-500">
+            {data.scope === 'all' ? 'All users' : 'Your requests only'} · since {data.since} (UTC)
+          </span>
+        ) : null}
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {error ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+        {data ? (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card label="Requests" value={data.totals.requests.toLocaleString()} />
+              <Card
+                label="Tokens"
+                value={formatTokens(tokens(data.totals))}
+                hint={`${formatTokens(data.totals.promptTokens)} prompt · ${formatTokens(
+                  data.totals.completionTokens
+                )} completion`}
+              />
+              <Card
+                label="Estimated cost"
+                value={formatCost(data.totals.cost)}
+                hint={data.totals.unpriced ? `Excludes ${data.totals.unpriced} requests with unknown pricing` : undefined}
+              />
+              <Card
+                label="Today"
+                value={formatTokens(tokens(data.today))}
+                hint={`${data.today.requests} requests · ${formatCost(data.today.cost)}`}
+              />
+            </div>
+
+            {limits && limitNotes.length ? (
+              <section className="rounded-lg border border-gray-200 p-4 space-y-3">
+                <h2 className="text-sm font-semibold text-gray-800">Limits</h2>
+                {data.scope === 'user' ? (
+                  <>
+                    <LimitBar
+                      label="Daily tokens"
+                      used={tokens(data.today)}
+                      limit={limits.dailyTokensPerUser}
+                      format={formatTokens}
+                    />
+                    <LimitBar
+                      label="Daily cost"
+                      used={data.today.cost}
+                      limit={limits.dailyCostPerUser}
+                      format={formatCost}
+                    />
+                  </>
+                ) : (
+                  <LimitBar
+                    label="Team daily cost"
+                    used={data.today.cost}
+                    limit={limits.dailyCostTotal}
+                    format={formatCost}
+                  />
+                )}
+                <div className="text-xs text-gray-500">{limitNotes.join(' · ')}</div>
+              </section>
+            ) : null}
+
+            <section>
+              <h2 className="mb-2 text-sm font-semibold text-gray-800">Tokens per day</h2>
+              <div className="flex h-32 items-end gap-px rounded-lg border border-gray-200 p-2">
+                {data.byDay.map((d) => (
+                  <div
+                    key={d.day}
+                    className="flex-1 rounded-t bg-blue-500 hover:bg-blue-700"
+                    style={{ height: `${(tokens(d) / peak) * 100}%`, minHeight: tokens(d) ? 2 : 0 }}
+                    title={`${d.day}: ${tokens(d).toLocaleString()} tokens, ${d.requests} requests, ${formatCost(d.cost)}`}
+                  />
+                ))}
+              </div>
+            </section>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              {data.scope === 'all' ? (
+                <section>
+                  <h2 className="mb-2 text-sm font-semibold text-gray-800">By user</h2>
+                  <Table
+                    head={['User', 'Requests', 'Tokens', 'Cost']}
+                    rows={data.byUser.map((u) => [
+                      u.username || u.userId,
+                      u.requests,
+                      formatTokens(tokens(u)),
+                      formatCost(u.cost),
+                    ])}
+                  />
+                </section>
+              ) : null}
+              <section>
+                <h2 className="mb-2 text-sm font-semibold text-gray-800">By model</h2>
+                <Table
+                  head={['Model', 'Requests', 'Tokens', 'Cost']}
+                  rows={data.byModel.map((m) => [
+                    `${m.provider} / ${m.model}`,
+                    m.requests,
+                    formatTokens(tokens(m)),
+                    formatCost(m.cost),
+                  ])}
+                />
+              </section>
+              <section className="lg:col-span-2">
+                <h2 className="mb-2 text-sm font-semibold text-gray-800">Top issues</h2>
+                <Table
+                  head={['Issue', 'Requests', 'Tokens', 'Cost']}
+                  rows={data.byIssue.map((i) => [
+                    i.header || i.issueId,
+                    i.requests,
+                    formatTokens(tokens(i)),
+                    formatCost(i.cost),
+                  ])}
+                />
+              </section>
+            </div>
+
+            <section>
+              <h2 className="mb-2 text-sm font-semibold text-gray-800">Recent requests</h2>
+              <Table
+                head={['Time', 'User', 'Model', 'Prompt', 'Completion', 'Cost']}
+                rows={data.recent.map((r) => [
+                  <span title={r.issueId ? `Issue ${r.issueId}` : undefined}>
+                    {new Date(r.at).toLocaleString()}
+                    {r.status !== 'ok' ? <span className="ml-2 text-xs text-amber-700">{r.status}</span> : null}
+                  </span>,
+                  r.username || r.userId,
+                  r.model,
+                  r.promptTokens.toLocaleString(),
+                  <span title={r.estimated ? 'Estimated from text length (not reported by the provider)' : undefined}>
+                    {r.estimated ? '≈' : ''}
+                    {r.completionTokens.toLocaleString()}
+                  </span>,
+                  formatCost(r.cost),
+                ])}
+              />
+            </section>
+          </>
+        ) : loading ? (
+          <div className="text-sm text-gray-500">Loading usage…</div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import type { IssueWorkflow, IssueWorkflowDetail, WorkflowEvent, WorkflowStatus } from '../types';
+import { getWorkflow, updateWorkflow } from '../lib/api';
+import { DEFAULT_WORKFLOW, STATUS_LABELS, STATUS_STYLES, WORKFLOW_STATUSES, isOverdue } from '../lib/workflow';
+
+type Props = {
+  issueId: string;
+  canEdit: boolean;
+  onChange: (issueId: string, state: IssueWorkflow) => void; // after a successful save
+};
+
+type Draft = Pick<IssueWorkflow, 'status' | 'owner' | 'dueDate' | 'notes'>;
+
+const FIELD_LABELS: Record<string, string> = { status: 'status', owner: 'owner', dueDate: 'due date', notes: 'notes' };
+
+function draftOf(w: IssueWorkflow): Draft {
+  return { status: w.status, owner: w.owner || '', dueDate: w.dueDate || null, notes: w.notes || '' };
+}
+
+/** One history line, e.g. "status Open → In Progress, owner → alice" */
+function describe(ev: WorkflowEvent): string {
+  return Object.entries(ev.changes)
+    .map(([field, pair]) => {
+      const [from, to] = pair as [unknown, unknown];
+      if (field === 'notes') return 'edited notes';
+      const show = (v: unknown) => (field === 'status' ? STATUS_LABELS[v as WorkflowStatus] : String(v || '—'));
+      return from ? `${FIELD_LABELS[field]} ${show(from)} → ${show(to)}` : `${FIELD_LABELS[field]} → ${show(to)}`;
+    })
+    .join(', ');
+}
+
+/** Remediation status, owner, due date and notes of a finding, with its change history */
+export default function WorkflowPanel({ issueId, canEdit, onChange }: Props) {
+  const [state, setState] = useState<IssueWorkflowDetail | null>(null);
+  const [draft, setDraft] = useState<Draft>(draftOf(DEFAULT_WORKFLOW));
+  const [expanded, setExpanded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setState(null);
+    setError(null);
+    setDraft(draftOf(DEFAULT_WORKFLOW));
+    getWorkflow(issueId)
+      .then((w) => {
+        if (cancelled) return;
+        setState(w);
+        setDraft(draftOf(w));
+      })
+      .catch((e) => !cancelled && setError(e?.message || String(e)));
+    return () => {
+      cancelled = true;
+    };
+  }, [issueId]);
+
+  const saved = state ? draftOf(state) : null;
+  const dirty =
+    !!saved &&
+    (draft.status !== saved.status ||
+      draft.owner.trim() !== saved.owner ||
+      (draft.dueDate || null) !== saved.dueDate ||
+      draft.notes.trim() !== saved.notes);
+
+  async function save() {
+    try {
+      setBusy(true);
+      setError(null);
+      const next = await updateWorkflow(issueId, { ...draft, dueDate: draft.dueDate || null });
+      setState(next);
+      setDraft(draftOf(next));
+      const { history, ...summary } = next;
+      onChange(issueId, summary);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const overdue = isOverdue(state || undefined);
+  const input = 'border rounded px-2 py-1 text-xs disabled:bg-gray-50 disabled:text-gray-600';
+
+  return (
+    <div className="px-6 py-2 border-b bg-slate-50 text-xs text-slate-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Status"
+          className={`rounded-full border px-2 py-1 font-medium ${STATUS_STYLES[draft.status]}`}
+          value={draft.status}
+          disabled={!canEdit || !state}
+          onChange={(e) => setDraft({ ...draft, status: e.target.value as WorkflowStatus })}
+        >
+          {WORKFLOW_STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {STATUS_LABELS[s]}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="Owner"
+          className={`${input} w-32`}
+          placeholder="Owner"
+          maxLength={80}
+          value={draft.owner}
+          disabled={!canEdit || !state}
+          onChange={(e) => setDraft({ ...draft, owner: e.target.value })}
+        />
+        <label className="flex items-center gap-1">
+          <span className={overdue ? 'text-red-600 font-medium' : undefined}>{overdue ? 'Overdue' : 'Due'}</span>
+          <input
+            type="date"
+            className={input}
+            value={draft.dueDate || ''}
+            disabled={!canEdit || !state}
+            onChange={(e) => setDraft({ ...draft, dueDate: e.target.value || null })}
+          />
+        </label>
+        <button type="button" className="text-slate-500 hover:text-slate-800" onClick={() => setExpanded(!expanded)}>
+          {expanded ? '▾' : '▸'} Notes & history{state?.history.length ? ` (${state.history.length})` : ''}
+        </button>
+        {canEdit && dirty ? (
+          <button
+            type="button"
+            className="ml-auto px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            disabled={busy}
+            onClick={save}
+          >
+            {busy ? 'Saving…' : 'Save'}
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <div className="mt-1 text-red-600">Error: {error}</div> : null}
+
+      {expanded ? (
+        <div className="mt-2 space-y-2">
+          <textarea
+            aria-label="Notes"
+            className={`${input} w-full`}
+            rows={3}
+            maxLength={4000}
+            placeholder={canEdit ? 'Notes (e.g. why the risk was accepted, ticket links)' : 'No notes'}
+            value={draft.notes}
+            disabled={!canEdit || !state}
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          />
+          {state?.history.length ? (
+            <ul className="max-h-32 overflow-auto space-y-0.5">
+              {[...state.history].reverse().map((ev, i) => (
+                <li key={i}>
+                  <span className="text-slate-500">
+                    {new Date(ev.at).toLocaleString()} · {ev.by || 'unknown'}:
+                  </span>{' '}
+                  {describe(ev)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-slate-500">No changes recorded yet.</div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,44 +1,72 @@
 // app/src/lib/api.ts
 /* Centralized API client with debug logging, timeouts, and clear errors */
 
-export type Issue = {
-  id: string;
-  name: string;
-  category?: string;
-  severityScore?: number;
-  reference?: string;
-  description?: string;
-  recommendations?: string[];
-};
-
-type IssuesFileShape = {
-  sections: Array<{
-    title?: string;
-    sub_sections?: Array<{
-      title?: string;
-      finding_templates?: Array<{
-        sem_template?: {
-          sem_header?: string;
-          sem_category?: string;
-          severity_score?: number;
-          sem_long_description?: string;
-          sem_recommendations?: string[] | string | null;
-          sem_resolution_instruction?: string[] | string | null;
-        };
-      }>;
-    }>;
-  }>;
-};
+import type {
+  AuthUser,
+  ChatCitation,
+  ChatMessage,
+  ChatPassage,
+  ChatSourceStatus,
+  IssueWorkflow,
+  IssueWorkflowDetail,
+  Role,
+  SemTemplate,
+  Conversation,
+  ConversationSummary,
+  FieldErrors,
+  IssuePayload,
+  IssuesFile,
+  SearchHit,
+  SectionOutline,
+  SeverityIcon,
+  SeverityLevel,
+  WorkflowStatus,
+} from '../types';
 
 type ScrapeInput = string[];
-type ScrapeResultItem = { url: string; ok: boolean; text?: string; status?: number };
+type ScrapeFailureReason =
+  | 'invalid_url'
+  | 'scheme_not_allowed'
+  | 'credentials_in_url'
+  | 'domain_not_allowed'
+  | 'private_address'
+  | 'dns_failed'
+  | 'too_many_redirects'
+  | 'too_large'
+  | 'unsupported_content_type'
+  | 'http_error'
+  | 'timeout'
+  | 'fetch_failed';
+type ScrapeResultItem = {
+  url: string;
+  ok: boolean;
+  text?: string;      // Markdown of the main content
+  format?: 'html' | 'pdf' | 'text';
+  title?: string;
+  rendered?: boolean; // loaded through the server's headless browser
+  status?: number;
+  reason?: ScrapeFailureReason; // why the server refused or failed to fetch (ok: false)
+  error?: string;               // human-readable detail for `reason`
+  cached?: boolean;   // served from the server's scrape cache
+  fetchedAt?: string; // ISO time the page text was last fetched/revalidated
+};
 type ScrapeResult = { results: ScrapeResultItem[] };
 
 type RawChatInput = {
   messages: { role: 'user' | 'system' | 'assistant'; content: string }[];
-  sources?: { url: string; text: string }[];
+  /** Scraped pages (text) or bare URLs the server scrapes itself; either way only ranked passages reach the model */
+  sources?: { url: string; text?: string }[];
+  /** Issue the question is about; recorded with the request's token usage */
+  issueId?: string;
+  /** Quick action the question was rendered from (audit log) */
+  promptId?: string;
+};
+type RawChatResult = {
+  reply?: string;
+  passages?: ChatPassage[];
+  citations?: ChatCitation[];
+  sources?: ChatSourceStatus[];
 };
-type RawChatResult = { reply?: string };
 
 /* ---------- Config ---------- */
 
@@ -54,6 +82,94 @@ function url(p: string) {
 // Default timeout for requests (ms)
 const DEFAULT_TIMEOUT = 20000;
 
+/* ---------- Auth token ---------- */
+
+const TOKEN_KEY = 'security-copilot.token';
+let onUnauthorized: (() => void) | null = null;
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setToken(token: string | null) {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+}
+
+/** Register a callback for 401 responses (e.g. show the login screen) */
+export function setUnauthorizedHandler(fn: (() => void) | null) {
+  onUnauthorized = fn;
+}
+
+function withAuth(headers?: HeadersInit): Headers {
+  const h = new Headers(headers);
+  const token = getToken();
+  if (token && !h.has('authorization')) h.set('authorization', `Bearer ${token}`);
+  return h;
+}
+
+/** Non-2xx response; `status` lets callers branch (401 login, 403 role, 429 limit, …) */
+export class ApiError extends Error {
+  status: number;
+  /** Server error code, e.g. 'rate_limited' | 'budget_exceeded' on 429 */
+  code?: string;
+  /** Seconds until a 429'd request may be retried */
+  retryAfter?: number;
+  /** Per-field messages of a rejected finding (422, or 409 on a duplicate title) */
+  fields?: FieldErrors;
+  constructor(
+    status: number,
+    message: string,
+    extra: { code?: string; retryAfter?: number; fields?: FieldErrors } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = extra.code;
+    this.retryAfter = extra.retryAfter;
+    this.fields = extra.fields;
+  }
+}
+
+/** "45s", "12 min", "3 h" */
+function formatWait(seconds: number): string {
+  if (seconds < 90) return `${seconds}s`;
+  if (seconds < 5400) return `${Math.round(seconds / 60)} min`;
+  return `${Math.round(seconds / 3600)} h`;
+}
+
+async function httpError(res: Response): Promise<ApiError> {
+  const text = await safeReadText(res);
+  if (res.status === 401) onUnauthorized?.();
+  if (res.status === 429) {
+    // Usage limits: show the server's reason and when to retry instead of the raw body
+    let body: { error?: string; code?: string; retryAfter?: number } = {};
+    try {
+      body = JSON.parse(text);
+    } catch {
+      /* not JSON (e.g. a proxy's limit page) */
+    }
+    const retryAfter = Number(res.headers.get('retry-after') ?? body.retryAfter) || undefined;
+    const reason = body.error || 'Too many requests';
+    return new ApiError(429, retryAfter ? `${reason} – try again in ${formatWait(retryAfter)}` : reason, {
+      code: body.code,
+      retryAfter,
+    });
+  }
+  if (res.status === 409 || res.status === 422) {
+    // Validation: keep the field messages so forms can show them inline
+    try {
+      const body: { error?: string; fields?: FieldErrors } = JSON.parse(text);
+      if (body.fields) return new ApiError(res.status, body.error || 'Invalid input', { fields: body.fields });
+    } catch {
+      /* not JSON; fall through */
+    }
+  }
+  // Truncate very long HTML error pages
+  const detail = text.length > 300 ? `${text.slice(0, 300)}…` : text;
+  return new ApiError(res.status, `HTTP ${res.status} ${res.statusText}${detail ? ` – ${detail}` : ''}`);
+}
+
 /* ---------- Core request helper ---------- */
 
 async function request<T>(
@@ -63,15 +179,14 @@ async function request<T>(
   const { timeoutMs = DEFAULT_TIMEOUT, ...init } = options;
   const ctrl = new AbortController();
   const id = setTimeout(() => ctrl.abort(), timeoutMs);
+  // A caller's signal (e.g. a superseded search) cancels too, and is reported as an AbortError
+  init.signal?.addEventListener('abort', () => ctrl.abort(), { once: true });
 
   try {
-    const res = await fetch(url(path), { ...init, signal: ctrl.signal });
+    const res = await fetch(url(path), { ...init, headers: withAuth(init.headers), signal: ctrl.signal });
 
     // Non-2xx → include status + any server text to help debug quickly
-    if (!res.ok) {
-      const text = await safeReadText(res);
-      throw new Error(`HTTP ${res.status} ${res.statusText}${text ? ` – ${text}` : ''}`);
-    }
+    if (!res.ok) throw await httpError(res);
 
     // Try JSON first; if fails, return text as any
     const contentType = res.headers.get('content-type') || '';
@@ -82,6 +197,8 @@ async function request<T>(
     // @ts-expect-error dynamic
     return text as T;
   } catch (err: any) {
+    if (err instanceof ApiError) throw err;
+    if (init.signal?.aborted) throw err;
     // Classify common failure modes with clearer messages
     if (err?.name === 'AbortError') {
       throw new Error(`Request timed out after ${timeoutMs}ms`);
@@ -97,21 +214,82 @@ async function request<T>(
   }
 }
 
+/** Authenticated request for a file download; the name comes from Content-Disposition */
+async function requestFile(path: string, init: RequestInit, fallbackName: string): Promise<DownloadedFile> {
+  let res: Response;
+  try {
+    res = await fetch(url(path), { ...init, headers: withAuth(init.headers) });
+  } catch {
+    throw new Error(
+      'Failed to fetch. Check that the API base URL is reachable (VITE_API_BASE), CORS is allowed, and the server is running.'
+    );
+  }
+  if (!res.ok) throw await httpError(res);
+  const disposition = res.headers.get('content-disposition') || '';
+  const filename = /filename="?([^";]+)"?/i.exec(disposition)?.[1] || fallbackName;
+  return { blob: await res.blob(), filename };
+}
+
 async function safeReadText(res: Response): Promise<string> {
   try {
-    const t = await res.text();
-    // Truncate very long HTML error pages
-    return t.length > 300 ? `${t.slice(0, 300)}…` : t;
+    return await res.text();
   } catch {
     return '';
   }
 }
 
+/* ---------- Public API: Auth ---------- */
+
+export type AuthConfig = { disabled: boolean; oidc: { enabled: boolean } };
+
+export async function getAuthConfig(): Promise<AuthConfig> {
+  return request<AuthConfig>('/api/auth/config', {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+}
+
+/** Password login; stores the bearer token for subsequent requests */
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const r = await request<{ token: string; user: AuthUser }>('/api/auth/login', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  setToken(r.token);
+  return r.user;
+}
+
+/** Current user for the stored token (throws ApiError 401 when not logged in) */
+export async function getMe(): Promise<AuthUser> {
+  const r = await request<{ user: AuthUser }>('/api/auth/me', {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+  return r.user;
+}
+
+const ROLE_ORDER: Role[] = ['viewer', 'editor', 'admin'];
+
+/** True when the user's role is at least `role` (viewer < editor < admin) */
+export function hasRole(user: AuthUser | null | undefined, role: Role): boolean {
+  return !!user && ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(role);
+}
+
+export function logout() {
+  setToken(null);
+}
+
+/** Full-page redirect target for single sign-on */
+export function oidcLoginUrl(): string {
+  return url('/api/auth/oidc/login');
+}
+
 /* ---------- Public API: Issues ---------- */
 
 /** Get the raw issues.json structure from the server */
-export async function getIssuesFile(): Promise<IssuesFileShape> {
-  return request<IssuesFileShape>('/api/issues', {
+export async function getIssuesFile(): Promise<IssuesFile> {
+  return request<IssuesFile>('/api/issues', {
     method: 'GET',
     headers: { accept: 'application/json' },
   });
@@ -121,15 +299,15 @@ export async function getIssuesFile(): Promise<IssuesFileShape> {
  * Convenience: parse the server JSON into flat Issue[]
  * Use when you need a normalized list on the client.
  */
-export async function getIssues(): Promise<IssuesFileShape> {
+export async function getIssues(): Promise<IssuesFile> {
   // Keep the original nested shape; your UI already parses it elsewhere.
   // If you want a flat list here, you could map it — but most of your code
   // expects the nested shape from the server, so we return it as-is.
   return getIssuesFile();
 }
 
-/** Create a new issue (POST) — payload is server’s sem_template-like shape */
-export async function createIssue(payload: any) {
+/** Create a new issue (POST); invalid fields reject with an ApiError carrying `fields` */
+export async function createIssue(payload: IssuePayload) {
   return request('/api/issues', {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
@@ -137,8 +315,8 @@ export async function createIssue(payload: any) {
   });
 }
 
-/** Update issue by id (id is the original sem_header) */
-export async function updateIssue(id: string, payload: any) {
+/** Update issue by id (the finding's sem_id); a `location` moves it to another sub-section */
+export async function updateIssue(id: string, payload: Partial<IssuePayload>) {
   return request(`/api/issues/${encodeURIComponent(id)}`, {
     method: 'PUT',
     headers: { 'content-type': 'application/json' },
@@ -146,13 +324,341 @@ export async function updateIssue(id: string, payload: any) {
   });
 }
 
-/** Delete issue by id (id is the sem_header) */
+/** Move an issue to the trash by id (the finding's sem_id); see restoreFromTrash / purgeFromTrash */
 export async function deleteIssue(id: string) {
   return request(`/api/issues/${encodeURIComponent(id)}`, {
     method: 'DELETE',
   });
 }
 
+/* ---------- Public API: Revisions & trash ---------- */
+
+/** One saved version of a finding; `template` is the finding after that change */
+export type Revision = {
+  rev: number;
+  at: string;
+  by: string;
+  action: 'baseline' | 'create' | 'update' | 'import' | 'restore' | 'undelete';
+  template: SemTemplate;
+  restoredFrom?: number;
+};
+
+/** Version history of a finding, newest first; `current` is null while it is in the trash */
+export async function getRevisions(id: string): Promise<{ current: SemTemplate | null; revisions: Revision[] }> {
+  return request(`/api/issues/${encodeURIComponent(id)}/revisions`, {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+}
+
+/** Bring a finding's fields back to an older revision (saved as a new revision) */
+export async function restoreRevision(id: string, rev: number) {
+  return request(`/api/issues/${encodeURIComponent(id)}/revisions/${rev}/restore`, { method: 'POST' });
+}
+
+export type TrashItem = {
+  id: string;
+  deletedAt: string;
+  deletedBy: string;
+  location: { section: number; subSection: number; sectionTitle: string; subSectionTitle: string };
+  sem_template: SemTemplate;
+};
+
+/** Deleted findings, most recently deleted first */
+export async function listTrash(): Promise<TrashItem[]> {
+  const r = await request<{ items: TrashItem[] }>('/api/trash', {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+  return r.items;
+}
+
+/** Put a deleted finding back where it was */
+export async function restoreFromTrash(id: string) {
+  return request(`/api/trash/${encodeURIComponent(id)}/restore`, { method: 'POST' });
+}
+
+/** Delete a finding for good, with its history and everyone's conversations about it */
+export async function purgeFromTrash(id: string) {
+  return request(`/api/trash/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/* ---------- Public API: Search ---------- */
+
+export type SearchResponse = {
+  query: string;
+  semantic: boolean; // embeddings were blended into the ranking
+  warning?: string;
+  results: SearchHit[];
+};
+
+/** Ranked, fuzzy full-text search over the catalog (optionally semantic, see server SEARCH_EMBEDDINGS) */
+export async function searchIssues(
+  q: string,
+  opts: { limit?: number; signal?: AbortSignal } = {}
+): Promise<SearchResponse> {
+  const qs = new URLSearchParams({ q, limit: String(opts.limit ?? 50) });
+  return request<SearchResponse>(`/api/search?${qs}`, { method: 'GET', signal: opts.signal });
+}
+
+/* ---------- Public API: Sections ---------- */
+
+/** Sections and sub-sections (by position) with finding counts */
+export async function getSections(): Promise<SectionOutline[]> {
+  const r = await request<{ sections: SectionOutline[] }>('/api/sections', {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+  return r.sections;
+}
+
+export async function createSection(title: string) {
+  return request<{ ok: boolean; index: number }>('/api/sections', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+}
+
+export async function renameSection(section: number, title: string) {
+  return request(`/api/sections/${section}`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+}
+
+/** Only empty sections can be deleted (409 otherwise) */
+export async function deleteSection(section: number) {
+  return request(`/api/sections/${section}`, { method: 'DELETE' });
+}
+
+export async function createSubSection(section: number, title: string) {
+  return request<{ ok: boolean; index: number }>(`/api/sections/${section}/sub-sections`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+}
+
+export async function renameSubSection(section: number, subSection: number, title: string) {
+  return request(`/api/sections/${section}/sub-sections/${subSection}`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+}
+
+export async function deleteSubSection(section: number, subSection: number) {
+  return request(`/api/sections/${section}/sub-sections/${subSection}`, { method: 'DELETE' });
+}
+
+/* ---------- Public API: Bulk import ---------- */
+
+export type ImportFormat = 'native' | 'csv' | 'sarif' | 'json';
+
+/** sem_template fields a CSV column / scanner JSON path can be mapped onto */
+export const IMPORT_TARGET_FIELDS = [
+  'sem_header',
+  'sem_category',
+  'severity_score',
+  'sem_long_description',
+  'sem_recommendations',
+  'sem_resolution_instruction',
+  'section',
+  'sub_section',
+] as const;
+export type ImportTargetField = (typeof IMPORT_TARGET_FIELDS)[number];
+export type ImportMapping = Partial<Record<ImportTargetField, string>>;
+
+export type ImportRow = {
+  row: number;
+  header: string;
+  action: 'create' | 'update' | 'conflict' | 'error';
+  errors?: string[];
+  message?: string;
+  id?: string;
+  location: string | null;
+  fields: Record<string, unknown>;
+};
+
+export type ImportResult = {
+  ok: boolean;
+  dryRun: boolean;
+  summary: Record<ImportRow['action'], number>;
+  rows: ImportRow[];
+  columns: string[];
+  mapping: ImportMapping;
+};
+
+/** Preview (dryRun, the default) or apply an import; `content` is the file text (or parsed JSON) */
+export async function importFindings(payload: {
+  format: ImportFormat;
+  content: unknown;
+  mapping?: ImportMapping;
+  onConflict?: 'update' | 'skip';
+  dryRun?: boolean;
+}): Promise<ImportResult> {
+  return request<ImportResult>('/api/import', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+/* ---------- Public API: Export ---------- */
+
+export type DownloadedFile = { blob: Blob; filename: string };
+
+/** Catalog filters understood by the export endpoint (all optional) */
+export type CatalogFilters = {
+  q?: string;
+  category?: string;
+  section?: string;
+  minSeverity?: number;
+  ids?: string[];
+};
+
+/** Download the catalog as CSV or nested JSON, optionally filtered */
+export async function exportCatalog(format: 'csv' | 'json', filters: CatalogFilters = {}): Promise<DownloadedFile> {
+  return requestFile(
+    '/api/export/catalog',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ format, ...filters }),
+    },
+    `findings.${format}`
+  );
+}
+
+/** Markdown remediation runbook for one issue plus a copilot answer */
+export async function exportRunbook(payload: {
+  issueId: string;
+  answer?: string;
+  citations?: ChatCitation[];
+  conversationId?: string;
+}): Promise<DownloadedFile> {
+  return requestFile(
+    '/api/export/runbook',
+    {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(payload),
+    },
+    'runbook.md'
+  );
+}
+
+/* ---------- Public API: Conversations ---------- */
+
+/** List saved Copilot conversations (newest first), optionally for one issue */
+export async function listConversations(issueId?: string): Promise<ConversationSummary[]> {
+  const qs = issueId ? `?issueId=${encodeURIComponent(issueId)}` : '';
+  const r = await request<{ conversations: ConversationSummary[] }>(`/api/conversations${qs}`, {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+  return r.conversations;
+}
+
+/** Fetch one conversation including its messages */
+export async function getConversation(id: string): Promise<Conversation> {
+  return request<Conversation>(`/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+}
+
+/** Save a new conversation for an issue (title defaults to the first question) */
+export async function createConversation(payload: {
+  issueId: string;
+  title?: string;
+  messages?: ChatMessage[];
+}): Promise<Conversation> {
+  return request<Conversation>('/api/conversations', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+/** Rename a conversation and/or replace its messages */
+export async function updateConversation(
+  id: string,
+  payload: { title?: string; messages?: ChatMessage[] }
+): Promise<Conversation> {
+  return request<Conversation>(`/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteConversation(id: string) {
+  return request(`/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+}
+
+/* ---------- Public API: Workflow ---------- */
+
+/** Workflow state of every finding that has one; findings missing from `items` are open */
+export async function getWorkflows(): Promise<Record<string, IssueWorkflow>> {
+  const r = await request<{ statuses: WorkflowStatus[]; items: Record<string, IssueWorkflow> }>('/api/workflow', {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+  return r.items;
+}
+
+/** Workflow state of one finding including its change history */
+export async function getWorkflow(issueId: string): Promise<IssueWorkflowDetail> {
+  return request<IssueWorkflowDetail>(`/api/workflow/${encodeURIComponent(issueId)}`, {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+}
+
+/** Change status, owner, due date and/or notes (editors); returns the new state with history */
+export async function updateWorkflow(
+  issueId: string,
+  payload: Partial<Pick<IssueWorkflow, 'status' | 'owner' | 'dueDate' | 'notes'>>
+): Promise<IssueWorkflowDetail> {
+  return request<IssueWorkflowDetail>(`/api/workflow/${encodeURIComponent(issueId)}`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+/* ---------- Public API: Severity levels ---------- */
+
+/** Severity levels, highest band first */
+export async function getSeverityLevels(): Promise<SeverityLevel[]> {
+  const r = await request<{ levels: SeverityLevel[]; icons: SeverityIcon[] }>('/api/severity', {
+    method: 'GET',
+    headers: { accept: 'application/json' },
+  });
+  return r.levels;
+}
+
+/** Replace every severity level (admin); the lowest one must start at 0 */
+export async function updateSeverityLevels(levels: SeverityLevel[]): Promise<SeverityLevel[]> {
+  const r = await request<{ levels: SeverityLevel[] }>('/api/severity', {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ levels }),
+  });
+  return r.levels;
+}
+
+/** Back to the built-in Critical / Important / Moderate levels (admin) */
+export async function resetSeverityLevels(): Promise<SeverityLevel[]> {
+  const r = await request<{ levels: SeverityLevel[] }>('/api/severity/reset', { method: 'POST' });
+  return r.levels;
+}
+
 /* ---------- Public API: Scrape & Chat ---------- */
 
 /** Scrape a set of URLs on the server so Chat can use real page text */
@@ -177,6 +683,255 @@ export async function rawChat(input: RawChatInput): Promise<RawChatResult> {
   });
 }
 
+type StreamChatEvent =
+  | { type: 'context'; passages: ChatPassage[]; usedTokens: number; totalChunks: number; sources?: ChatSourceStatus[] }
+  | { type: 'delta'; content: string }
+  | { type: 'citations'; citations: ChatCitation[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+type StreamChatOptions = {
+  /** Called with each text fragment as the model produces it */
+  onDelta: (chunk: string) => void;
+  /** Called once, before any text, with the reference passages picked for the prompt and each source's status */
+  onContext?: (passages: ChatPassage[], sources: ChatSourceStatus[]) => void;
+  /** Called once the reply is complete with the citations behind its inline markers */
+  onCitations?: (citations: ChatCitation[]) => void;
+  /** Abort to stop generation; the server cancels the upstream request too */
+  signal?: AbortSignal;
+};
+
+/**
+ * Streaming Chat: same input as rawChat(), but the reply arrives as NDJSON
+ * events from /api/chat/stream. Resolves with the full reply once done.
+ * No overall timeout — long answers are fine as long as tokens keep flowing.
+ */
+export async function streamChat(input: RawChatInput, opts: StreamChatOptions): Promise<string> {
+  const { onDelta, onContext, onCitations, signal } = opts;
+  let res: Response;
+  try {
+    res = await fetch(url('/api/chat/stream'), {
+      method: 'POST',
+      headers: withAuth({ 'content-type': 'application/json', accept: 'application/x-ndjson' }),
+      body: JSON.stringify(input),
+      signal,
+    });
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw err;
+    throw new Error(
+      'Failed to fetch. Check that the API base URL is reachable (VITE_API_BASE), CORS is allowed, and the server is running.'
+    );
+  }
+
+  if (!res.ok || !res.body) throw await httpError(res);
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let reply = '';
+  let finished = false; // the server ends every complete answer with {"type":"done"}
+
+  const handle = (line: string) => {
+    if (!line.trim()) return;
+    const evt = JSON.parse(line) as StreamChatEvent;
+    if (evt.type === 'context') {
+      onContext?.(evt.passages || [], evt.sources || []);
+    } else if (evt.type === 'delta') {
+      reply += evt.content;
+      onDelta(evt.content);
+    } else if (evt.type === 'citations') {
+      onCitations?.(evt.citations || []);
+    } else if (evt.type === 'done') {
+      finished = true;
+    } else if (evt.type === 'error') {
+      throw new Error(evt.error || 'chat failed');
+    }
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let nl: number;
+      while ((nl = buffer.indexOf('\n')) >= 0) {
+        handle(buffer.slice(0, nl));
+        buffer = buffer.slice(nl + 1);
+      }
+    }
+    handle(buffer + decoder.decode());
+  } catch (err) {
+    // Stop the download (and the server's generation) instead of leaving the stream open
+    reader.cancel().catch(() => {});
+    throw err;
+  }
+
+  // The stream closed without "done": a dropped connection or a crashed server, not a complete answer
+  if (!finished) throw new Error('Answer was cut off before it finished. Try again.');
+  return reply;
+}
+
+/* ---------- Prompt templates ---------- */
+
+export type PromptKind = 'system' | 'context' | 'action';
+export type PromptTemplate = {
+  id: string;
+  /** system = system prompt, context = wrapper around the first question, action = quick-action button */
+  kind: PromptKind;
+  label: string;
+  /** Text with {{variables}}, e.g. {{issue.name}}, {{severity}}, {{sources}} */
+  template: string;
+  /** Ships with the app (can be reset to its default text) */
+  builtIn: boolean;
+  updatedAt?: string;
+};
+export type PromptVariable = { name: string; description: string };
+
+/** All templates (quick actions in button order) and the variables they may use */
+export async function listPrompts(): Promise<{ prompts: PromptTemplate[]; variables: PromptVariable[] }> {
+  return request('/api/prompts', { method: 'GET' });
+}
+
+/**
+ * Render a saved template (`id`) or unsaved text (`template`) for an issue. `unknown` lists
+ * {{names}} that are not variables (left as written in `text`).
+ */
+export async function renderPrompt(input: {
+  id?: string;
+  template?: string;
+  issueId?: string;
+  question?: string;
+}): Promise<{ text: string; unknown: string[] }> {
+  return request('/api/prompts/render', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function createPrompt(payload: { label: string; template: string }): Promise<PromptTemplate> {
+  return request('/api/prompts', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updatePrompt(id: string, payload: { label?: string; template?: string }): Promise<PromptTemplate> {
+  return request(`/api/prompts/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+/** Back to the shipped text (built-in templates only) */
+export async function resetPrompt(id: string): Promise<PromptTemplate> {
+  return request(`/api/prompts/${encodeURIComponent(id)}/reset`, { method: 'POST' });
+}
+
+export async function deletePrompt(id: string) {
+  return request<{ ok: boolean; deleted: string }>(`/api/prompts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/** New quick-action button order */
+export async function reorderPrompts(ids: string[]): Promise<PromptTemplate[]> {
+  const r = await request<{ prompts: PromptTemplate[] }>('/api/prompts/order', {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ ids }),
+  });
+  return r.prompts;
+}
+
+/* ---------- Usage (LLM tokens and cost) ---------- */
+
+export type UsageTotals = { requests: number; promptTokens: number; completionTokens: number; cost: number };
+export type UsageRecord = {
+  at: string;
+  userId: string;
+  username: string;
+  issueId: string | null;
+  route: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Token counts approximated from text length (the provider reported none) */
+  estimated: boolean;
+  /** Estimated USD; null when the model's price is unknown */
+  cost: number | null;
+  status: 'ok' | 'aborted' | 'error';
+};
+export type UsageLimits = {
+  dailyTokensPerUser: number;
+  dailyCostPerUser: number;
+  dailyCostTotal: number;
+  ratePerMinute: number;
+};
+export type UsageSummary = {
+  /** 'all' for admins looking at everyone, else the numbers are one user's */
+  scope: 'all' | 'user';
+  limits: UsageLimits;
+  days: number;
+  since: string;
+  totals: UsageTotals & { unpriced: number };
+  today: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byUser: (UsageTotals & { userId: string; username: string })[];
+  byModel: (UsageTotals & { provider: string; model: string })[];
+  byIssue: (UsageTotals & { issueId: string; header: string })[];
+  recent: UsageRecord[];
+};
+
+/** Copilot usage over the last `days` days (admins see all users unless `userId` is given) */
+export async function getUsage(days = 30, userId?: string): Promise<UsageSummary> {
+  const qs = new URLSearchParams({ days: String(days), ...(userId ? { userId } : {}) });
+  return request<UsageSummary>(`/api/usage?${qs}`, { method: 'GET' });
+}
+
+/* ---------- Audit log (admin) ---------- */
+
+export type AuditEntry = {
+  id: string;
+  at: string;
+  actor: { id: string; username: string; role: string };
+  action: string;
+  target: { type: string; id: string; label: string } | null;
+  /** Changed fields as [before, after]; null on the missing side of a create or delete */
+  changes?: Record<string, [unknown, unknown]>;
+  details?: Record<string, unknown>;
+};
+
+/** Audit filters (all optional): action or action prefix ("issue"), actor username, target id, UTC days */
+export type AuditFilters = {
+  action?: string;
+  actor?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+};
+
+function auditQuery(filters: AuditFilters, extra: Record<string, string> = {}): string {
+  const params = Object.entries({ ...filters, ...extra }).filter(([, v]) => v) as [string, string][];
+  return new URLSearchParams(params).toString();
+}
+
+/** One page of audit entries, newest first */
+export async function getAuditLog(
+  filters: AuditFilters = {},
+  page: { limit?: number; offset?: number } = {}
+): Promise<{ actions: string[]; total: number; entries: AuditEntry[] }> {
+  const qs = auditQuery(filters, { limit: String(page.limit ?? 100), offset: String(page.offset ?? 0) });
+  return request(`/api/audit?${qs}`, { method: 'GET', headers: { accept: 'application/json' } });
+}
+
+/** Download every matching audit entry as CSV or JSON Lines */
+export async function exportAuditLog(format: 'csv' | 'jsonl', filters: AuditFilters = {}): Promise<DownloadedFile> {
+  return requestFile(`/api/audit/export?${auditQuery(filters, { format })}`, { method: 'GET' }, `audit.${format}`);
+}
+
 /* ---------- Legacy helper (optional): Copilot wrapper ---------- */
 /**
  * If you still use an older “copilot” endpoint on your server that expects
@@ -0,0 +1,82 @@
+// app/src/lib/catalog.ts
+/* Read the nested catalog file (GET /api/issues) into the flat Issue list the UI works with */
+
+import type { Issue, IssueReference, IssuesFile } from '../types';
+
+function normalizeUrl(u?: string | null): string | null {
+  if (!u) return null;
+  const s = String(u).trim();
+  if (!s) return null;
+  if (/^https?:\/\//i.test(s)) return s;
+  if (/^[\w.-]+\.[a-z]{2,}([\/?#].*)?$/i.test(s)) return `https://${s}`;
+  return null;
+}
+
+/** Every valid reference URL (deduplicated), labelled from sem_reference_labels when present */
+function extractReferences(instr: unknown, labels: unknown): IssueReference[] | undefined {
+  const list = Array.isArray(instr) ? instr : instr ? [instr] : [];
+  const labelMap = labels && typeof labels === 'object' ? (labels as Record<string, unknown>) : {};
+  const out: IssueReference[] = [];
+  for (const candidate of list) {
+    const raw = typeof candidate === 'string' ? candidate : String(candidate);
+    const url = normalizeUrl(raw);
+    if (!url || out.some((r) => r.url === url)) continue;
+    const label = labelMap[raw.trim()];
+    out.push(typeof label === 'string' && label.trim() ? { url, label: label.trim() } : { url });
+  }
+  return out.length ? out : undefined;
+}
+
+function normalizeRecommendations(val: unknown): string[] | undefined {
+  if (!val) return undefined;
+  if (Array.isArray(val)) {
+    const arr = val.map((x) => String(x ?? '').trim()).filter(Boolean);
+    return arr.length ? arr : undefined;
+  }
+  const str = String(val).trim();
+  if (!str) return undefined;
+  const parts = str.split(/\r?\n|•|- |\u2022/).map((x) => x.trim()).filter(Boolean);
+  return (parts.length ? parts : [str]) as string[];
+}
+
+/** Flat Issue[] in catalog order; findings without a title (or with a duplicate one) are skipped */
+export function extractIssues(data: IssuesFile | null | undefined): Issue[] {
+  const out: Issue[] = [];
+  const seen = new Set<string>();
+
+  const sections = Array.isArray(data?.sections) ? data.sections : [];
+  for (const [si, section] of sections.entries()) {
+    const subSections = Array.isArray(section?.sub_sections) ? section.sub_sections : [];
+    for (const [ui, sub] of subSections.entries()) {
+      const templates = Array.isArray(sub?.finding_templates) ? sub.finding_templates : [];
+      for (const ft of templates) {
+        const st = ft?.sem_template;
+        const name: string | undefined = st?.sem_header;
+        if (!name || seen.has(name)) continue;
+
+        const scoreRaw = st?.severity_score;
+        const severityScore =
+          typeof scoreRaw === 'number'
+            ? scoreRaw
+            : scoreRaw != null
+            ? parseFloat(String(scoreRaw))
+            : undefined;
+
+        out.push({
+          id: st?.sem_id || name, // stable server-assigned id (title only for legacy data)
+          name,
+          references: extractReferences(st?.sem_resolution_instruction, st?.sem_reference_labels),
+          description: st?.sem_long_description || undefined,
+          recommendations: normalizeRecommendations(st?.sem_recommendations),
+          severityScore,
+          category: st?.sem_category || undefined,
+          section: section?.title || `Section ${si + 1}`,
+          subSection: sub?.title || `Sub-section ${ui + 1}`,
+          location: { section: si, subSection: ui },
+        });
+        seen.add(name);
+      }
+    }
+  }
+  return out;
+}
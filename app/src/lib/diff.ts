@@ -0,0 +1,54 @@
+/** A run of text in a two-way diff */
+export type DiffPart = { kind: 'same' | 'removed' | 'added'; text: string };
+
+// Past this many word pairs the LCS table gets too big; the texts are shown as replaced wholesale
+const MAX_CELLS = 2_000_000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function push(parts: DiffPart[], kind: DiffPart['kind'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else parts.push({ kind, text });
+}
+
+/** Word-level diff of two texts (longest common subsequence); whitespace is kept */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ kind: 'same', text: before }] : [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...(before ? [{ kind: 'removed' as const, text: before }] : []),
+      ...(after ? [{ kind: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(parts, 'removed', a[i++]);
+    } else {
+      push(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, 'removed', a[i++]);
+  while (j < b.length) push(parts, 'added', b[j++]);
+  return parts;
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+/** Hand a Blob to the browser as a file download */
+export function saveFile(blob: Blob, filename: string) {
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
+
+const PRINT_CSS = `
+  body { font: 14px/1.5 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.15rem; margin-top: 1.5rem; border-bottom: 1px solid #e2e8f0; }
+  table { border-collapse: collapse; } td, th { border: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; }
+  code { background: #f1f5f9; padding: 0 3px; border-radius: 3px; } pre { background: #f1f5f9; padding: 8px; white-space: pre-wrap; }
+  a { color: #1d4ed8; word-break: break-all; }
+`;
+
+/**
+ * Render Markdown into a new window and open the browser's print dialog (where "Save as PDF" lives).
+ * No file is produced here; returns false when a popup blocker got in the way.
+ */
+export function printMarkdown(title: string, markdown: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  const body = renderToStaticMarkup(<ReactMarkdown remarkPlugins={[remarkGfm]}>{markdown}</ReactMarkdown>);
+  const safeTitle = title.replace(/[<>&"]/g, (c) => `&#${c.charCodeAt(0)};`);
+  win.document.write(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${safeTitle}</title><style>${PRINT_CSS}</style></head><body>${body}</body></html>`
+  );
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
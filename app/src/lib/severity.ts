@@ -0,0 +1,29 @@
+// app/src/lib/severity.ts
+/* Severity levels (defined on the server, see GET /api/severity): which band a score falls in */
+
+import type { SeverityIcon, SeverityLevel } from '../types';
+
+export const SEVERITY_ICONS: SeverityIcon[] = ['critical', 'important', 'moderate', 'none'];
+
+/** Level whose band holds `score` (levels highest first); null without a score or before levels load */
+export function severityLevel(levels: SeverityLevel[], score?: number | null): SeverityLevel | null {
+  if (score == null || Number.isNaN(score)) return null;
+  return levels.find((l) => score >= l.min) ?? levels[levels.length - 1] ?? null;
+}
+
+/** "Critical (0.95)", or "Unknown" */
+export function severityLabel(levels: SeverityLevel[], score?: number | null): string {
+  const level = severityLevel(levels, score);
+  return level ? `${level.name} (${(score as number).toFixed(2)})` : 'Unknown';
+}
+
+/** Image for a level, or null when the level shows a colored dot */
+export function severityIconUrl(level: SeverityLevel): string | null {
+  return level.icon === 'none' ? null : `/icons/${level.icon}.png`;
+}
+
+/** Scores covered by each level, e.g. "0.61–0.90" (highest band up to 1) */
+export function severityRange(levels: SeverityLevel[], index: number): string {
+  const upper = index === 0 ? 1 : levels[index - 1].min;
+  return `${levels[index].min.toFixed(2)}–${upper.toFixed(2)}`;
+}
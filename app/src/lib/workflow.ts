@@ -0,0 +1,27 @@
+import type { IssueWorkflow, WorkflowStatus } from '../types';
+
+/** Statuses in workflow order (same list as the server's WORKFLOW_STATUSES) */
+export const WORKFLOW_STATUSES: WorkflowStatus[] = ['open', 'in_progress', 'risk_accepted', 'resolved'];
+
+export const STATUS_LABELS: Record<WorkflowStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  risk_accepted: 'Risk Accepted',
+  resolved: 'Resolved',
+};
+
+/** Badge colours per status */
+export const STATUS_STYLES: Record<WorkflowStatus, string> = {
+  open: 'bg-gray-100 text-gray-600 border-gray-200',
+  in_progress: 'bg-blue-50 text-blue-700 border-blue-200',
+  risk_accepted: 'bg-amber-50 text-amber-800 border-amber-200',
+  resolved: 'bg-green-50 text-green-700 border-green-200',
+};
+
+/** State of a finding nobody has touched yet */
+export const DEFAULT_WORKFLOW: IssueWorkflow = { status: 'open', owner: '', dueDate: null, notes: '' };
+
+/** Due date in the past while the finding still needs work */
+export function isOverdue(w: IssueWorkflow | undefined, today = new Date().toISOString().slice(0, 10)): boolean {
+  return !!w?.dueDate && w.dueDate < today && (w.status === 'open' || w.status === 'in_progress');
+}
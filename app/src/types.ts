@@ -1,11 +1,173 @@
 export type Issue = {
 
-  id: string;              // same as sem_header (title)
+  id: string;              // sem_id (stable; falls back to sem_header for un-migrated data)
   name: string;            // sem_header
   description?: string;    // sem_long_description
   recommendations?: string[]; // sem_recommendations
-  reference?: string;      // first URL from sem_resolution_instruction
+  references?: IssueReference[]; // valid URLs from sem_resolution_instruction (+ sem_reference_labels)
   severityScore?: number;  // severity_score
   category?: string;       // sem_category
+  section?: string;        // section title (or "Section N" when untitled)
+  subSection?: string;     // sub-section title (or "Sub-section N")
+  location?: IssueLocation; // position of the sub-section in the catalog
 
 };
+
+/**
+ * A finding as stored in the catalog (server/lib/schema.js is the authority). Older data can still hold
+ * a single string where lists are expected, so readers should go through lib/catalog.ts.
+ */
+export type SemTemplate = {
+  sem_id?: string;
+  sem_header?: string;
+  sem_category?: string;
+  severity_score?: number | null; // 0..1
+  sem_long_description?: string;
+  sem_recommendations?: string[] | string | null;
+  sem_resolution_instruction?: string[] | string | null; // http(s) URLs
+  sem_reference_labels?: Record<string, string>; // { [url]: label }
+};
+
+/** The nested catalog file served by GET /api/issues */
+export type IssuesFile = {
+  sections: Array<{
+    title?: string;
+    sub_sections?: Array<{
+      title?: string;
+      finding_templates?: Array<{ sem_template?: SemTemplate }>;
+    }>;
+  }>;
+};
+
+/** Body of POST/PUT /api/issues: sem_template fields plus an optional target sub-section */
+export type IssuePayload = Omit<SemTemplate, 'sem_id'> & { location?: IssueLocation };
+
+/** Per-field messages from a 422 (keys are sem_template field names, or `location`) */
+export type FieldErrors = Partial<Record<keyof IssuePayload, string>>;
+
+/** A reference link of a finding; `label` is optional display text */
+export type IssueReference = { url: string; label?: string };
+
+/** Where a finding lives: indexes into sections[] and sections[].sub_sections[] */
+export type IssueLocation = { section: number; subSection: number };
+
+/** Catalog outline from GET /api/sections */
+export type SectionOutline = {
+  index: number;
+  title: string;
+  label: string;
+  sub_sections: { index: number; title: string; label: string; count: number }[];
+};
+
+/** [start, end) character offsets of a match */
+export type HighlightRange = [number, number];
+
+/** One hit from GET /api/search */
+export type SearchHit = {
+  id: string;
+  header: string;
+  category: string;
+  section: string;
+  subSection: string;
+  score: number;
+  similarity?: number; // cosine similarity when embeddings were used
+  terms: string[];     // index terms that matched (after fuzzy expansion)
+  highlights: {
+    header: HighlightRange[];
+    snippet: { field: string; text: string; ranges: HighlightRange[] };
+  };
+};
+
+export type ChatMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: ChatCitation[]; // assistant answers only
+};
+
+/**
+ * A numbered citation behind an inline "[1.2]" marker of an answer. `quote` is the passage sentence
+ * closest to the cited claim; start/end are its offsets in the scraped page text.
+ */
+export type ChatCitation = {
+  n: number;
+  id: string;
+  url: string;
+  quote: string;
+  excerpt: string;
+  start: number;
+  end: number;
+};
+
+/** A ranked reference passage the server put into the prompt (id = "source.passage", 1-based) */
+export type ChatPassage = {
+  id: string;
+  source: number;
+  url: string;
+  chunk: number;
+  score: number;
+  excerpt: string;
+};
+
+/** One entry of a Copilot conversation thread */
+export type ChatTurn = ChatMessage & {
+  pending?: boolean; // assistant turn still streaming
+  error?: boolean;   // failed turn; shown but never sent back as history
+  passages?: ChatPassage[]; // reference passages the answer was grounded on
+  sources?: ChatSourceStatus[]; // how loading each reference went for this answer
+};
+
+/** Outcome of loading one reference for a chat answer (reason/error as in scrape results) */
+export type ChatSourceStatus = { url: string; ok: boolean; cached?: boolean; reason?: string; error?: string };
+
+/** Copilot conversation as stored on the server (keyed by issue id) */
+export type Conversation = {
+  id: string;
+  issueId: string;
+  userId: string | null; // who started it; only they (and admins) can open it
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+};
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & { messageCount: number };
+
+/** Live Copilot thread for one issue, optionally backed by a saved conversation */
+export type ChatThread = { conversationId?: string; turns: ChatTurn[] };
+
+/** Icon of a severity level (public/icons/<name>.png); 'none' shows a dot in the level's color */
+export type SeverityIcon = 'critical' | 'important' | 'moderate' | 'none';
+
+/** A severity band from GET /api/severity: scores from `min` (inclusive) up to the next level's min */
+export type SeverityLevel = {
+  name: string;
+  min: number;
+  color: string; // #rrggbb
+  icon: SeverityIcon;
+};
+
+/** Remediation status of a finding; findings nobody has touched are 'open' */
+export type WorkflowStatus = 'open' | 'in_progress' | 'risk_accepted' | 'resolved';
+
+/** Workflow state of one finding as listed by GET /api/workflow (dueDate is YYYY-MM-DD) */
+export type IssueWorkflow = {
+  status: WorkflowStatus;
+  owner: string;
+  dueDate: string | null;
+  notes: string;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+/** One recorded change: the fields that changed as [from, to] */
+export type WorkflowEvent = {
+  at: string;
+  by: string;
+  changes: Partial<{ [K in 'status' | 'owner' | 'dueDate' | 'notes']: [IssueWorkflow[K], IssueWorkflow[K]] }>;
+};
+
+export type IssueWorkflowDetail = IssueWorkflow & { history: WorkflowEvent[] };
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type AuthUser = { id: string; username: string; role: Role; provider: string };
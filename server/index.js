@@ -1,11 +1,55 @@
 // server/index.js
 import express from 'express';
 import cors from 'cors';
-import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import * as cheerio from 'cheerio';
-import OpenAI from 'openai';
+import { AUDIT_ACTIONS, auditToCsv, createAuditLog, parseAuditFilters } from './lib/audit.js';
+import { ROLES, createAuth, createLoginLimiter, createUserStore } from './lib/auth.js';
+import {
+  assignIds,
+  ensureShape,
+  findByHeader,
+  findFinding,
+  newFindingId,
+  outline,
+  parseReferences,
+  referenceLabels,
+  restoreTarget,
+  subSectionAt,
+} from './lib/catalog.js';
+import { extractCitations } from './lib/citations.js';
+import { createConversationStore } from './lib/conversations.js';
+import { STATE_COOKIE, createOidc, loadOidcConfig, readCookie } from './lib/oidc.js';
+import { configError, createProvider, loadLlmConfig } from './lib/providers/index.js';
+import {
+  PROMPT_VARIABLES,
+  PromptError,
+  createPromptStore,
+  issueVariables,
+  renderTemplate,
+  unknownVariables,
+} from './lib/prompts.js';
+import { createRenderer, loadRenderConfig } from './lib/render.js';
+import { createRevisionStore } from './lib/revisions.js';
+import { approxTokens, loadRetrievalConfig, retrievalQuery, selectPassages } from './lib/retrieval.js';
+import {
+  ValidationError,
+  catalogErrors,
+  validateChatMessages,
+  validateIssueBody,
+  validateTemplate,
+} from './lib/schema.js';
+import { scrapeUrl } from './lib/scrape.js';
+import { SEVERITY_ICONS, SeverityError, createSeverityStore } from './lib/severity.js';
+import { createFindingSearch } from './lib/search.js';
+import { catalogToCsv, filterCatalog, parseFilters, runbookMarkdown, slugify } from './lib/exporter.js';
+import { ImportError, applyImport, planImport, readSource, summarize } from './lib/importer.js';
+import { createIssueRepository, noWrite } from './lib/storage/index.js';
+import { createScrapeCache, normalizeUrl } from './lib/scrapeCache.js';
+import { createTrashStore } from './lib/trash.js';
+import { loadUrlPolicy } from './lib/urlPolicy.js';
+import { createUsageStore, loadUsageConfig, priceFor } from './lib/usage.js';
+import { WORKFLOW_STATUSES, WorkflowError, createWorkflowStore } from './lib/workflow.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -42,197 +86,968 @@ app.options('*', cors({ origin: corsOrigin }));
 
 /* ---------- Data locations (supports Render Disk via DATA_DIR) ---------- */
 const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
-const DATA_FILE = path.join(DATA_DIR, 'issues.json');
 const SEED_FILE = path.join(__dirname, 'seed', 'issues.seed.json');
 
-/* ---------- Seed helpers ---------- */
-function ensureDir() {
-  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+/* ---------- LLM provider ---------- */
+// Provider/model come from env (LLM_PROVIDER, LLM_MODEL, …); see lib/providers/index.js
+const llmConfig = loadLlmConfig();
+const llmConfigError = configError(llmConfig);
+const llm = llmConfigError ? null : createProvider(llmConfig);
+if (llmConfigError) console.warn('LLM provider not configured:', llmConfigError);
+
+/* ---------- Auth (local users + optional OIDC) ---------- */
+const users = createUserStore(DATA_DIR);
+const auth = createAuth({ users });
+const loginLimiter = createLoginLimiter();
+const oidc = createOidc(loadOidcConfig());
+
+// viewer: read + chat; editor: + catalog CRUD; admin: + users and scrape cache
+const canRead = auth.requireRole('viewer');
+const canEdit = auth.requireRole('editor');
+const isAdmin = auth.requireRole('admin');
+
+/* ---------- Issue catalog storage (JSON file or SQLite, see lib/storage) ---------- */
+const issues = await createIssueRepository({ dataDir: DATA_DIR, seedFile: SEED_FILE });
+const conversations = createConversationStore(DATA_DIR);
+const prompts = createPromptStore(DATA_DIR);
+const workflow = createWorkflowStore(DATA_DIR);
+const audit = createAuditLog(DATA_DIR);
+const revisions = createRevisionStore(DATA_DIR);
+const trash = createTrashStore(DATA_DIR);
+const severity = createSeverityStore(DATA_DIR);
+
+/** Audit target for a catalog finding (sem_template) */
+function findingTarget(st) {
+  return { type: 'issue', id: st.sem_id || st.sem_header, label: st.sem_header };
+}
+const search = createFindingSearch({ dataDir: DATA_DIR, llm });
+
+// Backfill stable ids (sem_id) for findings that predate them; history keyed by title follows along
+{
+  const assigned = issues.update((data) => {
+    const list = assignIds(data);
+    return list.length ? list : noWrite(list);
+  });
+  if (assigned.length) {
+    const moved = conversations.reassignIssues(new Map(assigned.map((a) => [a.header, a.id])));
+    console.log(`Assigned ids to ${assigned.length} findings (${moved} conversations re-linked)`);
+  }
+}
+
+// Findings stored before the schema was enforced stay readable; they must be fixed on their next edit
+{
+  const invalid = Object.entries(catalogErrors(issues.read()));
+  if (invalid.length) {
+    const sample = invalid.slice(0, 3).map(([at, message]) => `${at}: ${message}`).join('; ');
+    console.warn(`Catalog has ${invalid.length} field(s) that fail validation, e.g. ${sample}`);
+  }
 }
 
-function seedIfEmpty(obj) {
-  const empty = !obj || !Array.isArray(obj.sections) || obj.sections.length === 0;
-  if (!empty) return obj;
+/* ---------- Health ---------- */
+app.get('/api/health', (_req, res) => {
+  res.json({
+    ok: true,
+    dataDir: DATA_DIR,
+    storage: issues.driver,
+    llm: { provider: llmConfig.provider, model: llmConfig.model, ready: !llmConfigError },
+    search: { semantic: search.semanticAvailable() },
+  });
+});
+
+/* ---------- Auth endpoints ---------- */
+// GET /api/auth/config -> what the login screen should offer
+app.get('/api/auth/config', (_req, res) => {
+  res.json({ disabled: auth.disabled, oidc: { enabled: oidc.config.enabled } });
+});
+
+// POST /api/auth/login -> { username, password } -> { token, user }; 429 + Retry-After after repeated failures
+app.post('/api/auth/login', (req, res) => {
+  const { username, password } = req.body || {};
+  if (!username || !password) return res.status(400).json({ error: 'username and password are required' });
+  const denied = loginLimiter.admit(req.ip, username);
+  if (denied) {
+    res.setHeader('Retry-After', String(denied.retryAfter));
+    return res.status(429).json(denied);
+  }
+  const session = auth.login(username, password);
+  if (!session) {
+    loginLimiter.fail(req.ip, username);
+    return res.status(401).json({ error: 'Invalid username or password' });
+  }
+  loginLimiter.succeed(username);
+  res.json(session);
+});
+
+app.get('/api/auth/me', canRead, (req, res) => {
+  res.json({ user: req.user });
+});
+
+// OIDC: browser is sent to the IdP, comes back to the callback, then to APP_URL/#token=…
+app.get('/api/auth/oidc/login', async (_req, res) => {
+  if (!oidc.config.enabled) return res.status(404).json({ error: 'OIDC is not configured' });
+  try {
+    const { url, state } = await oidc.authorizationUrl();
+    res.cookie(STATE_COOKIE, state, oidc.stateCookieOptions());
+    res.redirect(url);
+  } catch (e) {
+    console.error('oidc login error:', e);
+    res.status(502).json({ error: e.message || 'OIDC login failed' });
+  }
+});
+
+app.get('/api/auth/oidc/callback', async (req, res) => {
+  if (!oidc.config.enabled) return res.status(404).json({ error: 'OIDC is not configured' });
+  try {
+    const cookieState = readCookie(req.headers.cookie, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, { ...oidc.stateCookieOptions(), maxAge: undefined });
+    const { username, subject } = await oidc.identityFromCallback({ ...req.query, cookieState });
+    // Matched by the IdP's subject only: an IdP-asserted name or email must never log into an existing account
+    const user =
+      users.findBySubject('oidc', subject) ||
+      users.create({
+        username: users.findByUsername(username) ? `oidc:${subject}` : username,
+        role: oidc.config.defaultRole,
+        provider: 'oidc',
+        subject,
+      });
+    res.redirect(`${oidc.config.appUrl}/#token=${encodeURIComponent(auth.issueToken(user))}`);
+  } catch (e) {
+    console.error('oidc callback error:', e);
+    res.redirect(`${oidc.config.appUrl}/#authError=${encodeURIComponent(e.message || 'OIDC login failed')}`);
+  }
+});
+
+/* ---------- Users (admin) ---------- */
+app.get('/api/users', isAdmin, (_req, res) => {
+  res.json({ users: users.list(), roles: ROLES });
+});
+
+// POST create -> { username, password, role }
+app.post('/api/users', isAdmin, (req, res) => {
+  const { username, password, role } = req.body || {};
+  if (!username || !password) return res.status(400).json({ error: 'username and password are required' });
+  try {
+    res.status(201).json(users.create({ username, password, role }));
+  } catch (e) {
+    res.status(409).json({ error: e.message });
+  }
+});
+
+// PUT update -> { role?, password? }
+app.put('/api/users/:id', isAdmin, (req, res) => {
+  try {
+    const user = users.update(req.params.id, req.body || {});
+    if (!user) return res.status(404).json({ error: 'Not found' });
+    res.json(user);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+app.delete('/api/users/:id', isAdmin, (req, res) => {
+  if (req.params.id === req.user.id) return res.status(400).json({ error: 'You cannot delete yourself' });
+  if (!users.remove(req.params.id)) return res.status(404).json({ error: 'Not found' });
+  res.json({ ok: true, deleted: req.params.id });
+});
+
+/* ---------- Issues (CRUD) ---------- */
+// Error bodies with `fields`, so the edit form can show them next to the field
+const HEADER_CONFLICT = {
+  error: 'An issue with this sem_header already exists',
+  fields: { sem_header: 'Another issue already uses this title' },
+};
+const LOCATION_MISSING = {
+  error: 'location does not exist',
+  fields: { location: 'This sub-section no longer exists' },
+};
+
+// GET all (nested shape)
+app.get('/api/issues', canRead, (req, res) => {
+  try {
+    res.json(issues.read());
+  } catch (e) {
+    console.error('read issues error:', e);
+    res.status(500).json({ error: e.message || 'Failed to read issues' });
+  }
+});
+
+// POST create new finding -> optional location: { section, subSection } (defaults to the first sub-section)
+// Invalid fields -> 422 { error, fields: { [field]: message } } (see lib/schema.js)
+app.post('/api/issues', canEdit, (req, res) => {
+  let body;
+  try {
+    body = validateIssueBody(req.body || {});
+  } catch (e) {
+    if (e instanceof ValidationError) return res.status(422).json({ error: e.message, fields: e.fields });
+    throw e;
+  }
+  const { sem_reference_labels, ...fields } = body.template;
+  const location = body.location;
+
+  const sem_template = { sem_id: newFindingId(), ...fields };
+  const labels = referenceLabels(sem_template.sem_resolution_instruction, sem_reference_labels);
+  if (labels) sem_template.sem_reference_labels = labels;
+
+  const result = issues.update((data) => {
+    ensureShape(data);
+
+    // Unique by sem_header across the whole catalog
+    if (findByHeader(data, sem_template.sem_header)) return noWrite({ conflict: true });
+
+    let sub;
+    if (location) {
+      sub = subSectionAt(data, location);
+      if (!sub) return noWrite({ missing: true });
+    } else {
+      // Ensure base structure
+      if (data.sections.length === 0) data.sections.push({ title: 'Default Section', sub_sections: [] });
+      const section = data.sections[0];
+      if (section.sub_sections.length === 0)
+        section.sub_sections.push({ title: 'Default Subsection', finding_templates: [] });
+      sub = section.sub_sections[0];
+    }
+
+    sub.finding_templates.push({ sem_template });
+    return { created: sem_template };
+  });
+
+  if (result.conflict) return res.status(409).json(HEADER_CONFLICT);
+  if (result.missing) return res.status(422).json(LOCATION_MISSING);
+  revisions.record(result.created.sem_id, { after: result.created, user: req.user, action: 'create' });
+  audit.record({
+    user: req.user,
+    action: 'issue.create',
+    target: findingTarget(result.created),
+    after: result.created,
+  });
+  return res.status(201).json({ ok: true, created: result.created });
+});
+
+// PUT update by id (sem_id; a legacy sem_header also resolves); `location` moves the finding to another sub-section
+// sem_id itself is immutable and ignored in the body; absent fields are kept; invalid fields -> 422 as for POST
+app.put('/api/issues/:id', canEdit, (req, res) => {
+  const id = req.params.id;
+  let body;
+  try {
+    body = validateIssueBody(req.body || {}, { partial: true });
+  } catch (e) {
+    if (e instanceof ValidationError) return res.status(422).json({ error: e.message, fields: e.fields });
+    throw e;
+  }
+  const { sem_reference_labels, ...fields } = body.template;
+  const location = body.location;
+
+  const result = issues.update((data) => {
+    ensureShape(data);
+    const hit = findFinding(data, id);
+    if (!hit) return noWrite({ missing: true });
+    if (fields.sem_header != null) {
+      const clash = findByHeader(data, fields.sem_header);
+      if (clash && clash.ft !== hit.ft) return noWrite({ conflict: true });
+    }
+    const target = location ? subSectionAt(data, location) : null;
+    if (location && !target) return noWrite({ badLocation: true });
+
+    const st = hit.st;
+    const before = structuredClone(st);
+    Object.assign(st, fields);
+    if (sem_reference_labels != null || fields.sem_resolution_instruction != null) {
+      // Labels follow their URLs; omitted labels keep the stored ones for URLs that remain
+      const labels = referenceLabels(
+        parseReferences(st.sem_resolution_instruction),
+        sem_reference_labels ?? st.sem_reference_labels
+      );
+      if (labels) st.sem_reference_labels = labels;
+      else delete st.sem_reference_labels;
+    }
+
+    const moved = Boolean(target && target !== hit.sub);
+    if (moved) {
+      hit.sub.finding_templates.splice(hit.index, 1);
+      target.finding_templates.push(hit.ft);
+    }
+    return { updated: st, before, moved };
+  });
+
+  if (result.missing) return res.status(404).json({ error: 'Not found' });
+  if (result.conflict) return res.status(409).json(HEADER_CONFLICT);
+  if (result.badLocation) return res.status(422).json(LOCATION_MISSING);
+  revisions.record(result.updated.sem_id || id, { before: result.before, after: result.updated, user: req.user });
+  audit.record({
+    user: req.user,
+    action: 'issue.update',
+    target: findingTarget(result.updated),
+    before: result.before,
+    after: result.updated,
+    details: result.moved ? { movedTo: location } : undefined,
+  });
+  return res.json({ ok: true, updated: result.updated });
+});
+
+// DELETE by id (sem_id, or legacy sem_header) -> moves the finding to the trash (see /api/trash)
+app.delete('/api/issues/:id', canEdit, (req, res) => {
+  const id = req.params.id;
+
+  const deleted = issues.update((data) => {
+    const hit = findFinding(data, id);
+    if (!hit) return false;
+    hit.sub.finding_templates.splice(hit.index, 1);
+    const location = {
+      section: hit.section,
+      subSection: hit.subSection,
+      index: hit.index,
+      sectionTitle: hit.sec.title || '',
+      subSectionTitle: hit.sub.title || '',
+    };
+    return { st: hit.st, location };
+  });
 
-  if (fs.existsSync(SEED_FILE)) {
+  if (!deleted) return res.status(404).json({ error: 'Not found' });
+  trash.add({ sem_template: deleted.st, location: deleted.location, user: req.user });
+  audit.record({
+    user: req.user,
+    action: 'issue.delete',
+    target: findingTarget(deleted.st),
+    before: deleted.st,
+    details: { trash: true },
+  });
+  return res.json({ ok: true, deleted: deleted.st.sem_id || id });
+});
+
+/* ---------- Revisions (version history of a finding) ---------- */
+
+// GET -> { current: sem_template | null, revisions: [{ rev, at, by, action, template, restoredFrom? }] }
+// Newest first; `current` is null while the finding is in the trash.
+app.get('/api/issues/:id/revisions', canRead, (req, res) => {
+  const hit = findFinding(issues.read(), req.params.id);
+  const id = hit?.st.sem_id || req.params.id;
+  if (!hit && !trash.get(id)) return res.status(404).json({ error: 'Not found' });
+  res.json({ current: hit ? hit.st : null, revisions: revisions.list(id) });
+});
+
+// POST restore -> the finding's fields go back to revision :rev (recorded as a new revision)
+app.post('/api/issues/:id/revisions/:rev/restore', canEdit, (req, res) => {
+  const id = req.params.id;
+  const result = issues.update((data) => {
+    const hit = findFinding(data, id);
+    if (!hit) return noWrite({ missing: true });
+    const revision = revisions.get(hit.st.sem_id || id, req.params.rev);
+    if (!revision) return noWrite({ noRevision: true });
+    const clash = findByHeader(data, revision.template.sem_header);
+    if (clash && clash.ft !== hit.ft) return noWrite({ conflict: true });
+
+    // Old revisions may predate the schema: they are checked like any other write
+    let fields;
     try {
-      const raw = fs.readFileSync(SEED_FILE, 'utf8');
-      const seed = JSON.parse(raw);
-      if (Array.isArray(seed.sections) && seed.sections.length > 0) {
-        ensureDir();
-        fs.writeFileSync(DATA_FILE, JSON.stringify(seed, null, 2), 'utf8');
-        return seed;
-      }
+      fields = validateTemplate(revision.template);
     } catch (e) {
-      console.error('Failed to load seed file:', e);
+      if (e instanceof ValidationError) return noWrite({ invalid: e });
+      throw e;
     }
+    const labels = referenceLabels(fields.sem_resolution_instruction, fields.sem_reference_labels);
+    delete fields.sem_reference_labels;
+    if (labels) fields.sem_reference_labels = labels;
+
+    const before = structuredClone(hit.st);
+    for (const key of Object.keys(hit.st)) if (key !== 'sem_id') delete hit.st[key];
+    Object.assign(hit.st, fields);
+    return { before, updated: hit.st, rev: revision.rev };
+  });
+
+  if (result.missing || result.noRevision) return res.status(404).json({ error: 'Not found' });
+  if (result.invalid) return res.status(422).json({ error: result.invalid.message, fields: result.invalid.fields });
+  if (result.conflict) return res.status(409).json({ error: 'Another issue now uses this revision\'s title' });
+  revisions.record(result.updated.sem_id || id, {
+    before: result.before,
+    after: result.updated,
+    user: req.user,
+    action: 'restore',
+    restoredFrom: result.rev,
+  });
+  audit.record({
+    user: req.user,
+    action: 'issue.update',
+    target: findingTarget(result.updated),
+    before: result.before,
+    after: result.updated,
+    details: { restoredFrom: result.rev },
+  });
+  res.json({ ok: true, updated: result.updated });
+});
+
+/* ---------- Trash (deleted findings) ---------- */
+
+// GET -> { items: [{ id, deletedAt, deletedBy, location: { sectionTitle, subSectionTitle, ... }, sem_template }] }
+app.get('/api/trash', canRead, (_req, res) => {
+  res.json({ items: trash.list() });
+});
+
+// POST restore -> puts the finding back where it was (or the closest sub-section that still exists)
+app.post('/api/trash/:id/restore', canEdit, (req, res) => {
+  const entry = trash.get(req.params.id);
+  if (!entry) return res.status(404).json({ error: 'Not found' });
+
+  const result = issues.update((data) => {
+    if (findByHeader(data, entry.sem_template.sem_header)) return noWrite({ conflict: true });
+    // Put back exactly as deleted (not re-validated), so nothing gets stuck in the trash
+    const sub = restoreTarget(data, entry.location);
+    const list = sub.finding_templates;
+    // Same sub-section as before: back at its old position; elsewhere: appended
+    const same = sub === subSectionAt(data, entry.location);
+    const at = same ? Math.min(entry.location.index ?? list.length, list.length) : list.length;
+    list.splice(at, 0, { sem_template: entry.sem_template });
+    return { ok: true };
+  });
+  if (result.conflict) {
+    return res.status(409).json({ error: 'An issue with this sem_header already exists; rename it first' });
   }
-  return { sections: [] };
-}
 
-function readJson() {
-  ensureDir();
-  if (!fs.existsSync(DATA_FILE)) {
-    return seedIfEmpty({ sections: [] });
+  trash.remove(entry.id);
+  revisions.record(entry.id, { after: entry.sem_template, user: req.user, action: 'undelete' });
+  audit.record({ user: req.user, action: 'issue.restore', target: findingTarget(entry.sem_template) });
+  res.json({ ok: true, restored: entry.sem_template });
+});
+
+// DELETE -> removes the finding for good, with its revisions, workflow state and everyone's conversations about it
+app.delete('/api/trash/:id', canEdit, (req, res) => {
+  const entry = trash.remove(req.params.id);
+  if (!entry) return res.status(404).json({ error: 'Not found' });
+  revisions.remove(entry.id);
+  workflow.remove(entry.id);
+  const removedConversations = conversations.removeForIssue(entry.id);
+  audit.record({
+    user: req.user,
+    action: 'issue.purge',
+    target: findingTarget(entry.sem_template),
+    details: { conversations: removedConversations },
+  });
+  res.json({ ok: true, purged: entry.id });
+});
+
+/* ---------- Sections & sub-sections ---------- */
+// Addressed by position, like the nested file itself. Only empty containers can be deleted.
+
+// GET outline -> { sections: [{ index, title, label, sub_sections: [{ index, title, label, count }] }] }
+app.get('/api/sections', canRead, (_req, res) => {
+  res.json({ sections: outline(issues.read()) });
+});
+
+// POST -> { title } -> new section with one empty sub-section
+app.post('/api/sections', canEdit, (req, res) => {
+  const title = String(req.body?.title || '').trim();
+  if (!title) return res.status(400).json({ error: 'title is required' });
+  const index = issues.update((data) => {
+    ensureShape(data);
+    data.sections.push({ title, sub_sections: [{ title: 'General', finding_templates: [] }] });
+    return { index: data.sections.length - 1 };
+  }).index;
+  audit.record({
+    user: req.user,
+    action: 'section.create',
+    target: { type: 'section', id: String(index), label: title },
+  });
+  res.status(201).json({ ok: true, index });
+});
+
+app.put('/api/sections/:s', canEdit, (req, res) => {
+  const title = String(req.body?.title || '').trim();
+  if (!title) return res.status(400).json({ error: 'title is required' });
+  const previous = issues.update((data) => {
+    const sec = data.sections?.[Number(req.params.s)];
+    if (!sec) return null;
+    const was = { title: sec.title || '' };
+    sec.title = title;
+    return was;
+  });
+  if (!previous) return res.status(404).json({ error: 'Not found' });
+  audit.record({
+    user: req.user,
+    action: 'section.rename',
+    target: { type: 'section', id: req.params.s, label: title },
+    before: previous,
+    after: { title },
+  });
+  res.json({ ok: true });
+});
+
+app.delete('/api/sections/:s', canEdit, (req, res) => {
+  const i = Number(req.params.s);
+  const result = issues.update((data) => {
+    const sec = data.sections?.[i];
+    if (!sec) return noWrite({ missing: true });
+    if ((sec.sub_sections || []).some((sub) => (sub.finding_templates || []).length)) {
+      return noWrite({ notEmpty: true });
+    }
+    data.sections.splice(i, 1);
+    return { ok: true, title: sec.title || '' };
+  });
+  if (result.missing) return res.status(404).json({ error: 'Not found' });
+  if (result.notEmpty) return res.status(409).json({ error: 'Section still contains findings; move them first' });
+  audit.record({
+    user: req.user,
+    action: 'section.delete',
+    target: { type: 'section', id: String(i), label: result.title },
+  });
+  res.json({ ok: true });
+});
+
+app.post('/api/sections/:s/sub-sections', canEdit, (req, res) => {
+  const title = String(req.body?.title || '').trim();
+  if (!title) return res.status(400).json({ error: 'title is required' });
+  const index = issues.update((data) => {
+    ensureShape(data);
+    const sec = data.sections[Number(req.params.s)];
+    if (!sec) return null;
+    sec.sub_sections.push({ title, finding_templates: [] });
+    return { index: sec.sub_sections.length - 1 };
+  })?.index;
+  if (index == null) return res.status(404).json({ error: 'Not found' });
+  audit.record({
+    user: req.user,
+    action: 'subsection.create',
+    target: { type: 'subsection', id: `${req.params.s}/${index}`, label: title },
+  });
+  res.status(201).json({ ok: true, index });
+});
+
+app.put('/api/sections/:s/sub-sections/:u', canEdit, (req, res) => {
+  const title = String(req.body?.title || '').trim();
+  if (!title) return res.status(400).json({ error: 'title is required' });
+  const previous = issues.update((data) => {
+    const sub = subSectionAt(data, { section: Number(req.params.s), subSection: Number(req.params.u) });
+    if (!sub) return null;
+    const was = { title: sub.title || '' };
+    sub.title = title;
+    return was;
+  });
+  if (!previous) return res.status(404).json({ error: 'Not found' });
+  audit.record({
+    user: req.user,
+    action: 'subsection.rename',
+    target: { type: 'subsection', id: `${req.params.s}/${req.params.u}`, label: title },
+    before: previous,
+    after: { title },
+  });
+  res.json({ ok: true });
+});
+
+app.delete('/api/sections/:s/sub-sections/:u', canEdit, (req, res) => {
+  const u = Number(req.params.u);
+  const result = issues.update((data) => {
+    const sec = data.sections?.[Number(req.params.s)];
+    const sub = sec?.sub_sections?.[u];
+    if (!sub) return noWrite({ missing: true });
+    if ((sub.finding_templates || []).length) return noWrite({ notEmpty: true });
+    sec.sub_sections.splice(u, 1);
+    return { ok: true, title: sub.title || '' };
+  });
+  if (result.missing) return res.status(404).json({ error: 'Not found' });
+  if (result.notEmpty) return res.status(409).json({ error: 'Sub-section still contains findings; move them first' });
+  audit.record({
+    user: req.user,
+    action: 'subsection.delete',
+    target: { type: 'subsection', id: `${req.params.s}/${u}`, label: result.title },
+  });
+  res.json({ ok: true });
+});
+
+/* ---------- Search ---------- */
+// GET /api/search -> ?q=&limit=&semantic=false -> { query, semantic, warning?, results: [...] }
+// Keyword (BM25 + fuzzy) over title, category, description and recommendations; blended with
+// embedding similarity when SEARCH_EMBEDDINGS=true and the provider supports embeddings.
+app.get('/api/search', canRead, async (req, res) => {
+  const q = String(req.query.q || '').trim();
+  if (!q) return res.json({ query: q, semantic: false, results: [] });
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+  try {
+    const out = await search.search(issues.read(), q, {
+      limit,
+      semantic: req.query.semantic !== 'false',
+      signal: abort.signal,
+    });
+    res.json({ query: q, ...out });
+  } catch (e) {
+    if (e?.name === 'AbortError') return;
+    console.error('search error:', e);
+    res.status(500).json({ error: e.message || 'Search failed' });
   }
+});
+
+/* ---------- Bulk import ---------- */
+// POST /api/import -> { format: native|csv|sarif|json, content, mapping?, onConflict?: update|skip, dryRun? }
+//   -> { ok, dryRun, summary: { create, update, conflict, error }, rows: [...], columns, mapping }
+// dryRun (default true) only previews; rows with errors or conflicts are never written.
+app.post('/api/import', canEdit, (req, res) => {
+  const p = req.body || {};
+  const dryRun = p.dryRun !== false;
+  const onConflict = p.onConflict === 'skip' ? 'skip' : 'update';
+
+  let source;
   try {
-    const raw = fs.readFileSync(DATA_FILE, 'utf8');
-    const parsed = JSON.parse(raw);
-    return seedIfEmpty(parsed);
+    source = readSource({ format: p.format, content: p.content, mapping: p.mapping });
   } catch (e) {
-    console.error('Failed to parse data file, attempting seed:', e);
-    return seedIfEmpty({ sections: [] });
+    if (e instanceof ImportError) return res.status(400).json({ error: e.message });
+    throw e;
   }
+  if (!source.rows.length) return res.status(400).json({ error: 'No rows found in the upload' });
+
+  const changed = []; // { row, action, before, after } per written finding, for the audit log
+  const plan = issues.update((data) => {
+    const planned = planImport(data, source.rows, { onConflict });
+    if (dryRun || !planned.some((r) => r.action === 'create' || r.action === 'update')) return noWrite(planned);
+    const befores = new Map(
+      planned
+        .filter((r) => r.action === 'update')
+        .map((r) => [r.row, structuredClone(findByHeader(data, r.fields.sem_header).st)])
+    );
+    const applied = applyImport(data, planned);
+    for (const r of applied) {
+      if (r.action !== 'create' && r.action !== 'update') continue;
+      const after = structuredClone(findByHeader(data, r.fields.sem_header).st);
+      changed.push({ row: r.row, action: r.action, before: befores.get(r.row) ?? null, after });
+    }
+    return applied;
+  });
+  for (const c of changed) {
+    revisions.record(c.after.sem_id, { before: c.before, after: c.after, user: req.user, action: 'import' });
+    audit.record({
+      user: req.user,
+      action: `issue.${c.action}`,
+      target: findingTarget(c.after),
+      before: c.before,
+      after: c.after,
+      details: { via: 'import', format: String(p.format || ''), row: c.row },
+    });
+  }
+
+  res.json({
+    ok: true,
+    dryRun,
+    summary: summarize(plan),
+    rows: plan.map(({ location, ...row }) => ({
+      ...row,
+      location: location ? `${location.section} › ${location.subSection}` : null,
+    })),
+    columns: source.columns,
+    mapping: source.mapping,
+  });
+});
+
+/* ---------- Export ---------- */
+// GET /api/export/catalog -> ?format=csv|json&q=&category=&section=&minSeverity=&ids= -> file download
+// POST takes the same fields as a JSON body (long id lists don't fit in a URL)
+function exportCatalog(req, res) {
+  const params = req.method === 'POST' ? req.body || {} : req.query;
+  const format = params.format === 'json' ? 'json' : 'csv';
+  const doc = filterCatalog(issues.read(), parseFilters(params));
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  res.setHeader('Content-Disposition', `attachment; filename="findings-${stamp}.${format}"`);
+  if (format === 'json') return res.type('application/json').send(JSON.stringify(doc, null, 2));
+  res.type('text/csv; charset=utf-8').send(catalogToCsv(doc));
 }
+app.get('/api/export/catalog', canRead, exportCatalog);
+app.post('/api/export/catalog', canRead, exportCatalog);
+
+// POST /api/export/runbook -> { issueId, answer?, citations?, conversationId? } -> Markdown download
+// Without `answer`, the last assistant message of `conversationId` is used.
+app.post('/api/export/runbook', canRead, (req, res) => {
+  const p = req.body || {};
+  const rec = findFinding(issues.read(), String(p.issueId || ''));
+  if (!rec) return res.status(404).json({ error: 'Issue not found' });
 
-function writeJson(obj) {
-  ensureDir();
-  fs.writeFileSync(DATA_FILE, JSON.stringify(obj, null, 2), 'utf8');
+  let answer = typeof p.answer === 'string' ? p.answer : '';
+  let citations = Array.isArray(p.citations) ? p.citations.filter((c) => c && c.id && c.url) : [];
+  if (!answer && p.conversationId) {
+    const conv = ownConversation(req, String(p.conversationId));
+    if (!conv) return res.status(404).json({ error: 'Conversation not found' });
+    const last = [...conv.messages].reverse().find((m) => m.role === 'assistant');
+    answer = last?.content || '';
+    citations = last?.citations || [];
+  }
+
+  const md = runbookMarkdown(rec, { answer, citations, author: req.user?.username, severityLevels: severity.levels() });
+  res.setHeader('Content-Disposition', `attachment; filename="runbook-${slugify(rec.st.sem_header, 'finding')}.md"`);
+  res.type('text/markdown; charset=utf-8').send(md);
+});
+
+/* ---------- Conversations (Copilot history) ---------- */
+
+/** The conversation when the caller started it (admins: any), else null, so others' ids answer 404 */
+function ownConversation(req, id) {
+  const conv = conversations.get(id);
+  if (!conv || (conv.userId !== req.user.id && req.user.role !== 'admin')) return null;
+  return conv;
 }
 
-/* ---------- Health ---------- */
-app.get('/api/health', (_req, res) => {
-  res.json({ ok: true, dataDir: DATA_DIR });
+// GET list -> ?issueId= -> { conversations: [{ id, issueId, userId, title, createdAt, updatedAt, messageCount }] }
+// Only the caller's own conversations.
+app.get('/api/conversations', canRead, (req, res) => {
+  const issueId = req.query.issueId ? String(req.query.issueId) : undefined;
+  res.json({ conversations: conversations.list({ issueId, userId: req.user.id }) });
 });
 
-/* ---------- Issues (CRUD) ---------- */
-// GET all (nested shape)
-app.get('/api/issues', (req, res) => {
-  const data = readJson();
-  res.json(data);
+// GET one (with messages)
+app.get('/api/conversations/:id', canRead, (req, res) => {
+  const conv = ownConversation(req, req.params.id);
+  if (!conv) return res.status(404).json({ error: 'Not found' });
+  res.json(conv);
 });
 
-// POST create new finding
-app.post('/api/issues', (req, res) => {
+// POST create -> { issueId, title?, messages? }
+app.post('/api/conversations', canRead, (req, res) => {
   const p = req.body || {};
-  if (!p.sem_header || typeof p.sem_header !== 'string') {
-    return res.status(400).json({ error: 'sem_header (Title) is required' });
-  }
-
-  const data = readJson();
-
-  // Ensure base structure
-  if (!Array.isArray(data.sections)) data.sections = [];
-  if (data.sections.length === 0) data.sections.push({ title: 'Default Section', sub_sections: [] });
-  const section = data.sections[0];
-  if (!Array.isArray(section.sub_sections)) section.sub_sections = [];
-  if (section.sub_sections.length === 0)
-    section.sub_sections.push({ title: 'Default Subsection', finding_templates: [] });
-  const sub = section.sub_sections[0];
-  if (!Array.isArray(sub.finding_templates)) sub.finding_templates = [];
-
-  // Unique by sem_header
-  const exists = sub.finding_templates.some((ft) => ft?.sem_template?.sem_header === p.sem_header);
-  if (exists) return res.status(409).json({ error: 'An issue with this sem_header already exists' });
-
-  const sem_template = {
-    sem_header: String(p.sem_header).trim(),
-    sem_category: p.sem_category || 'Configuration Changes',
-    severity_score:
-      typeof p.severity_score === 'number' ? p.severity_score : Number(p.severity_score || 0),
-    sem_long_description: p.sem_long_description || '',
-    sem_recommendations: Array.isArray(p.sem_recommendations) ? p.sem_recommendations : [],
-    sem_resolution_instruction: Array.isArray(p.sem_resolution_instruction)
-      ? p.sem_resolution_instruction
-      : p.sem_resolution_instruction
-      ? [p.sem_resolution_instruction]
-      : [],
-  };
-
-  sub.finding_templates.push({ sem_template });
-  writeJson(data);
-  return res.status(201).json({ ok: true, created: sem_template });
-});
-
-// PUT update by id (id = original sem_header)
-app.put('/api/issues/:id', (req, res) => {
-  const id = req.params.id;
+  if (!p.issueId || typeof p.issueId !== 'string') {
+    return res.status(400).json({ error: 'issueId is required' });
+  }
+  if (p.messages != null && !Array.isArray(p.messages)) {
+    return res.status(400).json({ error: 'messages must be an array' });
+  }
+  res.status(201).json(conversations.create(p, req.user));
+});
+
+// PUT rename and/or replace messages -> { title?, messages? }
+app.put('/api/conversations/:id', canRead, (req, res) => {
   const p = req.body || {};
-  const data = readJson();
-
-  for (const sec of data.sections || []) {
-    for (const sub of sec.sub_sections || []) {
-      for (const ft of sub.finding_templates || []) {
-        const st = ft.sem_template || {};
-        if (st.sem_header === id) {
-          if (p.sem_header != null) st.sem_header = String(p.sem_header);
-          if (p.sem_category != null) st.sem_category = String(p.sem_category);
-          if (p.severity_score != null) st.severity_score = Number(p.severity_score);
-          if (p.sem_long_description != null) st.sem_long_description = String(p.sem_long_description);
-          if (p.sem_recommendations != null)
-            st.sem_recommendations = Array.isArray(p.sem_recommendations) ? p.sem_recommendations : [];
-          if (p.sem_resolution_instruction != null) {
-            st.sem_resolution_instruction = Array.isArray(p.sem_resolution_instruction)
-              ? p.sem_resolution_instruction
-              : p.sem_resolution_instruction
-              ? [p.sem_resolution_instruction]
-              : [];
-          }
-          writeJson(data);
-          return res.json({ ok: true, updated: st });
-        }
-      }
-    }
+  if (p.messages != null && !Array.isArray(p.messages)) {
+    return res.status(400).json({ error: 'messages must be an array' });
   }
-  return res.status(404).json({ error: 'Not found' });
+  if (!ownConversation(req, req.params.id)) return res.status(404).json({ error: 'Not found' });
+  const conv = conversations.update(req.params.id, p);
+  if (!conv) return res.status(404).json({ error: 'Not found' });
+  res.json(conv);
 });
 
-// DELETE by id (id = sem_header)
-app.delete('/api/issues/:id', (req, res) => {
-  const id = req.params.id;
-  const data = readJson();
+app.delete('/api/conversations/:id', canRead, (req, res) => {
+  if (!ownConversation(req, req.params.id) || !conversations.remove(req.params.id)) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  res.json({ ok: true, deleted: req.params.id });
+});
 
-  for (const sec of data.sections || []) {
-    for (const sub of sec.sub_sections || []) {
-      const before = (sub.finding_templates || []).length;
-      sub.finding_templates = (sub.finding_templates || []).filter(
-        (ft) => ft?.sem_template?.sem_header !== id
-      );
-      if (sub.finding_templates.length !== before) {
-        writeJson(data);
-        return res.json({ ok: true, deleted: id });
-      }
-    }
+/* ---------- Workflow (remediation status per finding) ---------- */
+
+// GET all -> { statuses, items: { [issueId]: { status, owner, dueDate, notes, updatedAt, updatedBy } } }
+// Findings missing from items are open and unassigned.
+app.get('/api/workflow', canRead, (_req, res) => {
+  res.json({ statuses: WORKFLOW_STATUSES, items: workflow.list() });
+});
+
+// GET one (with history: [{ at, by, changes: { field: [from, to] } }])
+app.get('/api/workflow/:issueId', canRead, (req, res) => {
+  const hit = findFinding(issues.read(), req.params.issueId);
+  if (!hit) return res.status(404).json({ error: 'Not found' });
+  res.json(workflow.get(hit.st.sem_id || req.params.issueId));
+});
+
+// PUT change -> { status?, owner?, dueDate? (YYYY-MM-DD or null), notes? } -> state with history
+app.put('/api/workflow/:issueId', canEdit, (req, res) => {
+  const hit = findFinding(issues.read(), req.params.issueId);
+  if (!hit) return res.status(404).json({ error: 'Not found' });
+  const id = hit.st.sem_id || req.params.issueId;
+  try {
+    const fields = ({ status, owner, dueDate, notes }) => ({ status, owner, dueDate, notes });
+    const before = fields(workflow.get(id));
+    const next = workflow.update(id, req.body, req.user);
+    audit.record({
+      user: req.user,
+      action: 'workflow.update',
+      target: findingTarget(hit.st),
+      before,
+      after: fields(next),
+    });
+    res.json(next);
+  } catch (e) {
+    if (e instanceof WorkflowError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+});
+
+/* ---------- Severity levels (named score bands used by every view and prompt) ---------- */
+
+// One audit field per level, so the viewer shows which band changed
+const severityFields = (levels) =>
+  Object.fromEntries(levels.map((l) => [l.name, `from ${l.min} · ${l.color} · ${l.icon}`]));
+
+// GET -> { levels: [{ name, min, color, icon }] (highest band first), icons: [names] }
+app.get('/api/severity', canRead, (_req, res) => {
+  res.json({ levels: severity.levels(), icons: SEVERITY_ICONS });
+});
+
+// PUT replace (admin) -> { levels } -> { levels }; the lowest level must start at 0
+app.put('/api/severity', isAdmin, (req, res) => {
+  try {
+    const before = severity.levels();
+    const levels = severity.update(req.body?.levels, req.user);
+    audit.record({
+      user: req.user,
+      action: 'severity.update',
+      target: { type: 'severity', id: 'levels', label: 'Severity levels' },
+      before: severityFields(before),
+      after: severityFields(levels),
+    });
+    res.json({ levels });
+  } catch (e) {
+    if (e instanceof SeverityError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+});
+
+// POST reset to the built-in levels (admin) -> { levels }
+app.post('/api/severity/reset', isAdmin, (req, res) => {
+  const before = severity.levels();
+  const levels = severity.reset();
+  audit.record({
+    user: req.user,
+    action: 'severity.update',
+    target: { type: 'severity', id: 'levels', label: 'Severity levels' },
+    before: severityFields(before),
+    after: severityFields(levels),
+    details: { reset: true },
+  });
+  res.json({ levels });
+});
+
+/* ---------- Prompt templates (system prompt, issue context, quick actions) ---------- */
+
+const promptTarget = (p) => ({ type: 'prompt', id: p.id, label: p.label });
+const promptFields = (p) => (p ? { label: p.label, template: p.template } : null);
+
+// GET list -> { prompts: [{ id, kind, label, template, builtIn, updatedAt? }], variables: [{ name, description }] }
+app.get('/api/prompts', canRead, (_req, res) => {
+  res.json({ prompts: prompts.list(), variables: PROMPT_VARIABLES });
+});
+
+// POST render -> { id? | template?, issueId?, question? } -> { text, unknown: [names] }
+// Quick-action buttons render their saved template; the Settings editor previews unsaved text.
+app.post('/api/prompts/render', canRead, (req, res) => {
+  const p = req.body || {};
+  const saved = p.id ? prompts.get(String(p.id)) : null;
+  if (p.id && !saved) return res.status(404).json({ error: 'Prompt not found' });
+  const template = saved ? saved.template : typeof p.template === 'string' ? p.template : '';
+  if (!template.trim()) return res.status(400).json({ error: 'id or template is required' });
+
+  let vars = {};
+  if (p.issueId) {
+    const rec = findFinding(issues.read(), String(p.issueId));
+    if (!rec) return res.status(404).json({ error: 'Issue not found' });
+    vars = issueVariables(rec, severity.levels());
+  }
+  // Chat-time values, shown as placeholders in a preview
+  vars.question = typeof p.question === 'string' && p.question.trim() ? p.question.trim() : '(the user\'s question)';
+  vars.passages = '(reference passages picked for the question are inserted here)';
+  res.json({ text: renderTemplate(template, vars), unknown: unknownVariables(template) });
+});
+
+// POST create quick action (admin) -> { label, template }
+app.post('/api/prompts', isAdmin, (req, res) => {
+  try {
+    const prompt = prompts.create(req.body || {});
+    audit.record({
+      user: req.user,
+      action: 'prompt.create',
+      target: promptTarget(prompt),
+      after: promptFields(prompt),
+    });
+    res.status(201).json(prompt);
+  } catch (e) {
+    if (e instanceof PromptError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+});
+
+// PUT button order (admin) -> { ids: [actionId, ...] } -> { prompts }
+app.put('/api/prompts/order', isAdmin, (req, res) => {
+  const ids = req.body?.ids;
+  if (!Array.isArray(ids)) return res.status(400).json({ error: 'ids must be an array' });
+  const list = prompts.reorder(ids.map(String));
+  const order = list.filter((x) => x.kind === 'action').map((x) => x.id);
+  audit.record({
+    user: req.user,
+    action: 'prompt.reorder',
+    target: { type: 'prompt', id: '', label: 'Quick actions' },
+    details: { order },
+  });
+  res.json({ prompts: list });
+});
+
+// PUT edit (admin) -> { label?, template? }
+app.put('/api/prompts/:id', isAdmin, (req, res) => {
+  try {
+    const before = prompts.get(req.params.id);
+    const prompt = prompts.update(req.params.id, req.body || {});
+    if (!prompt) return res.status(404).json({ error: 'Not found' });
+    audit.record({
+      user: req.user,
+      action: 'prompt.update',
+      target: promptTarget(prompt),
+      before: promptFields(before),
+      after: promptFields(prompt),
+    });
+    res.json(prompt);
+  } catch (e) {
+    if (e instanceof PromptError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+});
+
+// POST reset a built-in template to its default text (admin)
+app.post('/api/prompts/:id/reset', isAdmin, (req, res) => {
+  const before = prompts.get(req.params.id);
+  const prompt = prompts.reset(req.params.id);
+  if (!prompt) return res.status(404).json({ error: 'No default for this prompt' });
+  audit.record({
+    user: req.user,
+    action: 'prompt.reset',
+    target: promptTarget(prompt),
+    before: before ? promptFields(before) : null,
+    after: promptFields(prompt),
+  });
+  res.json(prompt);
+});
+
+// DELETE quick action (admin); the system and context templates can only be reset
+app.delete('/api/prompts/:id', isAdmin, (req, res) => {
+  try {
+    const before = prompts.get(req.params.id);
+    if (!prompts.remove(req.params.id)) return res.status(404).json({ error: 'Not found' });
+    audit.record({
+      user: req.user,
+      action: 'prompt.delete',
+      target: promptTarget(before),
+      before: promptFields(before),
+    });
+    res.json({ ok: true, deleted: req.params.id });
+  } catch (e) {
+    if (e instanceof PromptError) return res.status(400).json({ error: e.message });
+    throw e;
   }
-  return res.status(404).json({ error: 'Not found' });
 });
 
 /* ---------- Scrape ---------- */
-// POST /api/scrape -> { urls: string[] } -> { results: [{url, ok, text?, status?}] }
-app.post('/api/scrape', async (req, res) => {
+// Cache TTL in seconds (default 1 day); stale entries are revalidated with ETag/Last-Modified
+const scrapeCache = createScrapeCache(DATA_DIR, {
+  ttlMs: Number(process.env.SCRAPE_CACHE_TTL_SECONDS ?? 86400) * 1000,
+});
+// Outbound URL policy (SSRF guard); see lib/urlPolicy.js for the SCRAPE_* env vars
+const scrapePolicy = loadUrlPolicy();
+// Optional headless rendering for client-side docs; see lib/render.js for the SCRAPE_RENDER* env vars
+const scrapeRenderer = createRenderer(loadRenderConfig(), scrapePolicy);
+const scrapeOptions = { cache: scrapeCache, policy: scrapePolicy, renderer: scrapeRenderer };
+
+// POST /api/scrape -> { urls: string[] }
+//   -> { results: [{ url, ok, text?, format?, title?, rendered?, status?, reason?, error?, cached?, fetchedAt? }] }
+app.post('/api/scrape', canRead, async (req, res) => {
   try {
     const { urls } = req.body || {};
     if (!Array.isArray(urls) || urls.length === 0) {
       return res.status(400).json({ error: 'urls must be a non-empty array of strings' });
     }
 
-    const out = await Promise.all(
-      urls.map(async (u) => {
-        const url = String(u || '').trim();
-        if (!url) return { url, ok: false, status: 400 };
-        try {
-          const controller = new AbortController();
-          const t = setTimeout(() => controller.abort(), 15000);
-          const r = await fetch(url, { signal: controller.signal, redirect: 'follow' });
-          clearTimeout(t);
-          if (!r.ok) return { url, ok: false, status: r.status };
-
-          const html = await r.text();
-          const $ = cheerio.load(html);
-          $('script, style, noscript').remove();
-          $('[aria-hidden="true"], [style*="display:none"]').remove();
-
-          const text = $('body').text().replace(/\s+/g, ' ').trim();
-          const MAX = 15000;
-          const clipped = text.length > MAX ? text.slice(0, MAX) : text;
-
-          return { url, ok: true, text: clipped };
-        } catch (e) {
-          return { url, ok: false, status: 0 };
-        }
-      })
-    );
-
+    const out = await Promise.all(urls.map((u) => scrapeUrl(u, scrapeOptions)));
     res.json({ results: out });
   } catch (e) {
     console.error('scrape error:', e);
@@ -240,53 +1055,346 @@ app.post('/api/scrape', async (req, res) => {
   }
 });
 
-/* ---------- Chat (OpenAI) ---------- */
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// GET cache entries -> { ttlSeconds, entries: [{ url, fetchedAt, etag, lastModified, size, fresh }] }
+app.get('/api/scrape/cache', isAdmin, (_req, res) => {
+  res.json({ ttlSeconds: scrapeCache.ttlMs / 1000, entries: scrapeCache.list() });
+});
 
-// POST /api/chat -> { messages: [...], sources?: [{url,text}] } -> { reply }
-app.post('/api/chat', async (req, res) => {
-  try {
-    const { messages, sources } = req.body || {};
-    if (!Array.isArray(messages) || messages.length === 0) {
-      return res.status(400).json({ error: 'messages must be a non-empty array' });
+// DELETE cache -> ?url= purges one page, no query purges everything
+app.delete('/api/scrape/cache', isAdmin, (req, res) => {
+  let key;
+  if (req.query.url) {
+    try {
+      key = normalizeUrl(String(req.query.url));
+    } catch {
+      return res.status(400).json({ error: 'url is not a valid URL' });
     }
-    if (!process.env.OPENAI_API_KEY) {
-      return res.status(401).json({ error: 'Missing OPENAI_API_KEY on server' });
+  }
+  res.json({ ok: true, purged: scrapeCache.purge(key) });
+});
+
+/* ---------- Chat (LLM provider) ---------- */
+
+const retrievalConfig = loadRetrievalConfig();
+const MAX_CHAT_SOURCES = 8;
+const usageConfig = loadUsageConfig();
+const usage = createUsageStore(DATA_DIR, usageConfig);
+// Reply size held against the daily budgets while a chat runs (the Anthropic provider's max_tokens)
+const RESERVED_REPLY_TOKENS = 2048;
+// Requests without a price cost null and never count against the cost budgets
+const costBudgets = usageConfig.dailyCostPerUser || usageConfig.dailyCostTotal;
+if (costBudgets && !priceFor(usageConfig, llmConfig.provider, llmConfig.model)) {
+  console.warn(
+    `Cost budgets are set but model "${llmConfig.model}" has no known price, so they will never apply; ` +
+      'set LLM_PRICE_INPUT_PER_MTOK / LLM_PRICE_OUTPUT_PER_MTOK'
+  );
+}
+
+/**
+ * Resolve the request's sources to page text: inline `text` is used as-is, URL-only sources are
+ * scraped in parallel through the scrape cache (same policy as /api/scrape). Returns the usable
+ * pages plus one status per requested source: [{ url, ok, cached?, reason?, error? }].
+ */
+async function loadSources(sources) {
+  const list = (Array.isArray(sources) ? sources : []).filter((s) => s && s.url).slice(0, MAX_CHAT_SOURCES);
+  const loaded = await Promise.all(
+    list.map(async (s) => {
+      const url = String(s.url);
+      if (typeof s.text === 'string' && s.text) return { page: { url, text: s.text }, status: { url, ok: true } };
+      const r = await scrapeUrl(url, scrapeOptions);
+      if (r.ok && r.text) return { page: { url: r.url, text: r.text }, status: { url, ok: true, cached: !!r.cached } };
+      const status = r.ok
+        ? { url, ok: false, reason: 'empty', error: 'No readable text on the page' }
+        : { url, ok: false, reason: r.reason, error: r.error };
+      return { page: null, status };
+    })
+  );
+  return { pages: loaded.map((l) => l.page).filter(Boolean), statuses: loaded.map((l) => l.status) };
+}
+
+/** Ranked passages for the latest question, within the RAG_CONTEXT_TOKENS budget (plus per-source status) */
+async function retrieveContext(messages, sources, signal, rec = null) {
+  const { pages, statuses } = await loadSources(sources);
+  if (!pages.length) return { passages: [], usedTokens: 0, totalChunks: 0, sources: statuses };
+  const query = retrievalQuery(messages, rec?.st.sem_header);
+  const picked = await selectPassages({ query, sources: pages, config: retrievalConfig, llm, signal });
+  return { ...picked, sources: statuses };
+}
+
+/** The catalog finding a chat request is about (body.issueId), or null */
+function chatFinding(body) {
+  return body?.issueId ? findFinding(issues.read(), String(body.issueId)) : null;
+}
+
+/** What the client gets back about the passages in the prompt (no full text) */
+function passageSummaries(passages) {
+  return passages.map(({ id, source, url, chunk, score, text }) => ({
+    id,
+    source,
+    url,
+    chunk,
+    score,
+    excerpt: text.length > 300 ? `${text.slice(0, 300)}…` : text,
+  }));
+}
+
+/** {{passages}}: the selected reference passages with the inline-citation instructions */
+function passageBlock(passages) {
+  if (!passages.length) return '';
+  return (
+    `Use these reference passages when helpful (numbered by source.passage). Cite them inline right after ` +
+    `the statement they support, using the id in square brackets, e.g. [1.2] or [1.2, 2.1]:\n${passages
+      .map((p) => `[${p.id}] ${p.url}\n${p.text}\n`)
+      .join('\n')}`
+  );
+}
+
+/**
+ * Prepend the system prompt template (with the selected reference passages) to the conversation.
+ * With a finding, the first user question is wrapped in the issue context template. Passages are
+ * appended when an edited system prompt dropped {{passages}}, since citations depend on them.
+ */
+function buildChatMessages(messages, passages = [], rec = null) {
+  const vars = { ...(rec ? issueVariables(rec, severity.levels()) : {}), passages: passageBlock(passages) };
+  const system = prompts.get('system');
+  let content = renderTemplate(system.template, vars);
+  if (vars.passages && !/\{\{\s*passages\s*\}\}/.test(system.template)) content += `\n\n${vars.passages}`;
+
+  let first = Boolean(rec);
+  const context = rec ? prompts.get('context') : null;
+  const conversation = messages.map((m) => {
+    if (!first || m.role !== 'user') return m;
+    first = false;
+    return { role: 'user', content: renderTemplate(context.template, { ...vars, question: m.content }) };
+  });
+
+  return [{ role: 'system', content }, ...conversation];
+}
+
+/**
+ * Answer 429 (with Retry-After) when the user is over the rate limit or a daily budget; true when rejected.
+ * Otherwise the request's worst case (history, a full passage budget, a full reply) is held against the
+ * budgets as req.usageHold until recordUsage() or releaseUsage() settles it.
+ */
+function rejectOverLimit(req, res, messages) {
+  const { denied, hold } = usage.admit(req.user, {
+    provider: llm.name,
+    model: llm.model,
+    promptTokens: messages.reduce((n, m) => n + approxTokens(m.content), 0) + retrievalConfig.budgetTokens,
+    completionTokens: RESERVED_REPLY_TOKENS,
+  });
+  if (!denied) {
+    req.usageHold = hold;
+    return false;
+  }
+  res.setHeader('Retry-After', String(denied.retryAfter));
+  res.status(429).json(denied);
+  return true;
+}
+
+/**
+ * Log one LLM call to the usage store (without provider-reported counts the tokens are estimated from
+ * the text) and to the audit log: issue, templates applied, quick action (body.promptId) and model.
+ */
+function recordUsage(req, route, chatMessages, reply, reported, status = 'ok') {
+  const rec = chatFinding(req.body);
+  const question = [...(req.body?.messages || [])].reverse().find((m) => m?.role === 'user')?.content;
+  audit.record({
+    user: req.user,
+    action: 'chat',
+    target: rec ? findingTarget(rec.st) : null,
+    details: {
+      route,
+      promptId: req.body?.promptId ? String(req.body.promptId) : null,
+      templates: rec ? ['system', 'context'] : ['system'],
+      provider: llm.name,
+      model: llm.model,
+      question: typeof question === 'string' ? question.slice(0, 500) : '',
+      status,
+    },
+  });
+  usage.record({
+    user: req.user,
+    issueId: req.body?.issueId,
+    route,
+    provider: llm.name,
+    model: llm.model,
+    usage: reported || {
+      promptTokens: chatMessages.reduce((n, m) => n + approxTokens(m.content), 0),
+      completionTokens: approxTokens(reply),
+    },
+    estimated: !reported,
+    status,
+    hold: req.usageHold,
+  });
+}
+
+/** Drop the request's budget hold when no usage was recorded (failed before or without a reply) */
+function releaseUsage(req) {
+  usage.release(req.usageHold);
+}
+
+function chatErrorMessage(e) {
+  return (
+    e?.response?.data?.error?.message ||
+    e?.error?.message ||
+    e?.message ||
+    'chat failed'
+  );
+}
+
+/** The request's validated chat history, or null after answering 400 { error, fields } (see lib/schema.js) */
+function chatMessagesOr400(req, res) {
+  try {
+    return validateChatMessages(req.body?.messages);
+  } catch (e) {
+    if (!(e instanceof ValidationError)) throw e;
+    res.status(400).json({ error: e.message, fields: e.fields });
+    return null;
+  }
+}
+
+// POST /api/chat -> { messages: [...], sources?: [{ url, text? }], issueId?, promptId? }
+//   -> { reply, passages, citations, sources }
+// Sources without text are read from the scrape cache; pages are chunked and only the passages
+// ranked best for the question go into the prompt (see lib/retrieval.js). With issueId the prompt
+// templates (lib/prompts.js) get the finding's fields and the first question is wrapped in the
+// issue context template. Every call is logged to the usage store (tokens, model, cost, issue,
+// user) and the audit log (promptId names the quick action the question came from); over a rate
+// limit or daily budget -> 429.
+app.post('/api/chat', canRead, async (req, res) => {
+  try {
+    const { sources } = req.body || {};
+    const messages = chatMessagesOr400(req, res);
+    if (!messages) return;
+    if (!llm) {
+      return res.status(401).json({ error: llmConfigError });
     }
+    if (rejectOverLimit(req, res, messages)) return;
 
-    const sourceBlock =
-      Array.isArray(sources) && sources.length
-        ? `\n\nUse these references when helpful:\n${sources
-            .map((s, i) => `(${i + 1}) ${s.url}\n${(s.text || '').slice(0, 1200)}\n`)
-            .join('\n')}`
-        : '';
-
-    const systemMsg = {
-      role: 'system',
-      content:
-        'You are a security remediation copilot. Be concise, step-by-step, and cite references when possible.' +
-        sourceBlock,
-    };
+    const rec = chatFinding(req.body);
+    const context = await retrieveContext(messages, sources, undefined, rec);
+    const { passages } = context;
+    const chatMessages = buildChatMessages(messages, passages, rec);
+    const { reply, usage: reported } = await llm.complete({ messages: chatMessages });
+    recordUsage(req, 'chat', chatMessages, reply, reported);
+    res.json({
+      reply,
+      passages: passageSummaries(passages),
+      citations: extractCitations(reply, passages),
+      sources: context.sources,
+    });
+  } catch (e) {
+    console.error('chat error:', e);
+    res.status(500).json({ error: chatErrorMessage(e) });
+  } finally {
+    releaseUsage(req);
+  }
+});
+
+// POST /api/chat/stream -> same body as /api/chat -> NDJSON lines:
+//   {"type":"context","passages":[...],"sources":[{ url, ok, reason? }]} {"type":"delta","content":"..."} ...
+//   {"type":"citations","citations":[...]} {"type":"done"} | {"type":"error","error":"..."}
+// Closing the request (client abort / Stop button) aborts the upstream generation.
+app.post('/api/chat/stream', canRead, async (req, res) => {
+  const { sources } = req.body || {};
+  const messages = chatMessagesOr400(req, res);
+  if (!messages) return;
+  if (!llm) {
+    return res.status(401).json({ error: llmConfigError });
+  }
+  if (rejectOverLimit(req, res, messages)) return;
 
-    const msgPayload = [systemMsg, ...messages];
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
 
-    const resp = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // choose a model available on your account
-      temperature: 0.2,
-      messages: msgPayload,
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no'); // disable proxy buffering (nginx/Render)
+  res.flushHeaders();
+
+  const send = (obj) => res.write(JSON.stringify(obj) + '\n');
+  let chatMessages = null;
+  let reply = '';
+  let reported = null;
+
+  try {
+    const rec = chatFinding(req.body);
+    const context = await retrieveContext(messages, sources, controller.signal, rec);
+    const { passages, usedTokens, totalChunks } = context;
+    send({ type: 'context', passages: passageSummaries(passages), usedTokens, totalChunks, sources: context.sources });
+
+    chatMessages = buildChatMessages(messages, passages, rec);
+    const stream = llm.stream({
+      messages: chatMessages,
+      signal: controller.signal,
+      onUsage: (u) => (reported = u),
     });
 
-    const reply = resp.choices?.[0]?.message?.content || '';
-    res.json({ reply });
+    for await (const delta of stream) {
+      reply += delta;
+      send({ type: 'delta', content: delta });
+    }
+    recordUsage(req, 'chat/stream', chatMessages, reply, reported);
+    send({ type: 'citations', citations: extractCitations(reply, passages) });
+    send({ type: 'done' });
   } catch (e) {
-    console.error('chat error:', e);
-    const msg =
-      e?.response?.data?.error?.message ||
-      e?.error?.message ||
-      e?.message ||
-      'chat failed';
-    res.status(500).json({ error: msg });
+    // A stopped or failed generation is still billed for what it produced
+    if (chatMessages && (controller.signal.aborted || reply)) {
+      recordUsage(req, 'chat/stream', chatMessages, reply, reported, controller.signal.aborted ? 'aborted' : 'error');
+    }
+    if (controller.signal.aborted) return; // client went away; nothing to report
+    console.error('chat stream error:', e);
+    send({ type: 'error', error: chatErrorMessage(e) });
+  } finally {
+    releaseUsage(req);
+    res.end();
+  }
+});
+
+/* ---------- Usage (LLM tokens and cost) ---------- */
+
+// GET /api/usage -> ?days=30&userId= -> { scope, limits, days, since, totals, today, byDay, byUser, byModel,
+//   byIssue: [{ issueId, header, ... }], recent }
+// Admins see everyone (or one user with ?userId=); other roles only see their own usage.
+app.get('/api/usage', canRead, (req, res) => {
+  const days = Math.min(Math.max(Math.floor(Number(req.query.days)) || 30, 1), 365);
+  const admin = req.user.role === 'admin';
+  const userId = admin ? String(req.query.userId || '') || undefined : req.user.id;
+  const summary = usage.summary({ days, userId });
+  const doc = issues.read();
+  res.json({
+    scope: userId ? 'user' : 'all',
+    limits: usage.limits,
+    ...summary,
+    byIssue: summary.byIssue.map((row) => ({ ...row, header: findFinding(doc, row.issueId)?.st.sem_header || '' })),
+  });
+});
+
+/* ---------- Audit log ---------- */
+
+// GET /api/audit -> ?action=&actor=&target=&from=&to=&q=&limit=&offset=
+//   -> { actions, total, entries: [{ id, at, actor, action, target, changes?, details? }] } (newest first)
+app.get('/api/audit', isAdmin, (req, res) => {
+  const limit = Math.min(Math.max(Math.floor(Number(req.query.limit)) || 100, 1), 500);
+  const offset = Math.max(Math.floor(Number(req.query.offset)) || 0, 0);
+  res.json({ actions: AUDIT_ACTIONS, ...audit.query(parseAuditFilters(req.query), { limit, offset }) });
+});
+
+// GET /api/audit/export -> same filters + format=csv|jsonl -> file download (oldest first)
+app.get('/api/audit/export', isAdmin, (req, res) => {
+  const format = req.query.format === 'jsonl' ? 'jsonl' : 'csv';
+  const entries = audit.all(parseAuditFilters(req.query));
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  res.setHeader('Content-Disposition', `attachment; filename="audit-${stamp}.${format}"`);
+  if (format === 'jsonl') {
+    return res.type('application/x-ndjson').send(entries.map((e) => JSON.stringify(e) + '\n').join(''));
   }
+  res.type('text/csv; charset=utf-8').send(auditToCsv(entries));
 });
 
 /* ---------- Start ---------- */
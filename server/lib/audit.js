@@ -0,0 +1,167 @@
+// server/lib/audit.js
+/* Append-only audit log: who changed the catalog, workflow, prompts or severity levels, and who asked what */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { csvCell } from './exporter.js';
+
+/** Actions the server records; the viewer offers them as filters */
+export const AUDIT_ACTIONS = [
+  'issue.create',
+  'issue.update',
+  'issue.delete',
+  'issue.restore',
+  'issue.purge',
+  'section.create',
+  'section.rename',
+  'section.delete',
+  'subsection.create',
+  'subsection.rename',
+  'subsection.delete',
+  'workflow.update',
+  'prompt.create',
+  'prompt.update',
+  'prompt.reorder',
+  'prompt.reset',
+  'prompt.delete',
+  'severity.update',
+  'chat',
+];
+
+const CSV_COLUMNS = ['at', 'actor', 'role', 'action', 'target_type', 'target_id', 'target_label', 'changes', 'details'];
+
+function same(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level diff of two flat records (e.g. sem_template): { field: [before, after] } for every field
+ * that differs. A missing side is null, so a create lists every field as [null, value] and a delete
+ * as [value, null].
+ */
+export function diffFields(before, after) {
+  const a = before || {};
+  const b = after || {};
+  const changes = {};
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (!same(a[key], b[key])) changes[key] = [a[key] ?? null, b[key] ?? null];
+  }
+  return changes;
+}
+
+/**
+ * Filters from a query string: { action?, actor?, target?, from?, to?, q? }. `action` matches a whole
+ * action or a prefix ("issue" -> issue.*), `actor` a username or user id, `target` a target id,
+ * from/to are inclusive UTC days (YYYY-MM-DD) and `q` searches labels and changed values.
+ */
+export function parseAuditFilters(query = {}) {
+  const str = (v) => (v == null ? '' : String(v).trim());
+  const day = (v) => (/^\d{4}-\d{2}-\d{2}$/.test(str(v)) ? str(v) : '');
+  return {
+    action: str(query.action),
+    actor: str(query.actor),
+    target: str(query.target),
+    from: day(query.from),
+    to: day(query.to),
+    q: str(query.q).toLowerCase(),
+  };
+}
+
+function matches(e, f) {
+  if (f.action && e.action !== f.action && !e.action.startsWith(`${f.action}.`)) return false;
+  if (f.actor && e.actor?.username !== f.actor && e.actor?.id !== f.actor) return false;
+  if (f.target && e.target?.id !== f.target) return false;
+  const day = e.at.slice(0, 10);
+  if (f.from && day < f.from) return false;
+  if (f.to && day > f.to) return false;
+  if (f.q && !JSON.stringify([e.target, e.changes, e.details]).toLowerCase().includes(f.q)) return false;
+  return true;
+}
+
+/** Entries as CSV; changes and details are JSON in their cells */
+export function auditToCsv(entries) {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const e of entries) {
+    const row = {
+      at: e.at,
+      actor: e.actor?.username || e.actor?.id,
+      role: e.actor?.role,
+      action: e.action,
+      target_type: e.target?.type,
+      target_id: e.target?.id,
+      target_label: e.target?.label,
+      changes: e.changes ? JSON.stringify(e.changes) : '',
+      details: e.details ? JSON.stringify(e.details) : '',
+    };
+    lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(','));
+  }
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Audit log in DATA_DIR/audit.jsonl: one JSON line per event, only ever appended to (nothing in the
+ * app rewrites or prunes it). Entries are
+ *   { id, at, actor: { id, username, role }, action, target: { type, id, label }, changes?, details? }
+ * where `changes` is a diffFields() result and `details` holds action-specific facts (model, route, …).
+ */
+export function createAuditLog(dataDir) {
+  const file = path.join(dataDir, 'audit.jsonl');
+
+  function readAll() {
+    let raw;
+    try {
+      raw = fs.readFileSync(file, 'utf8');
+    } catch {
+      return [];
+    }
+    const out = [];
+    for (const line of raw.split('\n')) {
+      if (!line) continue;
+      try {
+        out.push(JSON.parse(line));
+      } catch {
+        // torn last line after a crash
+      }
+    }
+    return out;
+  }
+
+  return {
+    /**
+     * Append one event. `before`/`after` (optional) are diffed into `changes`; an update that changed
+     * nothing is not recorded. Failures are logged, never thrown: the change itself already happened.
+     */
+    record({ user, action, target, before, after, details }) {
+      const changes = before !== undefined || after !== undefined ? diffFields(before, after) : null;
+      if (changes && !Object.keys(changes).length && action.endsWith('.update')) return null;
+      const entry = {
+        id: randomUUID(),
+        at: new Date().toISOString(),
+        actor: { id: user?.id || 'anonymous', username: user?.username || '', role: user?.role || '' },
+        action,
+        target: target || null,
+        ...(changes && Object.keys(changes).length ? { changes } : {}),
+        ...(details ? { details } : {}),
+      };
+      try {
+        fs.appendFileSync(file, JSON.stringify(entry) + '\n');
+      } catch (e) {
+        console.error('audit log write failed:', e.message);
+      }
+      return entry;
+    },
+
+    /** Matching entries, newest first: { total, entries } (entries limited to offset..offset+limit) */
+    query(filters = {}, { limit = 100, offset = 0 } = {}) {
+      const hits = readAll()
+        .filter((e) => matches(e, filters))
+        .reverse();
+      return { total: hits.length, entries: hits.slice(offset, offset + limit) };
+    },
+
+    /** Every matching entry, oldest first (for export) */
+    all(filters = {}) {
+      return readAll().filter((e) => matches(e, filters));
+    },
+  };
+}
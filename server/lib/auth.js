@@ -0,0 +1,286 @@
+// server/lib/auth.js
+/* Local users (scrypt-hashed passwords), signed bearer tokens and role checks */
+import fs from 'fs';
+import path from 'path';
+import { createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+// Ordered from least to most privileged; a role includes everything below it
+export const ROLES = ['viewer', 'editor', 'admin'];
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000; // 12h
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const AUTH_SECRET_MIN = 32;
+
+export function hasRole(user, role) {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+/* ---------- Passwords ---------- */
+
+export function hashPassword(password) {
+  const salt = randomBytes(16);
+  const hash = scryptSync(String(password), salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export function verifyPassword(password, stored) {
+  const [scheme, saltB64, hashB64] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = scryptSync(String(password), Buffer.from(saltB64, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+let dummyHash;
+/** Same scrypt work as a real check, for logins without a password to check against */
+function burnVerify(password) {
+  dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+  verifyPassword(password, dummyHash);
+}
+
+/* ---------- Tokens (HMAC-signed, stateless) ---------- */
+
+function b64url(buf) {
+  return Buffer.from(buf).toString('base64url');
+}
+
+function sign(payload, secret) {
+  const body = b64url(JSON.stringify(payload));
+  const sig = b64url(createHmac('sha256', secret).update(body).digest());
+  return `${body}.${sig}`;
+}
+
+function verify(token, secret) {
+  const [body, sig] = String(token || '').split('.');
+  if (!body || !sig) return null;
+  const expected = b64url(createHmac('sha256', secret).update(body).digest());
+  if (sig.length !== expected.length || !timingSafeEqual(Buffer.from(sig), Buffer.from(expected))) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/* ---------- User store ---------- */
+
+function publicUser(u) {
+  return { id: u.id, username: u.username, role: u.role, provider: u.provider || 'local' };
+}
+
+export function createUserStore(dataDir) {
+  const file = path.join(dataDir, 'users.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return { users: [] };
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return Array.isArray(parsed?.users) ? parsed : { users: [] };
+    } catch (e) {
+      console.error('Failed to parse users file:', e);
+      return { users: [] };
+    }
+  }
+
+  function save(obj) {
+    writeJsonAtomic(file, obj);
+  }
+
+  return {
+    count() {
+      return load().users.length;
+    },
+
+    list() {
+      return load().users.map(publicUser);
+    },
+
+    findById(id) {
+      return load().users.find((u) => u.id === id) || null;
+    },
+
+    findByUsername(username) {
+      const name = String(username || '').trim().toLowerCase();
+      return load().users.find((u) => u.username.toLowerCase() === name) || null;
+    },
+
+    /** External (e.g. OIDC) user by the provider's stable subject id; never matches local accounts */
+    findBySubject(provider, subject) {
+      if (!provider || provider === 'local' || !subject) return null;
+      return load().users.find((u) => u.provider === provider && u.subject === subject) || null;
+    },
+
+    /** Create a local (password) or external (OIDC, with `subject`) user; throws on duplicate username */
+    create({ username, password, role = 'viewer', provider = 'local', subject }) {
+      if (!ROLES.includes(role)) throw new Error(`Unknown role "${role}"`);
+      const data = load();
+      const name = String(username || '').trim();
+      if (!name) throw new Error('username is required');
+      if (data.users.some((u) => u.username.toLowerCase() === name.toLowerCase())) {
+        throw new Error(`User "${name}" already exists`);
+      }
+      const user = {
+        id: randomUUID(),
+        username: name,
+        role,
+        provider,
+        ...(subject ? { subject: String(subject) } : {}),
+        passwordHash: password ? hashPassword(password) : null,
+        createdAt: new Date().toISOString(),
+      };
+      data.users.push(user);
+      save(data);
+      return publicUser(user);
+    },
+
+    /** Update role and/or password; returns null when not found */
+    update(id, { role, password }) {
+      const data = load();
+      const user = data.users.find((u) => u.id === id);
+      if (!user) return null;
+      if (role != null) {
+        if (!ROLES.includes(role)) throw new Error(`Unknown role "${role}"`);
+        user.role = role;
+      }
+      if (password) user.passwordHash = hashPassword(password);
+      save(data);
+      return publicUser(user);
+    },
+
+    remove(id) {
+      const data = load();
+      const before = data.users.length;
+      data.users = data.users.filter((u) => u.id !== id);
+      if (data.users.length === before) return false;
+      save(data);
+      return true;
+    },
+  };
+}
+
+/* ---------- Login throttling ---------- */
+
+/**
+ * Counts failed password logins per client IP and per username over a sliding 15 minute window.
+ * Env:
+ *   LOGIN_MAX_FAILURES  failures per IP and per username before logins answer 429 (default 10, 0 = unlimited)
+ */
+export function createLoginLimiter(env = process.env) {
+  const set = env.LOGIN_MAX_FAILURES != null && env.LOGIN_MAX_FAILURES !== '';
+  const max = set ? Math.max(0, Math.floor(Number(env.LOGIN_MAX_FAILURES)) || 0) : 10;
+  const failures = new Map(); // "ip:<address>" | "user:<name>" -> failure times within the window
+
+  const keys = (ip, username) => [`ip:${ip || 'unknown'}`, `user:${String(username || '').trim().toLowerCase()}`];
+
+  function recent(key, now) {
+    const times = (failures.get(key) || []).filter((t) => now - t < LOGIN_WINDOW_MS);
+    if (times.length) failures.set(key, times);
+    else failures.delete(key);
+    return times;
+  }
+
+  return {
+    /** null when the attempt may go ahead, else { code: 'rate_limited', error, retryAfter } (seconds) */
+    admit(ip, username) {
+      if (!max) return null;
+      const now = Date.now();
+      const full = keys(ip, username)
+        .map((key) => recent(key, now))
+        .filter((times) => times.length >= max);
+      if (!full.length) return null;
+      const until = Math.max(...full.map((times) => times[times.length - max] + LOGIN_WINDOW_MS));
+      return {
+        code: 'rate_limited',
+        error: 'Too many failed logins; try again later',
+        retryAfter: Math.max(1, Math.ceil((until - now) / 1000)),
+      };
+    },
+
+    fail(ip, username) {
+      if (!max) return;
+      const now = Date.now();
+      // Forget addresses and names that stopped failing, so guessing random names cannot grow the map forever
+      if (failures.size > 10000) for (const key of [...failures.keys()]) recent(key, now);
+      for (const key of keys(ip, username)) failures.set(key, [...recent(key, now), now].slice(-max));
+    },
+
+    /** A successful login clears the username's failures (the IP's stay) */
+    succeed(username) {
+      failures.delete(keys(null, username)[1]);
+    },
+  };
+}
+
+/* ---------- Auth service + middleware ---------- */
+
+/**
+ * Env:
+ *   AUTH_SECRET      HMAC key for bearer tokens, at least 32 characters (random per process if unset →
+ *                    tokens die on restart)
+ *   AUTH_DISABLED    "true" to treat every request as an admin (local development only)
+ *   ADMIN_USERNAME / ADMIN_PASSWORD  bootstrap admin created when no users exist yet
+ */
+export function createAuth({ users, env = process.env }) {
+  if (env.AUTH_SECRET && (env.AUTH_SECRET === 'change-me' || env.AUTH_SECRET.length < AUTH_SECRET_MIN)) {
+    // A guessable key lets anyone sign tokens; refuse to start rather than run with it
+    throw new Error(`AUTH_SECRET must be a random value of at least ${AUTH_SECRET_MIN} characters`);
+  }
+  const secret = env.AUTH_SECRET || randomBytes(32).toString('hex');
+  if (!env.AUTH_SECRET) console.warn('AUTH_SECRET not set; using a random key (sessions end on restart)');
+  const disabled = String(env.AUTH_DISABLED || '').toLowerCase() === 'true';
+
+  if (!disabled && users.count() === 0 && env.ADMIN_USERNAME && env.ADMIN_PASSWORD) {
+    users.create({ username: env.ADMIN_USERNAME, password: env.ADMIN_PASSWORD, role: 'admin' });
+    console.log(`Created bootstrap admin user "${env.ADMIN_USERNAME}"`);
+  }
+
+  const anonymousAdmin = { id: 'local', username: 'local', role: 'admin', provider: 'disabled' };
+
+  function issueToken(user) {
+    return sign({ sub: user.id, exp: Date.now() + TOKEN_TTL_MS }, secret);
+  }
+
+  /** Resolve the bearer token to a user (roles are re-read so demotions apply immediately) */
+  function userFromRequest(req) {
+    if (disabled) return anonymousAdmin;
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+    const payload = token ? verify(token, secret) : null;
+    const user = payload ? users.findById(payload.sub) : null;
+    return user ? publicUser(user) : null;
+  }
+
+  return {
+    disabled,
+
+    /** Password login; returns { token, user } or null */
+    login(username, password) {
+      const user = users.findByUsername(username);
+      // Unknown names take as long as wrong passwords, so response times do not reveal which accounts exist
+      if (!user || !user.passwordHash) {
+        burnVerify(password);
+        return null;
+      }
+      if (!verifyPassword(password, user.passwordHash)) return null;
+      return { token: issueToken(user), user: publicUser(user) };
+    },
+
+    /** Token for a user already authenticated elsewhere (OIDC callback) */
+    issueToken,
+
+    /** Middleware: 401 without a valid token, 403 when the role is too low */
+    requireRole(role) {
+      return (req, res, next) => {
+        const user = userFromRequest(req);
+        if (!user) return res.status(401).json({ error: 'Authentication required' });
+        if (!hasRole(user, role)) {
+          return res.status(403).json({ error: `This action requires the ${role} role` });
+        }
+        req.user = user;
+        next();
+      };
+    },
+  };
+}
@@ -0,0 +1,152 @@
+// server/lib/catalog.js
+/* Helpers for the nested catalog shape: sections[].sub_sections[].finding_templates[].sem_template */
+import { randomUUID } from 'crypto';
+
+/** New immutable finding id (stored as sem_template.sem_id) */
+export function newFindingId() {
+  return randomUUID();
+}
+
+/** Display name for untitled sections/sub-sections (the seed has none) */
+export function sectionLabel(title, index, kind = 'Section') {
+  return title && String(title).trim() ? String(title) : `${kind} ${index + 1}`;
+}
+
+/** Normalize missing arrays in place so callers can index freely */
+export function ensureShape(doc) {
+  if (!Array.isArray(doc.sections)) doc.sections = [];
+  for (const sec of doc.sections) {
+    if (!Array.isArray(sec.sub_sections)) sec.sub_sections = [];
+    for (const sub of sec.sub_sections) {
+      if (!Array.isArray(sub.finding_templates)) sub.finding_templates = [];
+    }
+  }
+  return doc;
+}
+
+/** Walk every finding with its position: fn({ sec, sub, ft, st, section, subSection, index }) */
+export function forEachFinding(doc, fn) {
+  (doc.sections || []).forEach((sec, section) => {
+    (sec.sub_sections || []).forEach((sub, subSection) => {
+      (sub.finding_templates || []).forEach((ft, index) => {
+        fn({ sec, sub, ft, st: ft?.sem_template || {}, section, subSection, index });
+      });
+    });
+  });
+}
+
+/**
+ * Locate a finding by its stable sem_id; falls back to the legacy sem_header lookup so old
+ * links and clients keep working. Returns the forEachFinding record or null.
+ */
+export function findFinding(doc, id) {
+  let byId = null;
+  let byHeader = null;
+  forEachFinding(doc, (rec) => {
+    if (!byId && rec.st.sem_id === id) byId = rec;
+    if (!byHeader && rec.st.sem_header === id) byHeader = rec;
+  });
+  return byId || byHeader;
+}
+
+/** Finding with this exact sem_header (uniqueness checks), or null */
+export function findByHeader(doc, header) {
+  let hit = null;
+  forEachFinding(doc, (rec) => {
+    if (!hit && rec.st.sem_header === header) hit = rec;
+  });
+  return hit;
+}
+
+/**
+ * Give every finding without a sem_id a new one (in place). Returns [{ header, id }] for the
+ * findings that were backfilled, so data keyed by the old header can be re-pointed.
+ */
+export function assignIds(doc) {
+  const assigned = [];
+  forEachFinding(doc, ({ ft }) => {
+    if (!ft?.sem_template) return;
+    if (!ft.sem_template.sem_id) {
+      // Put the id first so it reads naturally in the JSON file
+      ft.sem_template = { sem_id: newFindingId(), ...ft.sem_template };
+      assigned.push({ header: ft.sem_template.sem_header, id: ft.sem_template.sem_id });
+    }
+  });
+  return assigned;
+}
+
+/** sem_resolution_instruction from a request body: always an array of trimmed, non-empty strings */
+export function parseReferences(raw) {
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return list.map((r) => String(r ?? '').trim()).filter(Boolean);
+}
+
+/**
+ * Optional display labels for reference URLs, stored as sem_reference_labels: { [url]: label }.
+ * Keyed by URL so reordering or removing references never mislabels one; labels for URLs no
+ * longer referenced are dropped. Returns undefined when no label is left.
+ */
+export function referenceLabels(urls, labels) {
+  if (!labels || typeof labels !== 'object') return undefined;
+  const out = {};
+  for (const url of urls) {
+    const label = typeof labels[url] === 'string' ? labels[url].trim() : '';
+    if (label) out[url] = label;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** Sub-section at a { section, subSection } location, or null when it does not exist */
+export function subSectionAt(doc, location) {
+  const sec = doc.sections?.[location?.section];
+  return sec?.sub_sections?.[location?.subSection] || null;
+}
+
+/**
+ * Sub-section to put a finding back into, from a trash location
+ * { section, subSection, sectionTitle, subSectionTitle }: the same position if its titles still match,
+ * else the first sub-section with those titles, else the same position, else the first sub-section
+ * (created when the catalog is empty).
+ */
+export function restoreTarget(doc, location = {}) {
+  ensureShape(doc);
+  const titled = (sec, sub) =>
+    (sec.title || '') === (location.sectionTitle || '') && (sub.title || '') === (location.subSectionTitle || '');
+  const same = subSectionAt(doc, location);
+  if (same && titled(doc.sections[location.section], same)) return same;
+  for (const sec of doc.sections) {
+    const sub = sec.sub_sections.find((x) => titled(sec, x));
+    if (sub) return sub;
+  }
+  if (same) return same;
+  if (doc.sections.length === 0) doc.sections.push({ title: 'Default Section', sub_sections: [] });
+  const section = doc.sections[0];
+  if (section.sub_sections.length === 0) {
+    section.sub_sections.push({ title: 'Default Subsection', finding_templates: [] });
+  }
+  return section.sub_sections[0];
+}
+
+/** Parse a { section, subSection } location from a request body; undefined when absent, null when invalid */
+export function parseLocation(raw) {
+  if (raw == null) return undefined;
+  const section = Number(raw.section);
+  const subSection = Number(raw.subSection);
+  if (!Number.isInteger(section) || !Number.isInteger(subSection) || section < 0 || subSection < 0) return null;
+  return { section, subSection };
+}
+
+/** Sections and sub-sections with labels and finding counts (no finding bodies) */
+export function outline(doc) {
+  return (doc.sections || []).map((sec, i) => ({
+    index: i,
+    title: sec.title || '',
+    label: sectionLabel(sec.title, i),
+    sub_sections: (sec.sub_sections || []).map((sub, j) => ({
+      index: j,
+      title: sub.title || '',
+      label: sectionLabel(sub.title, j, 'Sub-section'),
+      count: (sub.finding_templates || []).length,
+    })),
+  }));
+}
@@ -0,0 +1,85 @@
+// server/lib/citations.js
+/* Citations: resolve the [source.passage] markers in a reply to the passages that were in the prompt */
+import { sourceOffset } from './retrieval.js';
+import { tokenize } from './textIndex.js';
+
+// "[1.2]" or a group like "[1.2, 2.1]"
+const MARKER_RE = /\[(\d+\.\d+(?:\s*[,;]\s*\d+\.\d+)*)\]/g;
+const EXCERPT_CHARS = 400;
+
+/** Sentences of a passage as [{ text, start }] (start relative to the passage) */
+function sentences(text) {
+  const out = [];
+  const re = /[^.!?\n]+[.!?]*/g;
+  let m;
+  while ((m = re.exec(text))) {
+    const lead = m[0].length - m[0].trimStart().length;
+    const s = m[0].trim();
+    if (s) out.push({ text: s, start: m.index + lead });
+  }
+  return out;
+}
+
+/** The reply text just before a marker (back to the previous sentence / line break) */
+function claimBefore(reply, at) {
+  const head = reply.slice(0, at);
+  const from = Math.max(head.lastIndexOf('\n'), head.search(/[.!?][^.!?]*$/));
+  return head.slice(from + 1);
+}
+
+/** Sentence of the passage sharing the most words with the claim (the first one when nothing overlaps) */
+function bestQuote(passage, claim) {
+  const wanted = new Set(tokenize(claim));
+  let best = null;
+  let bestScore = -1;
+  for (const s of sentences(passage.text)) {
+    const score = tokenize(s.text).filter((t) => wanted.has(t)).length;
+    if (score > bestScore) {
+      best = s;
+      bestScore = score;
+    }
+  }
+  return best || { text: passage.text.slice(0, EXCERPT_CHARS), start: 0 };
+}
+
+/**
+ * Structured citations for a reply. Markers are numbered 1..n in order of first appearance;
+ * ids the model made up (not among `passages`) are ignored. Returns
+ *   [{ n, id, url, quote, excerpt, start, end }]
+ * where `quote` is the passage sentence closest to the cited claim and start/end are its
+ * offsets in the scraped page text (so the client can link to that spot).
+ */
+export function extractCitations(reply, passages) {
+  const byId = new Map(passages.map((p) => [p.id, p]));
+  const citations = [];
+  const seen = new Set();
+  for (const m of String(reply || '').matchAll(MARKER_RE)) {
+    for (const id of m[1].split(/\s*[,;]\s*/)) {
+      const p = byId.get(id);
+      if (!p || seen.has(id)) continue;
+      const quote = bestQuote(p, claimBefore(reply, m.index));
+      const c = {
+        n: citations.length + 1,
+        id,
+        url: p.url,
+        quote: quote.text,
+        excerpt: p.text.length > EXCERPT_CHARS ? `${p.text.slice(0, EXCERPT_CHARS)}…` : p.text,
+        // A quote never spans lines, so it stays within one piece of the passage
+        start: sourceOffset(p, quote.start),
+        end: sourceOffset(p, quote.start) + quote.text.length,
+      };
+      seen.add(id);
+      citations.push(c);
+    }
+  }
+  return citations;
+}
+
+/** Rewrite resolved markers as plain numbers ("[1.2, 2.1]" -> "[1][2]"); unknown ids are left alone */
+export function numberMarkers(reply, citations) {
+  const byId = new Map((citations || []).map((c) => [c.id, c.n]));
+  return String(reply || '').replace(MARKER_RE, (marker, ids) => {
+    const ns = ids.split(/\s*[,;]\s*/).map((id) => byId.get(id)).filter((n) => n != null);
+    return ns.length ? ns.map((n) => `[${n}]`).join('') : marker;
+  });
+}
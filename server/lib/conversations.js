@@ -0,0 +1,140 @@
+// server/lib/conversations.js
+/* Copilot conversation store: one JSON file next to issues.json in DATA_DIR */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+const TITLE_MAX = 80;
+
+function cleanMessages(list) {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((m) => m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+    .map((m) => ({
+      role: m.role,
+      content: m.content,
+      ...(m.role === 'assistant' && Array.isArray(m.citations) ? { citations: cleanCitations(m.citations) } : {}),
+    }));
+}
+
+/** Keep only the known citation fields (they are rendered under saved answers) */
+function cleanCitations(list) {
+  return list
+    .filter((c) => c && Number.isInteger(c.n) && typeof c.url === 'string')
+    .map(({ n, id, url, quote, excerpt, start, end }) => ({ n, id, url, quote, excerpt, start, end }));
+}
+
+function defaultTitle(messages) {
+  const first = messages.find((m) => m.role === 'user');
+  const text = (first?.content || 'New conversation').replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_MAX ? `${text.slice(0, TITLE_MAX - 1)}…` : text;
+}
+
+function summarize(c) {
+  const { messages, ...rest } = c;
+  return { ...rest, messageCount: messages.length };
+}
+
+/**
+ * Create a store bound to a data directory. Conversations are keyed by issue id
+ * (the finding's sem_id) so a finding's discussions can be listed together, and
+ * belong to the user who started them (`userId`).
+ */
+export function createConversationStore(dataDir) {
+  const file = path.join(dataDir, 'conversations.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return { conversations: [] };
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return Array.isArray(parsed?.conversations) ? parsed : { conversations: [] };
+    } catch (e) {
+      console.error('Failed to parse conversations file:', e);
+      return { conversations: [] };
+    }
+  }
+
+  function save(obj) {
+    writeJsonAtomic(file, obj);
+  }
+
+  return {
+    /** Summaries (no messages), newest first; optionally only one user's and/or one issue's */
+    list({ issueId, userId } = {}) {
+      const { conversations } = load();
+      return conversations
+        .filter((c) => (!issueId || c.issueId === issueId) && (!userId || c.userId === userId))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarize);
+    },
+
+    get(id) {
+      return load().conversations.find((c) => c.id === id) || null;
+    },
+
+    create({ issueId, title, messages }, user) {
+      const data = load();
+      const msgs = cleanMessages(messages);
+      const now = new Date().toISOString();
+      const conv = {
+        id: randomUUID(),
+        issueId: String(issueId),
+        userId: user?.id || null,
+        title: String(title || '').trim() || defaultTitle(msgs),
+        createdAt: now,
+        updatedAt: now,
+        messages: msgs,
+      };
+      data.conversations.push(conv);
+      save(data);
+      return conv;
+    },
+
+    /** Rename and/or replace the transcript; returns null when not found */
+    update(id, { title, messages }) {
+      const data = load();
+      const conv = data.conversations.find((c) => c.id === id);
+      if (!conv) return null;
+      if (title != null) conv.title = String(title).trim() || conv.title;
+      if (messages != null) conv.messages = cleanMessages(messages);
+      conv.updatedAt = new Date().toISOString();
+      save(data);
+      return conv;
+    },
+
+    /** Re-point conversations from old issue ids (legacy sem_header keys) to new ones; returns the count */
+    reassignIssues(idMap) {
+      const data = load();
+      let moved = 0;
+      for (const c of data.conversations) {
+        const next = idMap.get(c.issueId);
+        if (next && next !== c.issueId) {
+          c.issueId = next;
+          moved++;
+        }
+      }
+      if (moved) save(data);
+      return moved;
+    },
+
+    remove(id) {
+      const data = load();
+      const before = data.conversations.length;
+      data.conversations = data.conversations.filter((c) => c.id !== id);
+      if (data.conversations.length === before) return false;
+      save(data);
+      return true;
+    },
+
+    /** Delete every user's conversations about a finding (when it is deleted for good); returns the count */
+    removeForIssue(issueId) {
+      const data = load();
+      const before = data.conversations.length;
+      data.conversations = data.conversations.filter((c) => c.issueId !== String(issueId));
+      const removed = before - data.conversations.length;
+      if (removed) save(data);
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,168 @@
+// server/lib/exporter.js
+/* Catalog exports (CSV / nested JSON, optionally filtered) and per-finding Markdown runbooks */
+import { forEachFinding, sectionLabel } from './catalog.js';
+import { numberMarkers } from './citations.js';
+import { severityLabel } from './severity.js';
+
+// Same column names the importer recognises, so an export can be edited and imported back
+export const CSV_COLUMNS = [
+  'sem_id',
+  'sem_header',
+  'sem_category',
+  'severity_score',
+  'section',
+  'sub_section',
+  'sem_long_description',
+  'sem_recommendations',
+  'sem_resolution_instruction',
+];
+
+function asList(v) {
+  if (v == null || v === '') return [];
+  return (Array.isArray(v) ? v : [v]).map((x) => String(x).trim()).filter(Boolean);
+}
+
+/** Read catalog filters from a query string or body: q, category, section (label), minSeverity, ids (array or comma list) */
+export function parseFilters(query = {}) {
+  const min = query.minSeverity != null && query.minSeverity !== '' ? Number(query.minSeverity) : null;
+  return {
+    q: String(query.q || '').trim().toLowerCase(),
+    category: String(query.category || '').trim().toLowerCase(),
+    section: String(query.section || '').trim(),
+    minSeverity: Number.isFinite(min) ? min : null,
+    ids: query.ids
+      ? new Set((Array.isArray(query.ids) ? query.ids : String(query.ids).split(',')).map((s) => String(s).trim()).filter(Boolean))
+      : null,
+  };
+}
+
+function matches(rec, f) {
+  const { st } = rec;
+  if (f.ids && !f.ids.has(st.sem_id) && !f.ids.has(st.sem_header)) return false;
+  if (f.category && String(st.sem_category || '').toLowerCase() !== f.category) return false;
+  if (f.section && sectionLabel(rec.sec.title, rec.section) !== f.section) return false;
+  if (f.minSeverity != null && !(Number(st.severity_score) >= f.minSeverity)) return false;
+  if (f.q) {
+    const hay = `${st.sem_header || ''}\n${st.sem_long_description || ''}`.toLowerCase();
+    if (!hay.includes(f.q)) return false;
+  }
+  return true;
+}
+
+/** Copy of the catalog keeping only matching findings (empty containers dropped unless unfiltered) */
+export function filterCatalog(doc, filters) {
+  const active = filters.q || filters.category || filters.section || filters.minSeverity != null || filters.ids;
+  const keep = new Set();
+  forEachFinding(doc, (rec) => {
+    if (matches(rec, filters)) keep.add(rec.ft);
+  });
+
+  const sections = (doc.sections || []).map((sec) => ({
+    ...sec,
+    sub_sections: (sec.sub_sections || []).map((sub) => ({
+      ...sub,
+      finding_templates: (sub.finding_templates || []).filter((ft) => keep.has(ft)),
+    })),
+  }));
+  if (!active) return { ...doc, sections };
+  return {
+    ...doc,
+    sections: sections
+      .map((sec) => ({ ...sec, sub_sections: sec.sub_sections.filter((sub) => sub.finding_templates.length) }))
+      .filter((sec) => sec.sub_sections.length),
+  };
+}
+
+/**
+ * One CSV field, quoted when it contains a comma, quote or line break. Text that a spreadsheet would run as a
+ * formula (starting with =, +, -, @, tab or CR) gets a leading ' so it opens as text. Text that already starts
+ * with ' gets one too, so the importer can always drop exactly one and get the value back.
+ */
+export function csvCell(v) {
+  let s = v == null ? '' : String(v);
+  if (typeof v === 'string' && /^[=+\-@\t\r']/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One row per finding; list fields are joined with " | " (the importer splits on it) */
+export function catalogToCsv(doc) {
+  const lines = [CSV_COLUMNS.join(',')];
+  forEachFinding(doc, ({ sec, sub, st, section, subSection }) => {
+    const row = {
+      ...st,
+      section: sectionLabel(sec.title, section),
+      sub_section: sectionLabel(sub.title, subSection, 'Sub-section'),
+      sem_recommendations: asList(st.sem_recommendations).join(' | '),
+      sem_resolution_instruction: asList(st.sem_resolution_instruction).join(' | '),
+    };
+    lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(','));
+  });
+  // CRLF + BOM so spreadsheet apps open UTF-8 correctly
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/** Text for one Markdown table cell: a "|" would end the cell and a line break the row */
+function tableCell(v) {
+  return String(v ?? '')
+    .trim()
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/** Safe attachment file name: "S3 bucket public!" -> "s3-bucket-public" */
+export function slugify(text, fallback = 'export') {
+  const slug = String(text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || fallback;
+}
+
+/**
+ * Remediation runbook for one finding: details, the copilot's answer and the reference URLs as
+ * numbered citations. `rec` is a forEachFinding record; `answer` is Markdown (may be empty) and
+ * `citations` are the answer's resolved passage citations (see lib/citations.js), if any.
+ */
+export function runbookMarkdown(
+  rec,
+  { answer = '', citations = [], author, generatedAt = new Date(), severityLevels = [] } = {}
+) {
+  const { st, sec, sub, section, subSection } = rec;
+  const refs = asList(st.sem_resolution_instruction);
+  const recs = asList(st.sem_recommendations);
+  const out = [];
+
+  out.push(`# Remediation runbook: ${st.sem_header || 'Untitled finding'}`, '');
+  const row = (label, value) => out.push(`| ${label} | ${tableCell(value)} |`);
+  out.push('| | |', '|---|---|');
+  if (st.sem_id) row('Finding ID', `\`${st.sem_id}\``);
+  row('Location', `${sectionLabel(sec.title, section)} › ${sectionLabel(sub.title, subSection, 'Sub-section')}`);
+  if (st.sem_category) row('Category', st.sem_category);
+  if (st.severity_score != null) row('Severity', severityLabel(severityLevels, st.severity_score) || st.severity_score);
+  row('Generated', `${generatedAt.toISOString()}${author ? ` by ${author}` : ''}`);
+  out.push('');
+
+  if (st.sem_long_description) out.push('## Description', '', String(st.sem_long_description).trim(), '');
+  if (recs.length) out.push('## Recommendations', '', ...recs.map((r) => `- ${r}`), '');
+
+  out.push('## Remediation steps', '');
+  out.push(answer.trim() ? numberMarkers(answer, citations).trim() : '_No copilot answer was included with this export._', '');
+
+  if (answer.trim() && citations.length) {
+    out.push('## Cited passages', '');
+    for (const c of citations) out.push(`${c.n}. > ${String(c.quote || '').replace(/\s+/g, ' ')}`, `   — <${c.url}>`);
+    out.push('');
+  }
+
+  if (refs.length) {
+    out.push('## References', '');
+    const labels = st.sem_reference_labels || {};
+    refs.forEach((r, i) => {
+      const ref = /^https?:\/\//i.test(r) ? `<${r}>` : r;
+      out.push(labels[r] ? `${i + 1}. ${labels[r]} — ${ref}` : `${i + 1}. ${ref}`);
+    });
+    out.push('');
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,272 @@
+// server/lib/extract.js
+/* Turn a fetched reference (HTML, PDF or plain text) into Markdown that keeps headings, steps, tables and code */
+import * as cheerio from 'cheerio';
+
+// Bump when the output changes so cached pages are re-extracted instead of served in the old shape
+export const EXTRACTOR_VERSION = 2;
+
+const JUNK =
+  'script, style, noscript, template, svg, canvas, iframe, form, button, input, select, textarea, nav, aside, ' +
+  'footer, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="search"], ' +
+  '[aria-hidden="true"], [hidden], [style*="display:none"], [style*="display: none"]';
+// class/id words that mark page chrome rather than content
+const BOILERPLATE_RE =
+  /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|footer|sidebar|cookies?|consent|banner|share|social|related|comments?|ads?|advert|promo|newsletter|skip|toc|feedback|rating)([\s_-]|$)/i;
+const INLINE = new Set([
+  'a', 'abbr', 'b', 'bdi', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i', 'img', 'ins', 'kbd', 'label',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'tt', 'u', 'var', 'wbr',
+]);
+
+const collapse = (s) => s.replace(/[ \t\r\f\v\u00a0]+/g, ' ');
+
+/** Inline Markdown for a node's children (emphasis, code, line breaks); block children are flattened */
+function inline(node) {
+  let out = '';
+  for (const child of node.children || []) {
+    if (child.type === 'text') out += collapse(child.data || '').replace(/\n+/g, ' ');
+    else if (child.type !== 'tag') continue;
+    else if (child.name === 'br') out += '\n';
+    else if (child.name === 'img') out += child.attribs?.alt ? collapse(child.attribs.alt) : '';
+    else {
+      const inner = inline(child);
+      const text = inner.trim();
+      if (!text) {
+        out += inner;
+        continue;
+      }
+      const pad = (s) => `${/^\s/.test(inner) ? ' ' : ''}${s}${/\s$/.test(inner) ? ' ' : ''}`;
+      if (child.name === 'strong' || child.name === 'b') out += pad(`**${text}**`);
+      else if (child.name === 'em' || child.name === 'i') out += pad(`_${text}_`);
+      else if (child.name === 'code' || child.name === 'kbd' || child.name === 'samp' || child.name === 'tt') {
+        out += pad(`\`${text.replace(/`/g, "'")}\``);
+      } else out += INLINE.has(child.name) ? inner : ` ${inner} `;
+    }
+  }
+  return out;
+}
+
+function cleanLine(s) {
+  return s
+    .split('\n')
+    .map((l) => collapse(l).trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function codeBlock($, pre) {
+  const cls = `${pre.attribs?.class || ''} ${$(pre).children('code').attr('class') || ''}`;
+  const lang = /(?:lang|language)-([\w+#-]+)/.exec(cls)?.[1] || '';
+  const code = $(pre).text().replace(/\r\n?/g, '\n').replace(/^\n+|\s+$/g, '');
+  return code ? `\`\`\`${lang}\n${code}\n\`\`\`` : '';
+}
+
+function tableBlock($, table) {
+  const rows = $(table)
+    .find('tr')
+    .filter((_, tr) => $(tr).closest('table')[0] === table)
+    .toArray()
+    .map((tr) =>
+      $(tr)
+        .children('th, td')
+        .toArray()
+        .map((c) => cleanLine(inline(c)).replace(/\n/g, ' ').replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.some(Boolean));
+  if (!rows.length) return '';
+  const width = Math.max(...rows.map((r) => r.length));
+  // Single-column tables are layout, not data: keep their cells as paragraphs
+  if (width === 1) return rows.map((r) => r[0]).filter(Boolean).join('\n\n');
+  const line = (cells) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+}
+
+function listBlock($, list) {
+  const ordered = list.name === 'ol';
+  let n = Number(list.attribs?.start) || 1;
+  const items = [];
+  for (const li of $(list).children('li').toArray()) {
+    const marker = ordered ? `${n++}.` : '-';
+    const indent = ' '.repeat(marker.length + 1);
+    const body = blocks($, li)
+      .join('\n')
+      .split('\n')
+      .map((l, i) => (i === 0 ? `${marker} ${l}` : l ? `${indent}${l}` : l))
+      .join('\n');
+    if (body.trim() !== marker) items.push(body);
+  }
+  return items.join('\n');
+}
+
+/** Markdown blocks for a container, in document order */
+function blocks($, node) {
+  const out = [];
+  let para = '';
+  const flush = () => {
+    const text = cleanLine(para);
+    if (text) out.push(text);
+    para = '';
+  };
+
+  for (const child of node.children || []) {
+    if (child.type === 'text') {
+      para += collapse(child.data || '').replace(/\n+/g, ' ');
+      continue;
+    }
+    if (child.type !== 'tag') continue;
+    const name = child.name;
+    if (INLINE.has(name) || name === 'br') {
+      para += name === 'br' ? '\n' : inline({ children: [child] });
+      continue;
+    }
+
+    flush();
+    if (/^h[1-6]$/.test(name)) {
+      const text = cleanLine(inline(child)).replace(/\n/g, ' ');
+      if (text) out.push(`${'#'.repeat(Number(name[1]))} ${text}`);
+    } else if (name === 'p') {
+      const text = cleanLine(inline(child));
+      if (text) out.push(text);
+    } else if (name === 'ul' || name === 'ol') {
+      const list = listBlock($, child);
+      if (list) out.push(list);
+    } else if (name === 'pre') {
+      const code = codeBlock($, child);
+      if (code) out.push(code);
+    } else if (name === 'table') {
+      const table = tableBlock($, child);
+      if (table) out.push(table);
+    } else if (name === 'blockquote') {
+      const inner = blocks($, child).join('\n\n');
+      if (inner) out.push(inner.split('\n').map((l) => (l ? `> ${l}` : '>')).join('\n'));
+    } else if (name === 'dl') {
+      for (const item of $(child).children('dt, dd').toArray()) {
+        const text = cleanLine(inline(item)).replace(/\n/g, ' ');
+        if (text) out.push(item.name === 'dt' ? `**${text}**` : `: ${text}`);
+      }
+    } else if (name === 'hr') {
+      out.push('---');
+    } else {
+      out.push(...blocks($, child));
+    }
+  }
+  flush();
+  return out;
+}
+
+/**
+ * Readability-style main content: an explicit <main>/[role=main]/<article> when there is one,
+ * otherwise the container whose paragraphs carry the most text (discounted by link density).
+ * Falls back to <body> when no candidate holds a reasonable share of the page.
+ */
+function mainContent($) {
+  const body = $('body')[0] || $.root()[0];
+  const bodyLength = $(body).text().trim().length || 1;
+  const explicit = $('main, [role="main"]').first();
+  if (explicit.length && explicit.text().trim().length > bodyLength * 0.2) return explicit[0];
+  const articles = $('article')
+    .toArray()
+    .sort((a, b) => $(b).text().length - $(a).text().length);
+  if (articles[0] && $(articles[0]).text().trim().length > bodyLength * 0.3) return articles[0];
+
+  const scores = new Map();
+  $('p, pre, li, td, h2, h3').each((_, el) => {
+    const text = $(el).text().trim();
+    if (text.length < 25) return;
+    const score = 1 + (text.match(/,/g) || []).length + Math.min(text.length / 100, 3);
+    const parent = el.parent;
+    const grand = parent?.parent;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    if (grand) scores.set(grand, (scores.get(grand) || 0) + score / 2);
+  });
+
+  let best = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const text = $(el).text().length || 1;
+    const links = $(el).find('a').text().length;
+    const adjusted = score * (1 - links / text);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  if (!best || $(best).text().trim().length < bodyLength * 0.25) return body;
+  // Take the parent when the winner is one of several sibling blocks of the same article
+  const parent = best.parent;
+  if (parent && parent !== body && $(parent).text().trim().length < $(best).text().trim().length * 1.5) return parent;
+  return best;
+}
+
+/** HTML page -> { title, text } where text is Markdown of the main content */
+export function htmlToMarkdown(html) {
+  const $ = cheerio.load(html);
+  const title = collapse($('h1').first().text() || $('title').first().text()).trim();
+
+  $(JUNK).remove();
+  $('body > header').remove();
+  $('header').each((_, el) => {
+    if (!$(el).find('h1').length) $(el).remove();
+  });
+  $('[class], [id]').each((_, el) => {
+    const marks = `${el.attribs.class || ''} ${el.attribs.id || ''}`;
+    if (!BOILERPLATE_RE.test(marks)) return;
+    // Never drop a wrapper that holds the page's real content
+    if ($(el).is('main, article, body') || $(el).find('main, article, [role="main"], h1').length) return;
+    $(el).remove();
+  });
+
+  const root = mainContent($);
+  let parts = blocks($, root);
+  if (title && !parts.some((b) => b.startsWith('# '))) parts = [`# ${title}`, ...parts];
+  return { title, text: parts.join('\n\n').replace(/\n{3,}/g, '\n\n').trim() };
+}
+
+/** Plain text / Markdown references: normalized line endings, no runs of blank lines */
+export function plainToText(text) {
+  return String(text || '')
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((l) => l.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** PDF text via the optional pdf-parse package (page breaks become blank lines) */
+export async function pdfToText(buffer) {
+  let parse;
+  try {
+    // The package entry runs a self-test when imported directly; the lib file is the parser itself
+    ({ default: parse } = await import('pdf-parse/lib/pdf-parse.js'));
+  } catch {
+    throw new Error('PDF references need the pdf-parse package (npm i pdf-parse)');
+  }
+  const { text, info } = await parse(buffer);
+  const lines = String(text || '')
+    .replace(/\f/g, '\n\n')
+    .split('\n')
+    .map((l) => collapse(l).trim());
+  return { title: String(info?.Title || '').trim(), text: plainToText(lines.join('\n')) };
+}
+
+/** 'pdf' | 'text' | 'html' from the Content-Type, the first bytes and (last resort) the URL's extension */
+export function documentFormat(contentType, body, url = '') {
+  const type = String(contentType || '').split(';')[0].trim().toLowerCase();
+  if (type === 'application/pdf' || body?.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (type === 'text/plain' || type === 'text/markdown') return 'text';
+  if (!type && /\.(txt|md|markdown)([?#]|$)/i.test(url)) return 'text';
+  return 'html';
+}
+
+/**
+ * Extract a fetched document: { format, title, text }. `body` is the raw Buffer; HTML and text are
+ * decoded as UTF-8. Throws for PDFs when pdf-parse is missing or the file cannot be read.
+ */
+export async function extractDocument(body, { contentType, url } = {}) {
+  const format = documentFormat(contentType, body, url);
+  if (format === 'pdf') return { format, ...(await pdfToText(body)) };
+  const raw = body.toString('utf8');
+  if (format === 'text') return { format, title: '', text: plainToText(raw) };
+  return { format, ...htmlToMarkdown(raw) };
+}
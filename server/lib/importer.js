@@ -0,0 +1,411 @@
+// server/lib/importer.js
+/* Bulk import of findings: native nested JSON, CSV, SARIF 2.1 and generic scanner JSON → sem_template rows */
+import {
+  ensureShape,
+  findByHeader,
+  forEachFinding,
+  newFindingId,
+  parseReferences,
+  referenceLabels,
+  sectionLabel,
+} from './catalog.js';
+import { CSV_COLUMNS } from './exporter.js';
+import { DEFAULT_CATEGORY, ValidationError, catalogErrors, validateTemplate } from './schema.js';
+
+export const IMPORT_FORMATS = ['native', 'csv', 'sarif', 'json'];
+
+/** sem_template fields a source column can be mapped onto (plus the target location by title) */
+export const TARGET_FIELDS = [
+  'sem_header',
+  'sem_category',
+  'severity_score',
+  'sem_long_description',
+  'sem_recommendations',
+  'sem_resolution_instruction',
+  'section',
+  'sub_section',
+];
+
+// Column names we recognise without an explicit mapping (compared lowercased, non-alphanumerics stripped)
+const ALIASES = {
+  sem_header: ['semheader', 'title', 'name', 'header', 'finding', 'rule', 'check', 'issue'],
+  sem_category: ['semcategory', 'category', 'type', 'group', 'tags'],
+  severity_score: ['severityscore', 'severity', 'score', 'risk', 'cvss', 'level', 'priority'],
+  sem_long_description: ['semlongdescription', 'description', 'details', 'summary', 'message'],
+  sem_recommendations: ['semrecommendations', 'recommendations', 'recommendation', 'remediation', 'fix', 'solution'],
+  sem_resolution_instruction: ['semresolutioninstruction', 'reference', 'references', 'url', 'link', 'helpuri', 'docs'],
+  section: ['section'],
+  sub_section: ['subsection'],
+};
+
+/** Import input problem (bad file, unknown format); the route maps it to 400 */
+export class ImportError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+/* ---------- Source parsers ---------- */
+
+/** RFC 4180-ish CSV: quoted fields, doubled quotes, CRLF/LF and newlines inside quotes */
+export function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  const s = String(text).replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (quoted) {
+      if (ch === '"' && s[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && s[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new ImportError('CSV has an unterminated quoted field');
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((c) => c.trim() !== ''));
+  if (!nonEmpty.length) return { columns: [], records: [] };
+  const columns = nonEmpty[0].map((c) => c.trim());
+  const records = nonEmpty.slice(1).map((r) => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ''])));
+  return { columns, records };
+}
+
+function parseJsonContent(content) {
+  if (typeof content !== 'string') return content;
+  try {
+    return JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (e) {
+    throw new ImportError(`Not valid JSON: ${e.message}`);
+  }
+}
+
+/** Value at a dotted path ("rule.help.uri"), or undefined */
+function getPath(obj, p) {
+  return String(p)
+    .split('.')
+    .reduce((o, k) => (o == null ? undefined : o[k]), obj);
+}
+
+/** Dotted paths of scalar/array leaves in the first records (nested objects one level deep) */
+function collectColumns(records) {
+  const seen = new Set();
+  for (const r of records.slice(0, 50)) {
+    for (const [k, v] of Object.entries(r || {})) {
+      if (v && typeof v === 'object' && !Array.isArray(v)) {
+        for (const k2 of Object.keys(v)) seen.add(`${k}.${k2}`);
+      } else {
+        seen.add(k);
+      }
+    }
+  }
+  return [...seen];
+}
+
+/** Generic scanner JSON: a top-level array, or the first array-of-objects property */
+function scannerRecords(doc) {
+  if (Array.isArray(doc)) return doc;
+  if (doc && typeof doc === 'object') {
+    for (const key of ['findings', 'results', 'issues', 'vulnerabilities', 'items', 'data']) {
+      if (Array.isArray(doc[key])) return doc[key];
+    }
+    const first = Object.values(doc).find((v) => Array.isArray(v) && v.some((x) => x && typeof x === 'object'));
+    if (first) return first;
+  }
+  throw new ImportError('Could not find a list of findings in the JSON (expected an array)');
+}
+
+const SARIF_LEVEL_SCORE = { error: 0.9, warning: 0.6, note: 0.3, none: 0 };
+
+/** SARIF 2.1: one row per rule (rules without results included), falling back to results without rules */
+function sarifRows(doc) {
+  if (!Array.isArray(doc?.runs)) throw new ImportError('SARIF file has no "runs" array');
+  const rows = [];
+  for (const run of doc.runs) {
+    const toolName = run?.tool?.driver?.name || 'SARIF';
+    const rules = run?.tool?.driver?.rules || [];
+    const byId = new Map();
+
+    for (const rule of rules) {
+      const props = rule.properties || {};
+      const secSeverity = parseFloat(props['security-severity']);
+      byId.set(rule.id, {
+        sem_header: rule.shortDescription?.text || rule.name || rule.id,
+        sem_category: (Array.isArray(props.tags) && props.tags[0]) || toolName,
+        severity_score: Number.isFinite(secSeverity)
+          ? secSeverity / 10
+          : SARIF_LEVEL_SCORE[rule.defaultConfiguration?.level || 'warning'],
+        sem_long_description: rule.fullDescription?.text || rule.help?.text || rule.shortDescription?.text || '',
+        sem_recommendations: rule.help?.markdown || rule.help?.text ? [rule.help.markdown || rule.help.text] : [],
+        sem_resolution_instruction: rule.helpUri ? [rule.helpUri] : [],
+        section: toolName,
+      });
+    }
+
+    for (const result of run?.results || []) {
+      const id = result.ruleId || result.rule?.id;
+      if (!id || byId.has(id)) continue;
+      byId.set(id, {
+        sem_header: id,
+        sem_category: toolName,
+        severity_score: SARIF_LEVEL_SCORE[result.level || 'warning'],
+        sem_long_description: result.message?.text || '',
+        sem_recommendations: [],
+        sem_resolution_instruction: [],
+        section: toolName,
+      });
+    }
+    rows.push(...byId.values());
+  }
+  return rows;
+}
+
+/** Native nested catalog: every sem_template with its section/sub-section titles */
+function nativeRows(doc) {
+  if (!Array.isArray(doc?.sections)) throw new ImportError('Native JSON must have a "sections" array');
+  // Structure only: bad field values are reported per row
+  const shape = Object.entries(catalogErrors(doc, { templates: false }));
+  if (shape.length) {
+    const [at, message] = shape[0];
+    throw new ImportError(`Native JSON does not match the catalog shape: ${at} ${message}`);
+  }
+  const rows = [];
+  forEachFinding(doc, ({ sec, sub, st, section, subSection }) => {
+    rows.push({
+      ...st,
+      section: sectionLabel(sec.title, section),
+      sub_section: sectionLabel(sub.title, subSection, 'Sub-section'),
+    });
+  });
+  return rows;
+}
+
+/** Guess a source column for each target field from its name */
+export function suggestMapping(columns) {
+  const norm = (c) => String(c).toLowerCase().replace(/[^a-z0-9]/g, '');
+  const mapping = {};
+  for (const target of TARGET_FIELDS) {
+    for (const alias of ALIASES[target]) {
+      const hit = columns.find((c) => norm(c) === alias || norm(c.split('.').pop()) === alias);
+      if (hit && !Object.values(mapping).includes(hit)) {
+        mapping[target] = hit;
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+/**
+ * A CSV cell without the ' that csvCell() puts in front of formula-like text (and of text already starting
+ * with '). Only our own export columns carry it; other files keep their cells as written.
+ */
+function csvValue(column, v) {
+  return CSV_COLUMNS.includes(column) ? v?.replace(/^'(?=[=+\-@\t\r'])/, '') : v;
+}
+
+/**
+ * Turn an upload into raw rows. CSV and scanner JSON go through `mapping` (target field → source
+ * column / dotted path); a missing mapping falls back to suggestMapping(). Returns
+ * { rows, columns, mapping } where columns/mapping are only meaningful for mapped formats.
+ */
+export function readSource({ format, content, mapping }) {
+  if (!IMPORT_FORMATS.includes(format)) {
+    throw new ImportError(`format must be one of ${IMPORT_FORMATS.join(', ')}`);
+  }
+  if (content == null || content === '') throw new ImportError('content is empty');
+
+  if (format === 'native') return { rows: nativeRows(parseJsonContent(content)), columns: [], mapping: {} };
+  if (format === 'sarif') return { rows: sarifRows(parseJsonContent(content)), columns: [], mapping: {} };
+
+  let records;
+  let columns;
+  if (format === 'csv') {
+    if (typeof content !== 'string') throw new ImportError('CSV content must be text');
+    ({ records, columns } = parseCsv(content));
+  } else {
+    records = scannerRecords(parseJsonContent(content));
+    columns = collectColumns(records);
+  }
+
+  const used = mapping && Object.keys(mapping).length ? mapping : suggestMapping(columns);
+  const rows = records.map((rec) => {
+    const out = {};
+    for (const [target, source] of Object.entries(used)) {
+      if (!TARGET_FIELDS.includes(target) || !source) continue;
+      const v = format === 'csv' ? csvValue(source, rec[source]) : getPath(rec, source);
+      if (v !== undefined && v !== '') out[target] = v;
+    }
+    return out;
+  });
+  return { rows, columns, mapping: used };
+}
+
+/* ---------- Normalization + planning ---------- */
+
+// Qualitative severities some scanners use instead of a 0..1 score
+const SEVERITY_WORDS = { critical: 0.95, high: 0.85, important: 0.85, medium: 0.6, moderate: 0.6, low: 0.3, info: 0.1, informational: 0.1 };
+
+function toList(v) {
+  if (v == null || v === '') return [];
+  if (Array.isArray(v)) return v.map((x) => String(x).trim()).filter(Boolean);
+  // CSV cells hold several values separated by newlines or "|"
+  return String(v)
+    .split(/\r?\n|\s*\|\s*/)
+    .map((x) => x.trim())
+    .filter(Boolean);
+}
+
+/** Normalize one raw row into { fields, location, errors } */
+function normalizeRow(raw) {
+  const errors = [];
+  const fields = {};
+
+  const header = raw.sem_header == null ? '' : String(raw.sem_header).trim();
+  if (!header) errors.push('sem_header (Title) is missing');
+  else fields.sem_header = header;
+
+  if (raw.sem_category != null && raw.sem_category !== '') {
+    fields.sem_category = Array.isArray(raw.sem_category) ? String(raw.sem_category[0] ?? '') : String(raw.sem_category);
+  }
+
+  if (raw.severity_score != null && raw.severity_score !== '') {
+    const word = SEVERITY_WORDS[String(raw.severity_score).trim().toLowerCase()];
+    let n = word ?? Number(raw.severity_score);
+    // 0..10 (CVSS-style) and 0..100 scales are scaled down to 0..1
+    if (Number.isFinite(n) && n > 1 && n <= 10) n /= 10;
+    else if (Number.isFinite(n) && n > 10 && n <= 100) n /= 100;
+    if (!Number.isFinite(n) || n < 0 || n > 1) errors.push(`severity_score "${raw.severity_score}" is not a number in 0..1`);
+    else fields.severity_score = Math.round(n * 100) / 100;
+  }
+
+  if (raw.sem_long_description != null) fields.sem_long_description = String(raw.sem_long_description);
+  if (raw.sem_recommendations != null) fields.sem_recommendations = toList(raw.sem_recommendations);
+  if (raw.sem_resolution_instruction != null) {
+    fields.sem_resolution_instruction = toList(raw.sem_resolution_instruction);
+  }
+  // Only the native JSON carries labels
+  if (raw.sem_reference_labels != null) fields.sem_reference_labels = raw.sem_reference_labels;
+  // Same rules as the API (URL checks, types); severity was scaled above
+  try {
+    Object.assign(fields, validateTemplate(fields, { partial: true }));
+  } catch (e) {
+    if (!(e instanceof ValidationError)) throw e;
+    errors.push(...Object.values(e.fields));
+  }
+  if (fields.sem_reference_labels) {
+    const labels = referenceLabels(fields.sem_resolution_instruction || [], fields.sem_reference_labels);
+    if (labels) fields.sem_reference_labels = labels;
+    else delete fields.sem_reference_labels;
+  }
+
+  const location =
+    raw.section || raw.sub_section
+      ? { section: String(raw.section || 'Imported').trim(), subSection: String(raw.sub_section || 'General').trim() }
+      : null;
+
+  return { fields, location, errors };
+}
+
+/**
+ * Compare rows against the catalog. onConflict: 'update' (existing sem_header is patched) or 'skip'
+ * (reported as a conflict). Duplicate headers inside the same upload are always conflicts.
+ * Returns [{ row, header, action: create|update|conflict|error, errors?, message?, fields, location }].
+ */
+export function planImport(doc, rawRows, { onConflict = 'update' } = {}) {
+  const seen = new Set();
+  return rawRows.map((raw, i) => {
+    const { fields, location, errors } = normalizeRow(raw || {});
+    const entry = { row: i + 1, header: fields.sem_header || '', fields, location };
+    if (errors.length) return { ...entry, action: 'error', errors };
+
+    const key = fields.sem_header.toLowerCase();
+    if (seen.has(key)) return { ...entry, action: 'conflict', message: 'Duplicate title earlier in this file' };
+    seen.add(key);
+
+    const existing = findByHeader(doc, fields.sem_header);
+    if (!existing) return { ...entry, action: 'create' };
+    if (onConflict === 'skip') return { ...entry, action: 'conflict', message: 'A finding with this title already exists' };
+    return { ...entry, action: 'update', id: existing.st.sem_id };
+  });
+}
+
+/** Sub-section for an imported row: matched by (label) title, created when missing; default = first */
+function targetSubSection(doc, location) {
+  if (!location) {
+    if (doc.sections.length === 0) doc.sections.push({ title: 'Default Section', sub_sections: [] });
+    const section = doc.sections[0];
+    if (section.sub_sections.length === 0) section.sub_sections.push({ title: 'Default Subsection', finding_templates: [] });
+    return section.sub_sections[0];
+  }
+  let sec = doc.sections.find((s, i) => sectionLabel(s.title, i) === location.section);
+  if (!sec) {
+    sec = { title: location.section, sub_sections: [] };
+    doc.sections.push(sec);
+  }
+  let sub = sec.sub_sections.find((s, j) => sectionLabel(s.title, j, 'Sub-section') === location.subSection);
+  if (!sub) {
+    sub = { title: location.subSection, finding_templates: [] };
+    sec.sub_sections.push(sub);
+  }
+  return sub;
+}
+
+/** Apply a plan in place; only create/update rows touch the catalog */
+export function applyImport(doc, plan) {
+  ensureShape(doc);
+  for (const p of plan) {
+    if (p.action === 'create') {
+      const sem_template = {
+        sem_id: newFindingId(),
+        sem_category: DEFAULT_CATEGORY,
+        severity_score: 0,
+        sem_long_description: '',
+        sem_recommendations: [],
+        sem_resolution_instruction: [],
+        ...p.fields,
+      };
+      targetSubSection(doc, p.location).finding_templates.push({ sem_template });
+      p.id = sem_template.sem_id;
+    } else if (p.action === 'update') {
+      const { st } = findByHeader(doc, p.fields.sem_header);
+      Object.assign(st, p.fields);
+      // Labels follow their URLs, as on PUT /api/issues/:id
+      const labels = referenceLabels(parseReferences(st.sem_resolution_instruction), st.sem_reference_labels);
+      if (labels) st.sem_reference_labels = labels;
+      else delete st.sem_reference_labels;
+    }
+  }
+  return plan;
+}
+
+/** Counts per action, for the preview header */
+export function summarize(plan) {
+  const counts = { create: 0, update: 0, conflict: 0, error: 0 };
+  for (const p of plan) counts[p.action]++;
+  return counts;
+}
@@ -0,0 +1,161 @@
+// server/lib/oidc.js
+/* Optional OpenID Connect login (authorization code flow with PKCE), with a local stub for development */
+import { createHash, randomBytes } from 'crypto';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+// Holds the login's state in the browser that started it, so a callback from another browser is refused
+export const STATE_COOKIE = 'oidc_state';
+
+/** Value of one cookie from a Cookie header, or '' */
+export function readCookie(header, name) {
+  for (const part of String(header || '').split(';')) {
+    const i = part.indexOf('=');
+    if (i > 0 && part.slice(0, i).trim() === name) return decodeURIComponent(part.slice(i + 1).trim());
+  }
+  return '';
+}
+
+/** Claims of a JWT without checking its signature (only for tokens received straight from the token endpoint) */
+function jwtClaims(token) {
+  try {
+    return JSON.parse(Buffer.from(String(token).split('.')[1], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Env:
+ *   OIDC_ISSUER          issuer URL (discovery via /.well-known/openid-configuration), or "stub"
+ *   OIDC_CLIENT_ID / OIDC_CLIENT_SECRET
+ *   OIDC_REDIRECT_URI    this server's /api/auth/oidc/callback as registered with the IdP
+ *   OIDC_DEFAULT_ROLE    role for first-time OIDC users (default viewer)
+ *   OIDC_STUB_USER       identity the stub logs in as (default oidc.user@example.com)
+ *   APP_URL              where the browser goes after login (default http://localhost:5173)
+ */
+export function loadOidcConfig(env = process.env) {
+  const issuer = String(env.OIDC_ISSUER || '').trim();
+  return {
+    enabled: !!issuer,
+    stub: issuer === 'stub',
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId: env.OIDC_CLIENT_ID || '',
+    clientSecret: env.OIDC_CLIENT_SECRET || '',
+    redirectUri: env.OIDC_REDIRECT_URI || `http://localhost:${env.PORT || 5050}/api/auth/oidc/callback`,
+    defaultRole: env.OIDC_DEFAULT_ROLE || 'viewer',
+    stubUser: env.OIDC_STUB_USER || 'oidc.user@example.com',
+    appUrl: (env.APP_URL || 'http://localhost:5173').replace(/\/+$/, ''),
+  };
+}
+
+export function createOidc(config) {
+  const pending = new Map(); // state -> { exp, verifier, nonce }
+  let discovery = null;
+
+  async function discover() {
+    if (discovery) return discovery;
+    const r = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+    if (!r.ok) throw new Error(`OIDC discovery failed (HTTP ${r.status})`);
+    discovery = await r.json();
+    return discovery;
+  }
+
+  function newLogin() {
+    const now = Date.now();
+    for (const [s, login] of pending) if (login.exp < now) pending.delete(s);
+    const login = {
+      state: randomBytes(16).toString('hex'),
+      verifier: randomBytes(32).toString('base64url'),
+      nonce: randomBytes(16).toString('hex'),
+      exp: now + STATE_TTL_MS,
+    };
+    pending.set(login.state, login);
+    return login;
+  }
+
+  /** The pending login for `state`, only when the browser presents the same state in its cookie */
+  function consumeLogin(state, cookieState) {
+    const login = pending.get(state);
+    pending.delete(state);
+    if (!login || login.exp <= Date.now() || !cookieState || cookieState !== state) return null;
+    return login;
+  }
+
+  return {
+    config,
+
+    /** Options for res.cookie(STATE_COOKIE, state): only sent back to the callback, gone with the login */
+    stateCookieOptions() {
+      return {
+        httpOnly: true,
+        sameSite: 'lax', // the IdP's redirect back is a top-level GET, which lax cookies still follow
+        secure: config.redirectUri.startsWith('https:'),
+        path: new URL(config.redirectUri).pathname,
+        maxAge: STATE_TTL_MS,
+      };
+    },
+
+    /** Where to send the browser for login, and the state to store in its STATE_COOKIE */
+    async authorizationUrl() {
+      const { state, verifier, nonce } = newLogin();
+      if (config.stub) {
+        const u = new URL(config.redirectUri);
+        u.searchParams.set('code', 'stub');
+        u.searchParams.set('state', state);
+        return { url: u.toString(), state };
+      }
+      const { authorization_endpoint } = await discover();
+      const u = new URL(authorization_endpoint);
+      u.searchParams.set('response_type', 'code');
+      u.searchParams.set('client_id', config.clientId);
+      u.searchParams.set('redirect_uri', config.redirectUri);
+      u.searchParams.set('scope', 'openid email profile');
+      u.searchParams.set('state', state);
+      u.searchParams.set('nonce', nonce);
+      u.searchParams.set('code_challenge', createHash('sha256').update(verifier).digest('base64url'));
+      u.searchParams.set('code_challenge_method', 'S256');
+      return { url: u.toString(), state };
+    },
+
+    /**
+     * Exchange the callback code for the user's identity: { username, subject }. `subject` (the IdP's `sub`)
+     * identifies the user; `username` is only a display name (the email only when the IdP verified it).
+     */
+    async identityFromCallback({ code, state, cookieState }) {
+      const login = code ? consumeLogin(String(state || ''), cookieState) : null;
+      if (!login) throw new Error('Invalid or expired login state');
+      if (config.stub) return { username: config.stubUser, subject: `stub:${config.stubUser}` };
+
+      const { token_endpoint, userinfo_endpoint, issuer } = await discover();
+      const tokenRes = await fetch(token_endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: String(code),
+          redirect_uri: config.redirectUri,
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          code_verifier: login.verifier,
+        }),
+      });
+      if (!tokenRes.ok) throw new Error(`OIDC token exchange failed (HTTP ${tokenRes.status})`);
+      const { access_token, id_token } = await tokenRes.json();
+
+      // The ID token came straight from the token endpoint over TLS, so its claims are trusted without the signature
+      const claims = jwtClaims(id_token);
+      const audience = Array.isArray(claims?.aud) ? claims.aud : [claims?.aud];
+      if (!claims || claims.nonce !== login.nonce) throw new Error('OIDC ID token nonce does not match');
+      if (claims.iss !== issuer || !audience.includes(config.clientId) || !claims.sub) {
+        throw new Error('OIDC ID token was not issued for this client');
+      }
+
+      const infoRes = await fetch(userinfo_endpoint, { headers: { authorization: `Bearer ${access_token}` } });
+      if (!infoRes.ok) throw new Error(`OIDC userinfo failed (HTTP ${infoRes.status})`);
+      const info = await infoRes.json();
+      if (info.sub !== claims.sub) throw new Error('OIDC userinfo does not match the ID token');
+      const email = info.email_verified === true ? info.email : '';
+      return { username: email || info.preferred_username || info.sub, subject: claims.sub };
+    },
+  };
+}
@@ -0,0 +1,231 @@
+// server/lib/prompts.js
+/* Copilot prompt templates: the system prompt, the issue-context wrapper and the quick-action buttons */
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { severityLabel } from './severity.js';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+export const PROMPT_KINDS = ['system', 'context', 'action'];
+const LABEL_MAX = 60;
+const TEMPLATE_MAX = 8000;
+
+/**
+ * Built-in templates. `system` and `context` always exist (edit or reset, never delete); the two
+ * actions are ordinary quick actions that can also be removed.
+ */
+const DEFAULTS = [
+  {
+    id: 'system',
+    kind: 'system',
+    label: 'System prompt',
+    template:
+      'You are a security remediation copilot. Be concise, step-by-step, and cite references when possible.\n\n' +
+      '{{passages}}',
+  },
+  {
+    id: 'context',
+    kind: 'context',
+    label: 'Issue context (first question)',
+    template:
+      'Context:\n{{context}}\n\nQuestion:\n{{question}}\n\n' +
+      'Please answer based on the context and the references. If steps are needed, format them clearly using markdown.',
+  },
+  {
+    id: 'about',
+    kind: 'action',
+    label: 'Tell me about this issue',
+    template: 'Tell me about this issue: "{{issue.name}}".',
+  },
+  {
+    id: 'resolve',
+    kind: 'action',
+    label: 'How to resolve this issue',
+    template: 'How to resolve this issue: "{{issue.name}}".',
+  },
+];
+
+/** Variables a template may use; `passages` only means something in the system prompt, `question` in the context */
+export const PROMPT_VARIABLES = [
+  { name: 'issue.name', description: 'Finding title' },
+  { name: 'issue.description', description: 'Finding description' },
+  { name: 'issue.category', description: 'Category' },
+  { name: 'issue.recommendations', description: 'Recommendations as a bulleted list' },
+  { name: 'severity', description: 'Severity label and score, e.g. "Critical (0.95)"' },
+  { name: 'sources', description: 'Reference links, one "- label: url" line each' },
+  { name: 'context', description: 'All of the above as one block' },
+  { name: 'question', description: 'The user\'s first question (issue context template)' },
+  { name: 'passages', description: 'Reference passages for the question, with citation instructions (system prompt)' },
+];
+
+const VAR_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function asList(v) {
+  if (v == null || v === '') return [];
+  return (Array.isArray(v) ? v : [v]).map((x) => String(x).trim()).filter(Boolean);
+}
+
+/** Template variables for a catalog finding ({ st } from findFinding); `severityLevels` name the score */
+export function issueVariables(rec, severityLevels) {
+  const st = rec?.st || {};
+  const labels = st.sem_reference_labels || {};
+  const recs = asList(st.sem_recommendations);
+  const refs = asList(st.sem_resolution_instruction);
+  const vars = {
+    'issue.name': String(st.sem_header || '').trim(),
+    'issue.description': String(st.sem_long_description || '').trim(),
+    'issue.category': String(st.sem_category || '').trim(),
+    'issue.recommendations': recs.map((r) => `- ${r}`).join('\n'),
+    severity: severityLabel(severityLevels, st.severity_score),
+    sources: refs.map((u) => `- ${labels[u] ? `${labels[u]}: ${u}` : u}`).join('\n'),
+  };
+  vars.context = [
+    vars['issue.name'] && `Issue: ${vars['issue.name']}`,
+    vars['issue.description'] && `Description: ${vars['issue.description']}`,
+    recs.length && `Recommendations:\n${vars['issue.recommendations']}`,
+    vars.severity && `Severity: ${vars.severity}`,
+    vars['issue.category'] && `Category: ${vars['issue.category']}`,
+    refs.length && `References:\n${vars.sources}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+  return vars;
+}
+
+/** Fill {{variables}}; unknown names are left as written so typos stay visible in the preview */
+export function renderTemplate(template, vars) {
+  return String(template || '')
+    .replace(VAR_RE, (whole, name) => (Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : whole))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Names used in a template that are not known variables */
+export function unknownVariables(template) {
+  const known = new Set(PROMPT_VARIABLES.map((v) => v.name));
+  return [...new Set([...String(template || '').matchAll(VAR_RE)].map((m) => m[1]))].filter((n) => !known.has(n));
+}
+
+export class PromptError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+function cleanFields({ label, template }, partial = false) {
+  const out = {};
+  if (!partial || label !== undefined) {
+    out.label = String(label ?? '').trim().slice(0, LABEL_MAX);
+    if (!out.label) throw new PromptError('label is required');
+  }
+  if (!partial || template !== undefined) {
+    out.template = String(template ?? '').trim();
+    if (!out.template) throw new PromptError('template is required');
+    if (out.template.length > TEMPLATE_MAX) {
+      throw new PromptError(`template is too long (max ${TEMPLATE_MAX} characters)`);
+    }
+  }
+  return out;
+}
+
+/**
+ * Template store in DATA_DIR/prompts.json. Until an admin changes something the built-ins are
+ * served from code, so improvements to the defaults reach untouched installs.
+ *   { id, kind: 'system' | 'context' | 'action', label, template, builtIn, updatedAt? }
+ * Actions are listed in button order.
+ */
+export function createPromptStore(dataDir) {
+  const file = path.join(dataDir, 'prompts.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return DEFAULTS.map((p) => ({ ...p }));
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      if (Array.isArray(parsed?.prompts)) return withRequired(parsed.prompts);
+    } catch (e) {
+      console.error('Failed to parse prompts file:', e);
+    }
+    return DEFAULTS.map((p) => ({ ...p }));
+  }
+
+  // A hand-edited file may have lost the system or context template; fall back to the default
+  function withRequired(list) {
+    const out = list.filter((p) => p && PROMPT_KINDS.includes(p.kind) && typeof p.template === 'string');
+    for (const d of DEFAULTS.filter((x) => x.kind !== 'action')) {
+      if (!out.some((p) => p.id === d.id)) out.unshift({ ...d });
+    }
+    return out;
+  }
+
+  function save(list) {
+    writeJsonAtomic(file, { prompts: list });
+  }
+
+  const decorate = (p) => ({ ...p, builtIn: DEFAULTS.some((d) => d.id === p.id) });
+
+  return {
+    list() {
+      return load().map(decorate);
+    },
+
+    get(id) {
+      const hit = load().find((p) => p.id === id);
+      return hit ? decorate(hit) : null;
+    },
+
+    /** New quick action, appended after the existing buttons */
+    create(fields) {
+      const list = load();
+      const prompt = { id: randomUUID(), kind: 'action', ...cleanFields(fields), updatedAt: new Date().toISOString() };
+      list.push(prompt);
+      save(list);
+      return decorate(prompt);
+    },
+
+    /** Change label and/or template; null when not found */
+    update(id, fields) {
+      const list = load();
+      const prompt = list.find((p) => p.id === id);
+      if (!prompt) return null;
+      Object.assign(prompt, cleanFields(fields, true), { updatedAt: new Date().toISOString() });
+      save(list);
+      return decorate(prompt);
+    },
+
+    /** Reorder the quick actions; ids not listed keep their relative order after the listed ones */
+    reorder(ids) {
+      const list = load();
+      const rank = new Map(ids.map((id, i) => [id, i]));
+      const actions = list.filter((p) => p.kind === 'action');
+      const sorted = [
+        ...actions.filter((p) => rank.has(p.id)).sort((a, b) => rank.get(a.id) - rank.get(b.id)),
+        ...actions.filter((p) => !rank.has(p.id)),
+      ];
+      save([...list.filter((p) => p.kind !== 'action'), ...sorted]);
+      return this.list();
+    },
+
+    /** Built-in text back (system, context and the default actions); null when there is no default */
+    reset(id) {
+      const def = DEFAULTS.find((d) => d.id === id);
+      if (!def) return null;
+      const list = load();
+      const i = list.findIndex((p) => p.id === id);
+      if (i >= 0) list[i] = { ...def };
+      else list.push({ ...def });
+      save(list);
+      return decorate(def);
+    },
+
+    /** Delete a quick action; the system and context templates can only be reset */
+    remove(id) {
+      const list = load();
+      const prompt = list.find((p) => p.id === id);
+      if (!prompt) return false;
+      if (prompt.kind !== 'action') throw new PromptError(`"${prompt.label}" can be reset but not deleted`);
+      save(list.filter((p) => p.id !== id));
+      return true;
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// server/lib/providers/anthropic.js
+/* Anthropic Messages API provider (plain fetch, no SDK dependency) */
+
+const API_VERSION = '2023-06-01';
+const MAX_TOKENS = 2048;
+
+/** Anthropic takes the system prompt as a top-level field, not as a message */
+function splitSystem(messages) {
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+  const rest = messages.filter((m) => m.role !== 'system').map((m) => ({ role: m.role, content: m.content }));
+  return { system, messages: rest };
+}
+
+async function apiError(res) {
+  let msg = `Anthropic API error ${res.status}`;
+  try {
+    const body = await res.json();
+    if (body?.error?.message) msg = body.error.message;
+  } catch {
+    /* keep status-only message */
+  }
+  const err = new Error(msg);
+  err.status = res.status;
+  return err;
+}
+
+export function createAnthropicProvider(config) {
+  const base = (config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+
+  function post(body, signal) {
+    return fetch(`${base}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+
+    async complete({ messages, temperature = config.temperature, signal }) {
+      const split = splitSystem(messages);
+      const res = await post({ model: config.model, max_tokens: MAX_TOKENS, temperature, ...split }, signal);
+      if (!res.ok) throw await apiError(res);
+      const data = await res.json();
+      const reply = (data.content || [])
+        .filter((b) => b.type === 'text')
+        .map((b) => b.text)
+        .join('');
+      const usage = data.usage
+        ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+        : null;
+      return { reply, usage };
+    },
+
+    async *stream({ messages, temperature = config.temperature, signal, onUsage }) {
+      const split = splitSystem(messages);
+      const res = await post(
+        { model: config.model, max_tokens: MAX_TOKENS, temperature, stream: true, ...split },
+        signal
+      );
+      if (!res.ok || !res.body) throw await apiError(res);
+
+      // Server-sent events: we only care about `data:` lines carrying text deltas and token counts
+      const decoder = new TextDecoder();
+      let buffer = '';
+      const usage = { promptTokens: 0, completionTokens: 0 };
+      for await (const bytes of res.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        let nl;
+        while ((nl = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, nl).trim();
+          buffer = buffer.slice(nl + 1);
+          if (!line.startsWith('data:')) continue;
+          const evt = JSON.parse(line.slice(5));
+          if (evt.type === 'content_block_delta' && evt.delta?.type === 'text_delta') yield evt.delta.text;
+          if (evt.type === 'message_start') usage.promptTokens = evt.message?.usage?.input_tokens ?? 0;
+          if (evt.type === 'message_delta') usage.completionTokens = evt.usage?.output_tokens ?? 0;
+          if (evt.type === 'message_stop') onUsage?.({ ...usage });
+          if (evt.type === 'error') throw new Error(evt.error?.message || 'Anthropic stream error');
+        }
+      }
+    },
+  };
+}
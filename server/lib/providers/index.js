@@ -0,0 +1,95 @@
+// server/lib/providers/index.js
+/* LLM provider selection from environment config */
+import { createAnthropicProvider } from './anthropic.js';
+import { createMockProvider } from './mock.js';
+import { createAzureProvider, createCompatibleProvider, createOpenAIProvider } from './openai.js';
+
+const DEFAULT_MODELS = {
+  openai: 'gpt-4o-mini',
+  azure: '', // deployment name, must be configured
+  anthropic: 'claude-3-5-haiku-latest',
+  ollama: 'llama3.1',
+  compatible: 'local-model',
+  mock: 'mock-1',
+};
+
+// Used only when search embeddings are enabled (SEARCH_EMBEDDINGS=true); anthropic has no embeddings API
+const DEFAULT_EMBEDDING_MODELS = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  mock: 'mock-embed',
+};
+
+/**
+ * Read provider settings from env:
+ *   LLM_PROVIDER     openai | azure | anthropic | ollama | compatible | mock   (default: openai)
+ *   LLM_MODEL        model (Azure: deployment name)
+ *   LLM_TEMPERATURE  default 0.2
+ *   LLM_BASE_URL     API base / endpoint (required for azure and compatible)
+ *   LLM_API_KEY      falls back to OPENAI_API_KEY / AZURE_OPENAI_API_KEY / ANTHROPIC_API_KEY
+ *   LLM_EMBEDDING_MODEL  embeddings model (Azure: deployment name) for semantic search
+ *   AZURE_OPENAI_API_VERSION
+ */
+export function loadLlmConfig(env = process.env) {
+  const provider = String(env.LLM_PROVIDER || 'openai').trim().toLowerCase();
+  const fallbackKey = {
+    openai: env.OPENAI_API_KEY,
+    azure: env.AZURE_OPENAI_API_KEY,
+    anthropic: env.ANTHROPIC_API_KEY,
+  }[provider];
+  const temperature = env.LLM_TEMPERATURE != null ? Number(env.LLM_TEMPERATURE) : 0.2;
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider] || '',
+    temperature: Number.isFinite(temperature) ? temperature : 0.2,
+    baseUrl: env.LLM_BASE_URL || (provider === 'ollama' ? 'http://localhost:11434/v1' : ''),
+    apiKey: env.LLM_API_KEY || fallbackKey || '',
+    apiVersion: env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    embeddingModel: env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider] || '',
+  };
+}
+
+/** Returns a human-readable reason when the config cannot work, else null */
+export function configError(config) {
+  const keyVar = {
+    openai: 'OPENAI_API_KEY',
+    azure: 'AZURE_OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+  }[config.provider];
+  if (!(config.provider in DEFAULT_MODELS)) return `Unknown LLM_PROVIDER "${config.provider}"`;
+  if (keyVar && !config.apiKey) return `Missing ${keyVar} (or LLM_API_KEY) on server`;
+  if ((config.provider === 'azure' || config.provider === 'compatible') && !config.baseUrl) {
+    return `LLM_BASE_URL is required for the ${config.provider} provider`;
+  }
+  if (!config.model) return `LLM_MODEL is required for the ${config.provider} provider`;
+  return null;
+}
+
+/**
+ * Build the provider. Every provider exposes:
+ *   name, model
+ *   complete({ messages, temperature?, signal? }) -> { reply, usage: { promptTokens, completionTokens } | null }
+ *   stream({ messages, temperature?, signal?, onUsage? })
+ *                                                 -> async iterable of text deltas; onUsage({ promptTokens,
+ *                                                    completionTokens }) is called once at the end when the
+ *                                                    API reports token counts
+ * and, when the provider has an embeddings model configured:
+ *   embed({ input: string[], signal? })            -> number[][] (one vector per input)
+ */
+export function createProvider(config) {
+  switch (config.provider) {
+    case 'azure':
+      return createAzureProvider(config);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'ollama':
+    case 'compatible':
+      return createCompatibleProvider(config.provider, config);
+    case 'mock':
+      return createMockProvider(config);
+    case 'openai':
+    default:
+      return createOpenAIProvider(config);
+  }
+}
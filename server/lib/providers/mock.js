@@ -0,0 +1,106 @@
+// server/lib/providers/mock.js
+/* Deterministic offline provider: canned markdown, no network. For CI, demos and UI work. */
+
+function sleep(ms, signal) {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(t);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+}
+
+function abortError() {
+  const err = new Error('Request was aborted.');
+  err.name = 'AbortError';
+  return err;
+}
+
+/** Pull the question (and issue title, if present) out of the bundled user message */
+function lastQuestion(messages) {
+  const last = [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+  const q = /Question:\n([\s\S]*?)(\n\n|$)/.exec(last)?.[1] || last;
+  const issue = /Issue: (.*)/.exec(messages.map((m) => m.content).join('\n'))?.[1];
+  return { question: q.trim(), issue: issue?.trim() };
+}
+
+function cannedReply(messages) {
+  const { question, issue } = lastQuestion(messages);
+  const passages = messages.find((m) => m.role === 'system')?.content.match(/^\[[\d.]+\] \S+/gm) || [];
+  const sources = [...new Set(passages.map((s) => s.replace(/^\[[\d.]+\] /, '')))];
+  // Cite the first passages inline the way a real model is asked to
+  const [c1, c2] = passages.map((s) => ` ${s.split(' ')[0]}`);
+  return [
+    `## Mock answer${issue ? `: ${issue}` : ''}`,
+    '',
+    `> ${question || 'No question provided.'}`,
+    '',
+    'This reply comes from the **mock** provider, so no model was called.',
+    '',
+    '### Steps',
+    `1. Review the finding description and confirm it applies to your tenant.${c1 || ''}`,
+    `2. Apply the recommended configuration change in the admin console.${c2 || c1 || ''}`,
+    '3. Re-run the scan and verify the finding is resolved.',
+    '',
+    '| Check | Expected |',
+    '| --- | --- |',
+    '| Setting enabled | Yes |',
+    '| Finding present | No |',
+    ...(sources.length ? ['', '### References', ...sources.map((u, i) => `${i + 1}. ${u}`)] : []),
+  ].join('\n');
+}
+
+/** Hashed bag-of-words vector: texts sharing words get similar vectors, which is enough to exercise search */
+function mockEmbedding(text, dims = 64) {
+  const v = new Array(dims).fill(0);
+  for (const word of String(text).toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let h = 0;
+    for (let i = 0; i < word.length; i++) h = (h * 31 + word.charCodeAt(i)) | 0;
+    v[Math.abs(h) % dims] += 1;
+  }
+  return v;
+}
+
+function approxTokens(text) {
+  return Math.ceil(String(text || '').length / 4);
+}
+
+export function createMockProvider(config) {
+  const delayMs = Number(process.env.MOCK_DELAY_MS ?? 15);
+
+  return {
+    name: 'mock',
+    model: config.model || 'mock-1',
+    embeddingModel: config.embeddingModel || 'mock-embed',
+
+    async embed({ input, signal }) {
+      if (signal?.aborted) throw abortError();
+      return input.map((t) => mockEmbedding(t));
+    },
+
+    async complete({ messages, signal }) {
+      if (signal?.aborted) throw abortError();
+      const reply = cannedReply(messages);
+      const promptTokens = messages.reduce((n, m) => n + approxTokens(m.content), 0);
+      return { reply, usage: { promptTokens, completionTokens: approxTokens(reply) } };
+    },
+
+    async *stream({ messages, signal, onUsage }) {
+      const reply = cannedReply(messages);
+      // Word-sized chunks (keeping whitespace) so the UI sees realistic incremental rendering
+      for (const piece of reply.match(/\S+\s*|\s+/g) || []) {
+        if (delayMs > 0) await sleep(delayMs, signal);
+        else if (signal?.aborted) throw abortError();
+        yield piece;
+      }
+      const promptTokens = messages.reduce((n, m) => n + approxTokens(m.content), 0);
+      onUsage?.({ promptTokens, completionTokens: approxTokens(reply) });
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// server/lib/providers/openai.js
+/* OpenAI and OpenAI-compatible chat providers (OpenAI, Azure OpenAI, Ollama, llama.cpp, vLLM…) */
+import OpenAI, { AzureOpenAI } from 'openai';
+
+function toUsage(u) {
+  if (!u) return null;
+  return { promptTokens: u.prompt_tokens ?? 0, completionTokens: u.completion_tokens ?? 0 };
+}
+
+function wrap(name, client, config, embedClient = client) {
+  const provider = {
+    name,
+    model: config.model,
+
+    async complete({ messages, temperature = config.temperature, signal }) {
+      const resp = await client.chat.completions.create(
+        { model: config.model, temperature, messages },
+        { signal }
+      );
+      return { reply: resp.choices?.[0]?.message?.content || '', usage: toUsage(resp.usage) };
+    },
+
+    async *stream({ messages, temperature = config.temperature, signal, onUsage }) {
+      // Only OpenAI and Azure are known to accept stream_options; some compatible servers reject it
+      const usageOption = name === 'openai' || name === 'azure' ? { stream_options: { include_usage: true } } : {};
+      const stream = await client.chat.completions.create(
+        { model: config.model, temperature, messages, stream: true, ...usageOption },
+        { signal }
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+        if (chunk.usage) onUsage?.(toUsage(chunk.usage));
+      }
+    },
+  };
+
+  if (config.embeddingModel) {
+    provider.embeddingModel = config.embeddingModel;
+    provider.embed = async ({ input, signal }) => {
+      const resp = await embedClient.embeddings.create({ model: config.embeddingModel, input }, { signal });
+      return [...resp.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    };
+  }
+  return provider;
+}
+
+export function createOpenAIProvider(config) {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseUrl || undefined });
+  return wrap('openai', client, config);
+}
+
+/** Azure OpenAI: LLM_BASE_URL is the resource endpoint, LLM_MODEL the deployment name */
+export function createAzureProvider(config) {
+  const client = new AzureOpenAI({
+    apiKey: config.apiKey,
+    endpoint: config.baseUrl,
+    deployment: config.model,
+    apiVersion: config.apiVersion,
+  });
+  // The SDK routes by deployment, so embeddings need a client bound to the embeddings deployment
+  const embedClient = config.embeddingModel
+    ? new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.baseUrl,
+        deployment: config.embeddingModel,
+        apiVersion: config.apiVersion,
+      })
+    : client;
+  return wrap('azure', client, config, embedClient);
+}
+
+/** Any server speaking the OpenAI /v1/chat/completions dialect (Ollama, llama.cpp server, vLLM) */
+export function createCompatibleProvider(name, config) {
+  // Local servers usually ignore the key, but the SDK insists on one
+  const client = new OpenAI({ apiKey: config.apiKey || 'not-needed', baseURL: config.baseUrl });
+  return wrap(name, client, config);
+}
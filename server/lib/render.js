@@ -0,0 +1,249 @@
+// server/lib/render.js
+/* Optional headless rendering for client-side (SPA) documentation: Playwright or Puppeteer, loaded on demand */
+import { UrlPolicyError, checkHostAddress, checkUrl, startGuardedProxy } from './urlPolicy.js';
+
+const MODES = ['never', 'auto', 'always'];
+// Not needed for the text and slow to fetch
+const SKIPPED_RESOURCES = new Set(['image', 'media', 'font', 'stylesheet']);
+const MAX_PAGES = 2; // pages rendered at once; more requests wait
+const IDLE_CLOSE_MS = 60000;
+// WebRTC sends UDP around the proxy; keep it on the proxy (i.e. off)
+const BROWSER_ARGS = ['--force-webrtc-ip-handling-policy=disable_non_proxied_udp'];
+// Runs in every frame before the page's scripts. Request interception never sees WebSockets or a service
+// worker's requests, so pages get neither (anything that still gets out goes through the guarded proxy).
+const LOCKDOWN_SCRIPT = `(() => {
+  for (const name of ['WebSocket', 'WebSocketStream']) delete window[name];
+  delete Navigator.prototype.serviceWorker;
+})();`;
+
+function parseMode(v, fallback) {
+  const mode = String(v || '').trim().toLowerCase();
+  return MODES.includes(mode) ? mode : fallback;
+}
+
+/**
+ * Env:
+ *   SCRAPE_RENDER             default mode: never | auto | always (default never)
+ *                             auto = render only when static extraction finds too little text
+ *   SCRAPE_RENDER_DOMAINS     per-domain modes, e.g. "learn.microsoft.com=always,help.example.com"
+ *                             (subdomains included; no "=mode" means auto)
+ *   SCRAPE_RENDER_MIN_CHARS   auto renders below this many extracted characters (default 500)
+ *   SCRAPE_RENDER_TIMEOUT_MS  page load budget (default 20000)
+ *   SCRAPE_RENDER_ENGINE      playwright | puppeteer (default: whichever is installed, Playwright first)
+ */
+export function loadRenderConfig(env = process.env) {
+  const domains = String(env.SCRAPE_RENDER_DOMAINS || '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      const [domain, mode] = entry.split('=').map((s) => s.trim());
+      return { domain: domain.replace(/^\*\./, ''), mode: parseMode(mode, 'auto') };
+    });
+  return {
+    mode: parseMode(env.SCRAPE_RENDER, 'never'),
+    domains,
+    minChars: Number(env.SCRAPE_RENDER_MIN_CHARS) || 500,
+    timeoutMs: Number(env.SCRAPE_RENDER_TIMEOUT_MS) || 20000,
+    engine: String(env.SCRAPE_RENDER_ENGINE || '').trim().toLowerCase() || null,
+  };
+}
+
+/** Mode for a URL: the most specific matching domain entry, else the default */
+export function renderModeFor(config, url) {
+  let host;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return 'never';
+  }
+  const hit = config.domains
+    .filter((d) => host === d.domain || host.endsWith(`.${d.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+  return hit ? hit.mode : config.mode;
+}
+
+/**
+ * Load the first available engine; returns { name, launch(proxyUrl) }. The browser sends all traffic,
+ * loopback included, through the proxy and never resolves hosts itself.
+ */
+async function loadEngine(preferred) {
+  const order = preferred ? [preferred] : ['playwright', 'puppeteer'];
+  for (const name of order) {
+    try {
+      if (name === 'playwright') {
+        const { chromium } = await import('playwright');
+        return {
+          name,
+          launch: (proxyUrl) =>
+            chromium.launch({
+              headless: true,
+              proxy: { server: proxyUrl, bypass: '<-loopback>' },
+              args: BROWSER_ARGS,
+            }),
+        };
+      }
+      if (name === 'puppeteer') {
+        const { default: puppeteer } = await import('puppeteer');
+        return {
+          name,
+          launch: (proxyUrl) =>
+            puppeteer.launch({
+              headless: true,
+              args: [`--proxy-server=${proxyUrl}`, '--proxy-bypass-list=<-loopback>', ...BROWSER_ARGS],
+            }),
+        };
+      }
+    } catch {
+      // not installed; try the next one
+    }
+  }
+  const err = new Error(
+    `Headless rendering needs ${preferred || 'playwright or puppeteer'} (npm i ${preferred || 'playwright'}, then install a browser)`
+  );
+  err.code = 'RENDER_ENGINE_MISSING';
+  throw err;
+}
+
+/**
+ * Renderer bound to the scrape URL policy. The browser starts on first use and closes after a
+ * minute idle. Top-level navigations (including redirects) must pass the full policy; subresources
+ * (scripts, XHR) may come from other hosts but never from private addresses. Every connection the
+ * browser makes goes through a guarded proxy (see startGuardedProxy) that resolves and checks the
+ * host itself, so a name that re-resolves to a private address after the check (DNS rebinding) is
+ * still refused. WebSockets and service workers are turned off.
+ *
+ *   modeFor(url)          'never' | 'auto' | 'always'
+ *   render(url)           -> { html, finalUrl, engine }
+ *   close()
+ */
+export function createRenderer(config, policy) {
+  let enginePromise = null;
+  let browserPromise = null;
+  let proxyPromise = null;
+  let idleTimer = null;
+  let active = 0;
+  const waiting = [];
+
+  async function browser() {
+    // Reported once; later renders fail fast with the same error and scrapes stay static
+    enginePromise ??= loadEngine(config.engine).catch((e) => {
+      console.error(e.message);
+      throw e;
+    });
+    const engine = await enginePromise;
+    browserPromise ??= (async () => {
+      proxyPromise ??= startGuardedProxy(policy);
+      return engine.launch((await proxyPromise).url);
+    })().catch((e) => {
+      browserPromise = null;
+      throw e;
+    });
+    return { engine, browser: await browserPromise };
+  }
+
+  async function close() {
+    clearTimeout(idleTimer);
+    const pending = browserPromise;
+    const proxy = proxyPromise;
+    browserPromise = null;
+    proxyPromise = null;
+    if (pending) await (await pending.catch(() => null))?.close().catch(() => {});
+    if (proxy) await (await proxy.catch(() => null))?.close();
+  }
+
+  async function acquire() {
+    clearTimeout(idleTimer);
+    if (active >= MAX_PAGES) await new Promise((resolve) => waiting.push(resolve));
+    else active++;
+  }
+
+  function release() {
+    // Hand the slot straight to the next waiter so the cap holds
+    const next = waiting.shift();
+    if (next) return next();
+    active--;
+    if (!active) {
+      idleTimer = setTimeout(close, IDLE_CLOSE_MS);
+      idleTimer.unref?.();
+    }
+  }
+
+  /**
+   * Policy check for one browser request; data:/blob: URLs never touch the network. The address check
+   * here only fails early with a clear reason: the proxy re-checks the address it actually connects to.
+   */
+  async function allowed(url, isNavigation) {
+    if (/^(data|blob|about):/i.test(url)) return;
+    const u = isNavigation ? checkUrl(url, policy) : new URL(url);
+    const scheme = u.protocol.replace(/:$/, '');
+    if (scheme === 'ws' || scheme === 'wss' || (!isNavigation && !policy.schemes.includes(scheme))) {
+      throw new UrlPolicyError('scheme_not_allowed', `Scheme "${scheme}" is not allowed`);
+    }
+    await checkHostAddress(u.hostname, policy);
+  }
+
+  async function renderPlaywright(b, url) {
+    const context = await b.newContext({ userAgent: 'security-copilot-scraper', serviceWorkers: 'block' });
+    try {
+      await context.addInitScript(LOCKDOWN_SCRIPT);
+      // Playwright 1.48+ can refuse WebSockets outright (the init script covers older versions)
+      await context.routeWebSocket?.(/.*/, (ws) => ws.close());
+      const page = await context.newPage();
+      await page.route('**/*', async (route) => {
+        const req = route.request();
+        if (SKIPPED_RESOURCES.has(req.resourceType())) return route.abort();
+        try {
+          await allowed(req.url(), req.isNavigationRequest() && req.frame() === page.mainFrame());
+          await route.continue();
+        } catch {
+          await route.abort('blockedbyclient');
+        }
+      });
+      await page.goto(url, { waitUntil: 'networkidle', timeout: config.timeoutMs });
+      return { html: await page.content(), finalUrl: page.url() };
+    } finally {
+      await context.close().catch(() => {});
+    }
+  }
+
+  async function renderPuppeteer(b, url) {
+    const page = await b.newPage();
+    try {
+      await page.setUserAgent('security-copilot-scraper');
+      await page.evaluateOnNewDocument(LOCKDOWN_SCRIPT);
+      await page.setRequestInterception(true);
+      page.on('request', (req) => {
+        if (SKIPPED_RESOURCES.has(req.resourceType())) return void req.abort();
+        Promise.resolve()
+          .then(() => allowed(req.url(), req.isNavigationRequest() && req.frame() === page.mainFrame()))
+          .then(
+            () => req.continue(),
+            () => req.abort('blockedbyclient')
+          );
+      });
+      await page.goto(url, { waitUntil: 'networkidle2', timeout: config.timeoutMs });
+      return { html: await page.content(), finalUrl: page.url() };
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  return {
+    modeFor: (url) => renderModeFor(config, url),
+    minChars: config.minChars,
+
+    async render(url) {
+      await acquire();
+      try {
+        const { engine, browser: b } = await browser();
+        const out = engine.name === 'playwright' ? await renderPlaywright(b, url) : await renderPuppeteer(b, url);
+        return { ...out, engine: engine.name };
+      } finally {
+        release();
+      }
+    },
+
+    close,
+  };
+}
@@ -0,0 +1,176 @@
+// server/lib/retrieval.js
+/* Retrieval for chat: chunk scraped pages, rank passages against the question, pack them into a token budget */
+import { cosine, createBm25Index } from './textIndex.js';
+
+/**
+ * Env:
+ *   RAG_CHUNK_CHARS       target passage size in characters (default 1000)
+ *   RAG_CONTEXT_TOKENS    budget for passages in the system prompt (default 3000, ~4 chars per token)
+ *   RAG_EMBEDDINGS        "true" to blend embedding similarity into BM25 (provider must support embeddings)
+ */
+export function loadRetrievalConfig(env = process.env) {
+  return {
+    chunkChars: Number(env.RAG_CHUNK_CHARS) || 1000,
+    budgetTokens: Number(env.RAG_CONTEXT_TOKENS) || 3000,
+    embeddings: String(env.RAG_EMBEDDINGS || '').toLowerCase() === 'true',
+  };
+}
+
+export function approxTokens(text) {
+  return Math.ceil(String(text || '').length / 4);
+}
+
+/**
+ * Split text into passages of about `size` characters on line (paragraph) boundaries; lines longer
+ * than `size` are cut on sentence or word boundaries. Consecutive passages share ~`overlap` chars.
+ * Returns [{ index, text, start, end, pieces }]; start/end are offsets of the passage in `text`. Lines are
+ * trimmed and rejoined with a single "\n", so `pieces` ([{ at, start }]: where each piece begins in the
+ * passage and in `text`) maps passage offsets back to the page (see sourceOffset).
+ */
+export function chunkText(text, { size = 1000, overlap = Math.round(size * 0.15) } = {}) {
+  const pieces = []; // { text, start, end }
+  const re = /[^\n]+/g;
+  const src = String(text || '');
+  let m;
+  while ((m = re.exec(src))) {
+    let rest = m[0];
+    let at0 = m.index;
+    while (rest) {
+      const lead = rest.length - rest.trimStart().length;
+      rest = rest.slice(lead);
+      at0 += lead;
+      const body = rest.trimEnd();
+      if (!body) break;
+      const window = body.slice(0, size);
+      const cut = body.length > size ? Math.max(window.lastIndexOf('. '), window.lastIndexOf(' ')) : -1;
+      const at = body.length <= size ? body.length : cut > size / 2 ? cut + 1 : size;
+      const piece = body.slice(0, at).trimEnd();
+      pieces.push({ text: piece, start: at0, end: at0 + piece.length });
+      rest = rest.slice(at);
+      at0 += at;
+    }
+  }
+
+  const chunks = [];
+  let cur = [];
+  let len = 0;
+  const flush = () => {
+    let at = 0;
+    const map = cur.map((p) => {
+      const entry = { at, start: p.start };
+      at += p.text.length + 1;
+      return entry;
+    });
+    chunks.push({
+      text: cur.map((p) => p.text).join('\n'),
+      start: cur[0].start,
+      end: cur[cur.length - 1].end,
+      pieces: map,
+    });
+  };
+  for (const piece of pieces) {
+    if (len + piece.text.length > size && cur.length) {
+      flush();
+      // Carry the tail of the previous passage over so a step split across passages keeps its context
+      const carry = [];
+      let carried = 0;
+      for (let i = cur.length - 1; i >= 0 && carried + cur[i].text.length <= overlap; i--) {
+        carry.unshift(cur[i]);
+        carried += cur[i].text.length;
+      }
+      cur = carry;
+      len = carried;
+    }
+    cur.push(piece);
+    len += piece.text.length;
+  }
+  if (cur.length) flush();
+  return chunks.map((c, index) => ({ index, ...c }));
+}
+
+/** Offset in the source page of offset `at` in a passage (passages without `pieces` map linearly) */
+export function sourceOffset(passage, at) {
+  const pieces = passage.pieces || [{ at: 0, start: passage.start ?? 0 }];
+  let piece = pieces[0];
+  for (const p of pieces) if (p.at <= at) piece = p;
+  return piece.start + (at - piece.at);
+}
+
+/** The question inside the bundled first user message ("Context: … Question: …"), else the raw text */
+function questionOf(content) {
+  return /Question:\n([\s\S]*?)(\n\n|$)/.exec(content)?.[1]?.trim() || String(content || '');
+}
+
+/**
+ * Ranking query: the latest user question plus the issue title, so generic prompts like
+ * "How do I resolve this issue?" still pull passages about the finding itself. Without an
+ * explicit title it is read from an "Issue: …" line in the messages (clients that bundle context).
+ */
+export function retrievalQuery(messages, issueTitle) {
+  const users = messages.filter((m) => m?.role === 'user' && typeof m.content === 'string');
+  const last = users[users.length - 1]?.content || '';
+  const issue = issueTitle || /Issue: (.*)/.exec(users.map((m) => m.content).join('\n'))?.[1]?.trim();
+  return [questionOf(last), issue].filter(Boolean).join('\n');
+}
+
+/**
+ * Pick the passages for the prompt.
+ *   sources: [{ url, text }]   (already scraped)
+ * Returns { passages: [{ id, source, url, chunk, score, text, start, end, pieces }], usedTokens, totalChunks }
+ * with passages in reading order (source, then chunk). Falls back to each page's opening when nothing matches.
+ */
+export async function selectPassages({ query, sources, config, llm, signal }) {
+  const chunks = [];
+  sources.forEach((s, source) => {
+    for (const c of chunkText(s.text, { size: config.chunkChars })) {
+      chunks.push({
+        id: `${source + 1}.${c.index + 1}`,
+        source,
+        url: s.url,
+        chunk: c.index,
+        text: c.text,
+        start: c.start,
+        end: c.end,
+        pieces: c.pieces,
+        score: 0,
+      });
+    }
+  });
+  if (!chunks.length) return { passages: [], usedTokens: 0, totalChunks: 0 };
+
+  const bm25 = createBm25Index(chunks.map((c) => ({ id: c.id, fields: { text: c.text } })));
+  const hits = bm25.search(query, { fuzzy: false });
+  const top = hits[0]?.score || 1;
+  const byId = new Map(chunks.map((c) => [c.id, c]));
+  for (const h of hits) byId.get(h.id).score = h.score / top;
+
+  if (config.embeddings && typeof llm?.embed === 'function') {
+    try {
+      const [q, ...vecs] = await llm.embed({ input: [query, ...chunks.map((c) => c.text)], signal });
+      chunks.forEach((c, i) => (c.score = 0.5 * c.score + 0.5 * Math.max(0, cosine(q, vecs[i]))));
+    } catch (e) {
+      if (e?.name === 'AbortError') throw e;
+      console.error('retrieval embeddings failed, using BM25 only:', e?.message || e);
+    }
+  }
+
+  // Best first; with no signal at all, prefer each page's opening passages (round-robin across sources)
+  const ranked = chunks.some((c) => c.score > 0)
+    ? [...chunks].filter((c) => c.score > 0).sort((a, b) => b.score - a.score)
+    : [...chunks].sort((a, b) => a.chunk - b.chunk || a.source - b.source);
+
+  const picked = [];
+  let usedTokens = 0;
+  for (const c of ranked) {
+    const cost = approxTokens(c.text);
+    if (usedTokens + cost > config.budgetTokens) continue;
+    picked.push(c);
+    usedTokens += cost;
+  }
+  picked.sort((a, b) => a.source - b.source || a.chunk - b.chunk);
+  return {
+    passages: picked.map((c) => ({ ...c, score: Math.round(c.score * 1000) / 1000 })),
+    usedTokens,
+    totalChunks: chunks.length,
+  };
+}
@@ -0,0 +1,80 @@
+// server/lib/revisions.js
+/* Version history of finding templates: a full sem_template snapshot per change, for diff and restore */
+import fs from 'fs';
+import path from 'path';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+const REVISIONS_MAX = 50; // per finding; the oldest snapshots are dropped
+
+function same(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Revision store in DATA_DIR/revisions.json, keyed by finding id (sem_id). Each finding has a list of
+ *   { rev, at, by, action, template, restoredFrom? }
+ * oldest first, where `template` is the sem_template after the change and `action` is one of
+ * create | update | import | restore (an older revision brought back) | undelete (out of the trash)
+ * | baseline (the state before the first recorded change, for findings older than this history).
+ */
+export function createRevisionStore(dataDir) {
+  const file = path.join(dataDir, 'revisions.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return { items: {} };
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return parsed?.items && typeof parsed.items === 'object' ? parsed : { items: {} };
+    } catch (e) {
+      console.error('Failed to parse revisions file:', e);
+      return { items: {} };
+    }
+  }
+
+  function save(obj) {
+    writeJsonAtomic(file, obj);
+  }
+
+  return {
+    /** Revisions of one finding, newest first */
+    list(id) {
+      return [...(load().items[id] || [])].reverse();
+    },
+
+    get(id, rev) {
+      return (load().items[id] || []).find((r) => r.rev === Number(rev)) || null;
+    },
+
+    /**
+     * Snapshot `after` for finding `id`. `before` (the template prior to this change) is kept as a
+     * baseline when the finding has no history yet, so the first edit never loses the old wording.
+     * Nothing is recorded when the template equals the latest snapshot. Returns the new revision or null.
+     */
+    record(id, { before, after, user, action = 'update', restoredFrom }) {
+      const data = load();
+      const list = data.items[id] || [];
+      const at = new Date().toISOString();
+      let next = (list[list.length - 1]?.rev || 0) + 1;
+      if (!list.length && before && !same(before, after)) {
+        list.push({ rev: next++, at, by: '', action: 'baseline', template: structuredClone(before) });
+      }
+      if (list.length && same(list[list.length - 1].template, after)) return null;
+
+      const entry = { rev: next, at, by: user?.username || '', action, template: structuredClone(after) };
+      if (restoredFrom != null) entry.restoredFrom = restoredFrom;
+      list.push(entry);
+      data.items[id] = list.slice(-REVISIONS_MAX);
+      save(data);
+      return entry;
+    },
+
+    /** Drop a finding's history (when it is deleted for good) */
+    remove(id) {
+      const data = load();
+      if (!data.items[id]) return false;
+      delete data.items[id];
+      save(data);
+      return true;
+    },
+  };
+}
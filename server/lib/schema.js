@@ -0,0 +1,192 @@
+// server/lib/schema.js
+/* The one schema for finding templates (sem_template), the nested catalog file they live in and chat histories */
+import { parseLocation, parseReferences } from './catalog.js';
+
+export const DEFAULT_CATEGORY = 'Configuration Changes';
+
+/** Field-level validation failure: `fields` is { [field]: message }; finding routes map it to 422, chat to 400 */
+export class ValidationError extends Error {
+  constructor(fields) {
+    super(`Validation failed: ${Object.values(fields).join('; ')}`);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+/** Absolute http(s) URL */
+export function isHttpUrl(value) {
+  try {
+    const u = new URL(value);
+    return u.protocol === 'http:' || u.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+const ok = (value) => ({ value });
+const bad = (error) => ({ error });
+
+function text(label) {
+  return (v) => (typeof v === 'string' ? ok(v) : bad(`${label} must be text`));
+}
+
+function textList(label) {
+  return (v) => {
+    const list = Array.isArray(v) ? v : [v];
+    if (list.some((x) => typeof x !== 'string')) return bad(`${label} must be a list of text lines`);
+    return ok(list.map((x) => x.trim()).filter(Boolean));
+  };
+}
+
+/**
+ * sem_template fields. `parse(value)` -> { value } (the stored form) or { error } (shown next to the field);
+ * `fallback` fills the field on a new finding that leaves it out. sem_id is assigned by the server.
+ */
+const TEMPLATE_FIELDS = {
+  sem_header: {
+    required: 'Title is required',
+    parse: (v) => (typeof v === 'string' && v.trim() ? ok(v.trim()) : bad('Title is required')),
+  },
+  sem_category: {
+    fallback: DEFAULT_CATEGORY,
+    parse: (v) => (typeof v === 'string' ? ok(v.trim() || DEFAULT_CATEGORY) : bad('Category must be text')),
+  },
+  severity_score: {
+    fallback: 0,
+    // Numeric strings are accepted (form and CSV input); out-of-range values are clamped to 0..1
+    parse(v) {
+      const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() ? Number(v) : NaN;
+      if (!Number.isFinite(n)) return bad('Severity must be a number between 0 and 1');
+      return ok(Math.min(1, Math.max(0, n)));
+    },
+  },
+  sem_long_description: { fallback: '', parse: text('Description') },
+  sem_recommendations: { fallback: [], parse: textList('Recommendations') },
+  sem_resolution_instruction: {
+    fallback: [],
+    parse(v) {
+      const list = Array.isArray(v) ? v : [v];
+      if (list.some((x) => typeof x !== 'string')) return bad('References must be a list of URLs');
+      const urls = parseReferences(list);
+      const invalid = urls.filter((u) => !isHttpUrl(u));
+      if (invalid.length) {
+        return bad(`Not a valid http(s) URL: ${invalid.map((u) => `"${u}"`).join(', ')}`);
+      }
+      return ok(urls);
+    },
+  },
+  // { [url]: label }; labels are matched to the remaining URLs by referenceLabels() when stored
+  sem_reference_labels: {
+    parse(v) {
+      if (typeof v !== 'object' || Array.isArray(v) || Object.values(v).some((x) => typeof x !== 'string')) {
+        return bad('Reference labels must map URLs to text');
+      }
+      return ok(v);
+    },
+  },
+};
+
+export const TEMPLATE_FIELD_NAMES = Object.keys(TEMPLATE_FIELDS);
+
+/**
+ * Check a sem_template (request body, import row, restored revision) against the schema. Returns the
+ * clean fields; unknown keys and sem_id are dropped. A new finding (`partial` false) gets the fallbacks
+ * for absent fields; an update (`partial` true) only returns the fields present (non-null) in `input`.
+ * Throws ValidationError listing every bad field.
+ */
+export function validateTemplate(input, { partial = false } = {}) {
+  const out = {};
+  const errors = {};
+  for (const [key, field] of Object.entries(TEMPLATE_FIELDS)) {
+    const v = input?.[key];
+    if (v == null) {
+      if (partial) continue;
+      if (field.required) errors[key] = field.required;
+      else if ('fallback' in field) out[key] = structuredClone(field.fallback);
+      continue;
+    }
+    const { value, error } = field.parse(v);
+    if (error) errors[key] = error;
+    else out[key] = value;
+  }
+  if (Object.keys(errors).length) throw new ValidationError(errors);
+  return out;
+}
+
+/**
+ * POST/PUT /api/issues body: sem_template fields plus an optional `location` ({ section, subSection }
+ * indexes). -> { template, location } or throws ValidationError (template and location errors together).
+ */
+export function validateIssueBody(body, { partial = false } = {}) {
+  const errors = {};
+  let template = {};
+  try {
+    template = validateTemplate(body, { partial });
+  } catch (e) {
+    if (!(e instanceof ValidationError)) throw e;
+    Object.assign(errors, e.fields);
+  }
+  const location = parseLocation(body?.location);
+  if (location === null) errors.location = 'Location must be { section, subSection } indexes';
+  if (Object.keys(errors).length) throw new ValidationError(errors);
+  return { template, location };
+}
+
+const isObject = (v) => v != null && typeof v === 'object' && !Array.isArray(v);
+
+/**
+ * Problems with a nested catalog { sections: [{ title?, sub_sections: [{ title?, finding_templates:
+ * [{ sem_template }] }] }] } as { [path]: message }, e.g. "sections[0].sub_sections[1].finding_templates[2]
+ * .sem_template.severity_score". `templates: false` checks the structure only. Empty when the file is valid.
+ */
+export function catalogErrors(doc, { templates = true } = {}) {
+  const errors = {};
+  if (!isObject(doc) || !Array.isArray(doc.sections)) return { sections: 'sections must be an array' };
+  doc.sections.forEach((sec, i) => {
+    const at = `sections[${i}]`;
+    if (!isObject(sec)) return (errors[at] = 'must be an object');
+    if (sec.title != null && typeof sec.title !== 'string') errors[`${at}.title`] = 'must be text';
+    if (!Array.isArray(sec.sub_sections)) return (errors[`${at}.sub_sections`] = 'must be an array');
+    sec.sub_sections.forEach((sub, j) => {
+      const subAt = `${at}.sub_sections[${j}]`;
+      if (!isObject(sub)) return (errors[subAt] = 'must be an object');
+      if (sub.title != null && typeof sub.title !== 'string') errors[`${subAt}.title`] = 'must be text';
+      if (!Array.isArray(sub.finding_templates)) return (errors[`${subAt}.finding_templates`] = 'must be an array');
+      sub.finding_templates.forEach((ft, k) => {
+        const ftAt = `${subAt}.finding_templates[${k}].sem_template`;
+        if (!isObject(ft?.sem_template)) return (errors[ftAt] = 'must be an object');
+        if (!templates) return;
+        try {
+          validateTemplate(ft.sem_template);
+        } catch (e) {
+          if (!(e instanceof ValidationError)) throw e;
+          for (const [field, message] of Object.entries(e.fields)) errors[`${ftAt}.${field}`] = message;
+        }
+      });
+    });
+  });
+  return errors;
+}
+
+// Roles a client may send; the system prompt always comes from the prompt templates
+const CHAT_ROLES = ['user', 'assistant'];
+
+/**
+ * Chat history from a request body: a non-empty array of { role: 'user' | 'assistant', content: non-empty
+ * text }. Returns [{ role, content }] (other keys dropped); throws ValidationError keyed "messages[i].role".
+ */
+export function validateChatMessages(messages) {
+  if (!Array.isArray(messages) || !messages.length) {
+    throw new ValidationError({ messages: 'messages must be a non-empty array' });
+  }
+  const errors = {};
+  messages.forEach((m, i) => {
+    if (!isObject(m)) return (errors[`messages[${i}]`] = 'must be an object');
+    if (!CHAT_ROLES.includes(m.role)) errors[`messages[${i}].role`] = `Role must be one of: ${CHAT_ROLES.join(', ')}`;
+    if (typeof m.content !== 'string' || !m.content.trim()) {
+      errors[`messages[${i}].content`] = 'Content must be non-empty text';
+    }
+  });
+  if (Object.keys(errors).length) throw new ValidationError(errors);
+  return messages.map(({ role, content }) => ({ role, content }));
+}
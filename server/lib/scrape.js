@@ -0,0 +1,129 @@
+// server/lib/scrape.js
+/* Fetch a reference (documentation page, PDF or text file) and turn it into Markdown for the copilot */
+import { EXTRACTOR_VERSION, extractDocument, htmlToMarkdown } from './extract.js';
+import { normalizeUrl } from './scrapeCache.js';
+import { UrlPolicyError, checkUrl, safeFetch } from './urlPolicy.js';
+
+const FETCH_TIMEOUT_MS = 15000;
+// Whole pages are kept (the chat ranks passages instead of cutting the page short); this only caps runaway pages
+const MAX_TEXT = Number(process.env.SCRAPE_MAX_TEXT_CHARS) || 200000;
+
+/**
+ * Scrape one URL through the cache:
+ *   fresh entry          -> served from disk, no request
+ *   stale entry          -> conditional GET (If-None-Match / If-Modified-Since); 304 keeps the text
+ *   miss / changed page  -> full fetch + parse, then stored
+ * Every network hop goes through the URL policy (see urlPolicy.js); violations come back as
+ * { ok: false, reason, error } so the client can tell "blocked" from "site down".
+ * `text` is Markdown of the main content (see extract.js); entries cached by an older extractor
+ * are treated as misses. With a `renderer` (see render.js), HTML pages whose domain asks for it are
+ * rendered in a headless browser: always, or in auto mode only when the static text is too short;
+ * any rendering failure falls back to the static text.
+ * Result: { url, ok, text?, format?, title?, rendered?, status?, reason?, error?, cached?, fetchedAt? }
+ */
+export async function scrapeUrl(rawUrl, { cache, policy, renderer } = {}) {
+  const url = String(rawUrl || '').trim();
+  if (!url) return { url, ok: false, status: 400, reason: 'invalid_url', error: 'Empty URL' };
+
+  let key;
+  try {
+    // Policy first, so a URL that is no longer allowed is not served from cache either
+    checkUrl(url, policy);
+    key = normalizeUrl(url);
+  } catch (e) {
+    return failure(url, e);
+  }
+
+  const cachedEntry = cache?.get(key);
+  const entry = cachedEntry?.extractor === EXTRACTOR_VERSION ? cachedEntry : null;
+  if (entry && cache.isFresh(entry)) {
+    return { url, ok: true, ...fromEntry(entry), cached: true, fetchedAt: entry.fetchedAt };
+  }
+
+  const headers = {};
+  if (entry?.etag) headers['if-none-match'] = entry.etag;
+  if (entry?.lastModified) headers['if-modified-since'] = entry.lastModified;
+
+  try {
+    const controller = new AbortController();
+    const t = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    let r;
+    try {
+      r = await safeFetch(url, { policy, headers, signal: controller.signal });
+    } finally {
+      clearTimeout(t);
+    }
+
+    if (r.status === 304 && entry) {
+      const fetchedAt = new Date().toISOString();
+      cache.set(key, { ...entry, fetchedAt });
+      return { url, ok: true, ...fromEntry(entry), cached: true, fetchedAt };
+    }
+    if (!r.body) {
+      return { url, ok: false, status: r.status, reason: 'http_error', error: `HTTP ${r.status}` };
+    }
+
+    let doc;
+    try {
+      doc = await extractDocument(r.body, { contentType: r.headers['content-type'], url: r.finalUrl || url });
+    } catch (e) {
+      const error = e?.message || 'Unreadable document';
+      return { url, ok: false, status: r.status, reason: 'unsupported_content_type', error };
+    }
+    if (renderer && doc.format === 'html') doc = await withRendering(renderer, r.finalUrl || url, doc);
+    const text = doc.text.length > MAX_TEXT ? doc.text.slice(0, MAX_TEXT) : doc.text;
+    const fetchedAt = new Date().toISOString();
+    cache?.set(key, {
+      url,
+      text,
+      format: doc.format,
+      title: doc.title || undefined,
+      rendered: doc.rendered || undefined,
+      extractor: EXTRACTOR_VERSION,
+      etag: r.headers.etag || undefined,
+      lastModified: r.headers['last-modified'] || undefined,
+      fetchedAt,
+    });
+    return {
+      url,
+      ok: true,
+      text,
+      format: doc.format,
+      title: doc.title || undefined,
+      rendered: doc.rendered || undefined,
+      cached: false,
+      fetchedAt,
+    };
+  } catch (e) {
+    return failure(url, e);
+  }
+}
+
+/** Replace the static extraction with the rendered page when the domain's render mode calls for it */
+async function withRendering(renderer, url, doc) {
+  const mode = renderer.modeFor(url);
+  if (mode === 'never' || (mode === 'auto' && doc.text.length >= renderer.minChars)) return doc;
+  try {
+    const page = await renderer.render(url);
+    const rendered = htmlToMarkdown(page.html);
+    // "always" trusts the browser; "auto" only switches when rendering actually found more text
+    if (!rendered.text || (mode === 'auto' && rendered.text.length <= doc.text.length)) return doc;
+    return { format: 'html', ...rendered, rendered: true };
+  } catch (e) {
+    if (e?.code !== 'RENDER_ENGINE_MISSING') {
+      console.error(`render failed for ${url}, using static text:`, e?.message || e);
+    }
+    return doc;
+  }
+}
+
+function fromEntry(entry) {
+  return { text: entry.text, format: entry.format || 'html', title: entry.title, rendered: entry.rendered };
+}
+
+function failure(url, e) {
+  if (e instanceof UrlPolicyError) {
+    return { url, ok: false, status: e.status ?? 0, reason: e.reason, error: e.message };
+  }
+  return { url, ok: false, status: 0, reason: 'fetch_failed', error: e?.message || 'Fetch failed' };
+}
@@ -0,0 +1,94 @@
+// server/lib/scrapeCache.js
+/* On-disk cache for scraped pages (DATA_DIR/scrape-cache), keyed by normalized URL */
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+const TRACKING_PARAM = /^(utm_[a-z]+|gclid|fbclid|mc_cid|mc_eid)$/i;
+
+/**
+ * Canonical form used as the cache key: lower-case scheme/host, no default port,
+ * no fragment, no tracking params, remaining query params sorted.
+ */
+export function normalizeUrl(raw) {
+  const u = new URL(String(raw).trim());
+  u.hash = '';
+  u.hostname = u.hostname.toLowerCase();
+  if ((u.protocol === 'http:' && u.port === '80') || (u.protocol === 'https:' && u.port === '443')) u.port = '';
+  const params = [...u.searchParams.entries()]
+    .filter(([k]) => !TRACKING_PARAM.test(k))
+    .sort(([a], [b]) => a.localeCompare(b));
+  u.search = '';
+  for (const [k, v] of params) u.searchParams.append(k, v);
+  return u.toString();
+}
+
+export function createScrapeCache(dataDir, { ttlMs }) {
+  const dir = path.join(dataDir, 'scrape-cache');
+
+  function fileFor(key) {
+    return path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  function read(file) {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    ttlMs,
+
+    /** Cached entry for a (normalized) URL, or null */
+    get(key) {
+      const file = fileFor(key);
+      return fs.existsSync(file) ? read(file) : null;
+    },
+
+    isFresh(entry, now = Date.now()) {
+      return !!entry && now - Date.parse(entry.fetchedAt) < ttlMs;
+    },
+
+    /** entry: { url, text, format?, title?, rendered?, extractor?, etag?, lastModified?, fetchedAt } */
+    set(key, entry) {
+      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(fileFor(key), JSON.stringify({ ...entry, key }), 'utf8');
+    },
+
+    /** Summaries of every entry (no page text) */
+    list() {
+      if (!fs.existsSync(dir)) return [];
+      return fs
+        .readdirSync(dir)
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => read(path.join(dir, f)))
+        .filter(Boolean)
+        .map((e) => ({
+          url: e.key,
+          fetchedAt: e.fetchedAt,
+          etag: e.etag || null,
+          lastModified: e.lastModified || null,
+          format: e.format || 'html',
+          rendered: !!e.rendered,
+          size: (e.text || '').length,
+          fresh: this.isFresh(e),
+        }));
+    },
+
+    /** Remove one URL's entry, or everything when no key is given; returns the count removed */
+    purge(key) {
+      if (!fs.existsSync(dir)) return 0;
+      if (key) {
+        const file = fileFor(key);
+        if (!fs.existsSync(file)) return 0;
+        fs.unlinkSync(file);
+        return 1;
+      }
+      const files = fs.readdirSync(dir).filter((f) => f.endsWith('.json'));
+      for (const f of files) fs.unlinkSync(path.join(dir, f));
+      return files.length;
+    },
+  };
+}
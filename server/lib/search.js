@@ -0,0 +1,166 @@
+// server/lib/search.js
+/* Finding search: BM25 + fuzzy matching with highlights, optionally blended with embedding similarity */
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { forEachFinding, sectionLabel } from './catalog.js';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+import { cosine, createBm25Index, highlightRanges, snippet } from './textIndex.js';
+
+// Title matches matter most; category is short so a hit there is a strong signal too
+const FIELD_WEIGHTS = { sem_header: 3, sem_category: 2, sem_long_description: 1, sem_recommendations: 1 };
+const LEXICAL_SHARE = 0.6; // blend: 60% BM25 (normalized), 40% cosine similarity
+const EMBED_BATCH = 64;
+
+function sha1(text) {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+function asText(v) {
+  return Array.isArray(v) ? v.join('\n') : String(v ?? '');
+}
+
+function findingDocs(doc) {
+  const docs = [];
+  forEachFinding(doc, ({ sec, sub, st, section, subSection }) => {
+    if (!st.sem_header) return;
+    docs.push({
+      id: st.sem_id || st.sem_header,
+      section: sectionLabel(sec.title, section),
+      subSection: sectionLabel(sub.title, subSection, 'Sub-section'),
+      fields: {
+        sem_header: asText(st.sem_header),
+        sem_category: asText(st.sem_category),
+        sem_long_description: asText(st.sem_long_description),
+        sem_recommendations: asText(st.sem_recommendations),
+      },
+    });
+  });
+  return docs;
+}
+
+/**
+ * Env:
+ *   SEARCH_EMBEDDINGS        "true" to blend in embeddings from the LLM provider (needs LLM_EMBEDDING_MODEL support)
+ *   SEARCH_MIN_SIMILARITY    cosine threshold for semantic-only hits (default 0.35)
+ * Embeddings are cached per text + model in DATA_DIR/search-embeddings.json.
+ */
+export function createFindingSearch({ dataDir, llm, env = process.env }) {
+  const wantEmbeddings = String(env.SEARCH_EMBEDDINGS || '').toLowerCase() === 'true';
+  const minSimilarity = Number(env.SEARCH_MIN_SIMILARITY) || 0.35;
+  const cacheFile = path.join(dataDir, 'search-embeddings.json');
+  let index = null; // { signature, docs, bm25 }
+  let vectors = null; // key -> number[]
+
+  const semanticAvailable = () => wantEmbeddings && typeof llm?.embed === 'function';
+
+  function indexFor(doc) {
+    const docs = findingDocs(doc);
+    const signature = sha1(JSON.stringify(docs));
+    if (index?.signature !== signature) {
+      index = { signature, docs, bm25: createBm25Index(docs, { weights: FIELD_WEIGHTS }) };
+    }
+    return index;
+  }
+
+  function loadVectors() {
+    if (vectors) return vectors;
+    try {
+      vectors = fs.existsSync(cacheFile) ? JSON.parse(fs.readFileSync(cacheFile, 'utf8')).vectors || {} : {};
+    } catch (e) {
+      console.error('Failed to parse search embeddings cache:', e);
+      vectors = {};
+    }
+    return vectors;
+  }
+
+  /**
+   * Vectors for the findings' texts, embedding only the ones not seen before. The cache is
+   * pruned to the current texts whenever it is written, so edits don't accumulate stale vectors.
+   */
+  async function embedFindings(texts, signal) {
+    const cache = loadVectors();
+    const keys = texts.map((t) => sha1(`${llm.embeddingModel}\n${t}`));
+    const missing = [...new Set(keys.map((k, i) => (cache[k] ? null : i)).filter((i) => i != null))];
+    for (let i = 0; i < missing.length; i += EMBED_BATCH) {
+      const batch = missing.slice(i, i + EMBED_BATCH);
+      const out = await llm.embed({ input: batch.map((j) => texts[j]), signal });
+      batch.forEach((j, n) => (cache[keys[j]] = out[n]));
+    }
+    if (missing.length) {
+      vectors = Object.fromEntries(keys.map((k) => [k, cache[k]]));
+      writeJsonAtomic(cacheFile, { model: llm.embeddingModel, vectors });
+    }
+    return keys.map((k) => vectors[k]);
+  }
+
+  return {
+    semanticAvailable,
+
+    /**
+     * Search the catalog. Returns { results, semantic, warning? } where each result is
+     * { id, header, category, section, subSection, score, terms, highlights: { header, snippet } }
+     * and highlight ranges are [start, end) offsets into the returned strings.
+     */
+    async search(doc, query, { limit = 20, semantic = true, signal } = {}) {
+      const { docs, bm25 } = indexFor(doc);
+      const lexical = bm25.search(query);
+      const top = lexical[0]?.score || 1;
+      const scored = new Map(lexical.map((r) => [r.id, { score: r.score / top, terms: r.terms, similarity: null }]));
+
+      let usedSemantic = false;
+      let warning;
+      if (semantic && semanticAvailable() && query.trim()) {
+        try {
+          const texts = docs.map((d) => `${d.fields.sem_header}\n${d.fields.sem_long_description}`);
+          const docVecs = await embedFindings(texts, signal);
+          const [queryVec] = await llm.embed({ input: [query], signal });
+          docs.forEach((d, i) => {
+            const sim = cosine(queryVec, docVecs[i]);
+            const hit = scored.get(d.id);
+            if (hit) {
+              hit.similarity = sim;
+              hit.score = LEXICAL_SHARE * hit.score + (1 - LEXICAL_SHARE) * Math.max(0, sim);
+            } else if (sim >= minSimilarity) {
+              scored.set(d.id, { score: (1 - LEXICAL_SHARE) * sim, terms: [], similarity: sim });
+            }
+          });
+          usedSemantic = true;
+        } catch (e) {
+          if (e?.name === 'AbortError') throw e;
+          console.error('search embeddings failed:', e?.message || e);
+          warning = 'Semantic search is unavailable right now; showing keyword matches only';
+        }
+      }
+
+      const byId = new Map(docs.map((d) => [d.id, d]));
+      const results = [...scored.entries()]
+        .sort((a, b) => b[1].score - a[1].score)
+        .slice(0, limit)
+        .map(([id, hit]) => {
+          const d = byId.get(id);
+          const header = d.fields.sem_header;
+          // Snippet from the first body field that contains a match (else the description opening)
+          const body =
+            ['sem_long_description', 'sem_recommendations'].find((f) => highlightRanges(d.fields[f], hit.terms).length) ||
+            'sem_long_description';
+          return {
+            id,
+            header,
+            category: d.fields.sem_category,
+            section: d.section,
+            subSection: d.subSection,
+            score: Math.round(hit.score * 1000) / 1000,
+            similarity: hit.similarity != null ? Math.round(hit.similarity * 1000) / 1000 : undefined,
+            terms: hit.terms,
+            highlights: {
+              header: highlightRanges(header, hit.terms),
+              snippet: { field: body, ...snippet(d.fields[body], highlightRanges(d.fields[body], hit.terms)) },
+            },
+          };
+        });
+
+      return { results, semantic: usedSemantic, ...(warning ? { warning } : {}) };
+    },
+  };
+}
@@ -0,0 +1,104 @@
+// server/lib/severity.js
+/* Severity levels: named score bands (with color and icon) that every view, filter and prompt uses */
+import fs from 'fs';
+import path from 'path';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+/** Icons the client ships (app/public/icons/<name>.png); 'none' shows a dot in the level's color */
+export const SEVERITY_ICONS = ['critical', 'important', 'moderate', 'none'];
+const LEVELS_MAX = 8;
+const NAME_MAX = 40;
+
+/** Built-in levels; `min` is the lowest severity_score (0..1, inclusive) of the band */
+const DEFAULT_LEVELS = [
+  { name: 'Critical', min: 0.9, color: '#dc2626', icon: 'critical' },
+  { name: 'Important', min: 0.61, color: '#f59e0b', icon: 'important' },
+  { name: 'Moderate', min: 0, color: '#2563eb', icon: 'moderate' },
+];
+
+export class SeverityError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SeverityError';
+  }
+}
+
+/** Validated levels from a request body, highest band first; the lowest band must start at 0 */
+function cleanLevels(input) {
+  if (!Array.isArray(input) || !input.length) throw new SeverityError('levels must be a non-empty array');
+  if (input.length > LEVELS_MAX) throw new SeverityError(`At most ${LEVELS_MAX} levels`);
+
+  const levels = input.map((l, i) => {
+    const name = String(l?.name ?? '').trim();
+    if (!name) throw new SeverityError(`Level ${i + 1} needs a name`);
+    if (name.length > NAME_MAX) throw new SeverityError(`"${name}" is too long (max ${NAME_MAX} characters)`);
+    const min = typeof l.min === 'number' ? l.min : Number.NaN;
+    if (!(min >= 0 && min <= 1)) throw new SeverityError(`"${name}": minimum score must be a number between 0 and 1`);
+    const color = String(l.color ?? '').trim().toLowerCase();
+    if (!/^#[0-9a-f]{6}$/.test(color)) throw new SeverityError(`"${name}": color must be a hex color like #dc2626`);
+    const icon = l.icon == null || l.icon === '' ? 'none' : String(l.icon);
+    if (!SEVERITY_ICONS.includes(icon)) {
+      throw new SeverityError(`"${name}": icon must be one of: ${SEVERITY_ICONS.join(', ')}`);
+    }
+    return { name, min, color, icon };
+  });
+
+  const names = new Set(levels.map((l) => l.name.toLowerCase()));
+  if (names.size !== levels.length) throw new SeverityError('Level names must be unique');
+  const mins = new Set(levels.map((l) => l.min));
+  if (mins.size !== levels.length) throw new SeverityError('Two levels cannot start at the same score');
+  levels.sort((a, b) => b.min - a.min);
+  if (levels[levels.length - 1].min !== 0) throw new SeverityError('The lowest level must start at 0');
+  return levels;
+}
+
+/** Level whose band holds `score` (levels highest first), or null when the score is missing */
+export function severityLevel(levels, score) {
+  const n = score == null || score === '' ? Number.NaN : Number(score);
+  if (Number.isNaN(n)) return null;
+  return levels.find((l) => n >= l.min) || levels[levels.length - 1] || null;
+}
+
+/** "Critical (0.95)", or '' without a score */
+export function severityLabel(levels, score) {
+  const level = severityLevel(levels, score);
+  return level ? `${level.name} (${Number(score)})` : '';
+}
+
+/**
+ * Severity level store in DATA_DIR/severity.json ({ levels, updatedAt, updatedBy }); without the file
+ * the built-in levels apply.
+ */
+export function createSeverityStore(dataDir) {
+  const file = path.join(dataDir, 'severity.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return structuredClone(DEFAULT_LEVELS);
+    try {
+      return cleanLevels(JSON.parse(fs.readFileSync(file, 'utf8')).levels);
+    } catch (e) {
+      console.error('Failed to load severity levels, using the defaults:', e);
+      return structuredClone(DEFAULT_LEVELS);
+    }
+  }
+
+  return {
+    /** Current levels, highest band first */
+    levels() {
+      return load();
+    },
+
+    /** Replace every level (throws SeverityError); returns the saved levels */
+    update(input, user) {
+      const levels = cleanLevels(input);
+      writeJsonAtomic(file, { levels, updatedAt: new Date().toISOString(), updatedBy: user?.username || '' });
+      return levels;
+    },
+
+    /** Back to the built-in levels */
+    reset() {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+      return structuredClone(DEFAULT_LEVELS);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// server/lib/storage/atomicWrite.js
+/* Crash-safe file replace: write a temp file, fsync, then rename over the target */
+import fs from 'fs';
+import path from 'path';
+
+let counter = 0;
+
+export function writeFileAtomic(file, contents) {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+  const tmp = path.join(dir, `.${path.basename(file)}.${process.pid}.${counter++}.tmp`);
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeFileSync(fd, contents, 'utf8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  // rename() is atomic on the same filesystem: readers see the old or the new file, never half of one
+  fs.renameSync(tmp, file);
+}
+
+export function writeJsonAtomic(file, obj) {
+  writeFileAtomic(file, JSON.stringify(obj, null, 2));
+}
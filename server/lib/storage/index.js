@@ -0,0 +1,48 @@
+// server/lib/storage/index.js
+/* Issue catalog repository: JSON file (default) or SQLite, chosen by STORAGE_DRIVER */
+import fs from 'fs';
+import path from 'path';
+import { createJsonIssueRepository } from './jsonStore.js';
+import { createSqliteIssueRepository } from './sqliteStore.js';
+
+export { noWrite } from './mutation.js';
+
+/** Seed catalog, or an empty one when the seed file is missing/broken */
+function seedLoader(seedFile) {
+  return () => {
+    try {
+      const seed = JSON.parse(fs.readFileSync(seedFile, 'utf8'));
+      if (Array.isArray(seed.sections)) return seed;
+    } catch (e) {
+      console.error('Failed to load seed file:', e);
+    }
+    return { sections: [] };
+  };
+}
+
+/**
+ * Repository contract (both drivers):
+ *   driver                 'json' | 'sqlite'
+ *   read()                 -> nested { sections: [...] } catalog
+ *   update(mutate)         -> mutate(doc) edits in place; a truthy return value is persisted atomically and
+ *                             returned (return noWrite(value) to report an outcome without writing)
+ *   replace(doc)           -> overwrite the whole catalog
+ *
+ * Env: STORAGE_DRIVER = json | sqlite (default json). SQLite lives in DATA_DIR/issues.db and, on
+ * first start, imports DATA_DIR/issues.json if present (otherwise the seed).
+ */
+export async function createIssueRepository({ dataDir, seedFile, driver = process.env.STORAGE_DRIVER || 'json' }) {
+  if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
+  const jsonFile = path.join(dataDir, 'issues.json');
+  const loadSeed = seedLoader(seedFile);
+
+  if (driver === 'sqlite') {
+    return createSqliteIssueRepository({
+      file: path.join(dataDir, 'issues.db'),
+      loadSeed,
+      importFrom: () => (fs.existsSync(jsonFile) ? JSON.parse(fs.readFileSync(jsonFile, 'utf8')) : null),
+    });
+  }
+  if (driver !== 'json') throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected json or sqlite)`);
+  return createJsonIssueRepository({ file: jsonFile, loadSeed });
+}
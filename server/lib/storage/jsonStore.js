@@ -0,0 +1,45 @@
+// server/lib/storage/jsonStore.js
+/* Issue catalog kept as one nested JSON file (the original format), written atomically */
+import fs from 'fs';
+import { writeJsonAtomic } from './atomicWrite.js';
+import { settle } from './mutation.js';
+
+export function createJsonIssueRepository({ file, loadSeed }) {
+  function read() {
+    if (!fs.existsSync(file)) {
+      const seed = loadSeed();
+      writeJsonAtomic(file, seed);
+      return seed;
+    }
+    const raw = fs.readFileSync(file, 'utf8');
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed?.sections)) parsed.sections = [];
+      return parsed;
+    } catch (e) {
+      // Never fall back to the seed here: that would silently overwrite real data on the next write
+      throw new Error(`Data file ${file} is not valid JSON: ${e.message}`);
+    }
+  }
+
+  return {
+    driver: 'json',
+    read,
+
+    /**
+     * Read-modify-write the whole catalog. `mutate(doc)` edits doc in place and returns a
+     * result; a falsy result or noWrite(value) means "nothing changed" and skips the write.
+     */
+    update(mutate) {
+      const doc = read();
+      const { write, value } = settle(mutate(doc));
+      if (write) writeJsonAtomic(file, doc);
+      return value;
+    },
+
+    /** Replace the catalog wholesale (migrations/imports) */
+    replace(doc) {
+      writeJsonAtomic(file, doc);
+    },
+  };
+}
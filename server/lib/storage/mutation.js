@@ -0,0 +1,15 @@
+// server/lib/storage/mutation.js
+/* Result wrapper for repository.update(): lets a mutator report an outcome without persisting */
+
+const NO_WRITE = Symbol('noWrite');
+
+/** Return noWrite(value) from a mutator to skip the write but still hand `value` back to the caller */
+export function noWrite(value) {
+  return { [NO_WRITE]: true, value };
+}
+
+/** -> { write, value }: falsy results and noWrite() wrappers are not persisted */
+export function settle(result) {
+  if (result && result[NO_WRITE]) return { write: false, value: result.value };
+  return { write: !!result, value: result };
+}
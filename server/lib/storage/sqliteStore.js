@@ -0,0 +1,134 @@
+// server/lib/storage/sqliteStore.js
+/* Issue catalog in SQLite: sections / sub_sections / finding_templates tables, one transaction per write */
+import { settle } from './mutation.js';
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT);
+  CREATE TABLE IF NOT EXISTS sections (
+    id INTEGER PRIMARY KEY,
+    position INTEGER NOT NULL,
+    title TEXT,
+    extra TEXT NOT NULL DEFAULT '{}'
+  );
+  CREATE TABLE IF NOT EXISTS sub_sections (
+    id INTEGER PRIMARY KEY,
+    section_id INTEGER NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    title TEXT,
+    extra TEXT NOT NULL DEFAULT '{}'
+  );
+  CREATE TABLE IF NOT EXISTS finding_templates (
+    id INTEGER PRIMARY KEY,
+    sub_section_id INTEGER NOT NULL REFERENCES sub_sections(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    sem_header TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS finding_templates_header ON finding_templates(sem_header);
+`;
+
+/** Split a section/sub-section object into its known columns and everything else */
+function splitExtra(obj, known) {
+  const extra = {};
+  for (const [k, v] of Object.entries(obj || {})) if (!known.includes(k)) extra[k] = v;
+  return JSON.stringify(extra);
+}
+
+export async function createSqliteIssueRepository({ file, loadSeed, importFrom }) {
+  let Database;
+  try {
+    ({ default: Database } = await import('better-sqlite3'));
+  } catch (e) {
+    throw new Error('STORAGE_DRIVER=sqlite needs the better-sqlite3 package (npm i better-sqlite3)');
+  }
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const stmts = {
+    sections: db.prepare('SELECT id, title, extra FROM sections ORDER BY position'),
+    subs: db.prepare('SELECT id, section_id, title, extra FROM sub_sections ORDER BY position'),
+    findings: db.prepare('SELECT sub_section_id, data FROM finding_templates ORDER BY position'),
+    clear: db.prepare('DELETE FROM sections'),
+    insSection: db.prepare('INSERT INTO sections (position, title, extra) VALUES (?, ?, ?)'),
+    insSub: db.prepare('INSERT INTO sub_sections (section_id, position, title, extra) VALUES (?, ?, ?, ?)'),
+    insFinding: db.prepare(
+      'INSERT INTO finding_templates (sub_section_id, position, sem_header, data) VALUES (?, ?, ?, ?)'
+    ),
+    getMeta: db.prepare('SELECT value FROM meta WHERE key = ?'),
+    setMeta: db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'),
+  };
+
+  function read() {
+    const subsBySection = new Map();
+    const findingsBySub = new Map();
+    for (const f of stmts.findings.all()) {
+      if (!findingsBySub.has(f.sub_section_id)) findingsBySub.set(f.sub_section_id, []);
+      findingsBySub.get(f.sub_section_id).push(JSON.parse(f.data));
+    }
+    for (const s of stmts.subs.all()) {
+      if (!subsBySection.has(s.section_id)) subsBySection.set(s.section_id, []);
+      subsBySection.get(s.section_id).push({
+        ...(s.title != null ? { title: s.title } : {}),
+        ...JSON.parse(s.extra),
+        finding_templates: findingsBySub.get(s.id) || [],
+      });
+    }
+    return {
+      sections: stmts.sections.all().map((sec) => ({
+        ...(sec.title != null ? { title: sec.title } : {}),
+        ...JSON.parse(sec.extra),
+        sub_sections: subsBySection.get(sec.id) || [],
+      })),
+    };
+  }
+
+  /** Rewrite all rows from a nested document (runs inside a transaction) */
+  function write(doc) {
+    stmts.clear.run(); // cascades to sub-sections and findings
+    (doc.sections || []).forEach((sec, i) => {
+      const secId = stmts.insSection.run(i, sec.title ?? null, splitExtra(sec, ['title', 'sub_sections']))
+        .lastInsertRowid;
+      (sec.sub_sections || []).forEach((sub, j) => {
+        const subId = stmts.insSub.run(
+          secId,
+          j,
+          sub.title ?? null,
+          splitExtra(sub, ['title', 'finding_templates'])
+        ).lastInsertRowid;
+        (sub.finding_templates || []).forEach((ft, k) => {
+          stmts.insFinding.run(subId, k, ft?.sem_template?.sem_header ?? null, JSON.stringify(ft));
+        });
+      });
+    });
+  }
+
+  const replace = db.transaction((doc) => write(doc));
+
+  // First start: import the existing JSON catalog (migration) or the seed
+  if (!stmts.getMeta.get('schema_version')) {
+    db.transaction(() => {
+      write(importFrom?.() || loadSeed());
+      stmts.setMeta.run('schema_version', String(SCHEMA_VERSION));
+    })();
+  }
+
+  return {
+    driver: 'sqlite',
+    read,
+
+    /** Same contract as the JSON store: mutate in place, falsy result or noWrite() skips the write */
+    update: db.transaction((mutate) => {
+      const doc = read();
+      const { write: changed, value } = settle(mutate(doc));
+      if (changed) write(doc);
+      return value;
+    }),
+
+    replace,
+  };
+}
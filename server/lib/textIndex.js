@@ -0,0 +1,159 @@
+// server/lib/textIndex.js
+/* Small in-memory full-text toolkit: tokenizer, BM25 over weighted fields, fuzzy term expansion, highlights */
+
+const STOPWORDS = new Set(
+  'a an and are as at be by for from has have how i in is it its of on or that the this to was what when which with you your'.split(
+    ' '
+  )
+);
+
+/** Lowercased word tokens without stopwords; [{ term, start, end }] when withPositions */
+export function tokenize(text, { withPositions = false } = {}) {
+  const out = [];
+  const re = /[\p{L}\p{N}]+/gu;
+  const s = String(text || '');
+  let m;
+  while ((m = re.exec(s))) {
+    const term = m[0].toLowerCase();
+    if (STOPWORDS.has(term)) continue;
+    out.push(withPositions ? { term, start: m.index, end: m.index + m[0].length } : term);
+  }
+  return out;
+}
+
+/** Levenshtein distance with an early exit once it exceeds `max` */
+export function editDistance(a, b, max = 2) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * BM25 index over documents with weighted fields (a BM25F-style blend).
+ *   docs:   [{ id, fields: { name: text } }]
+ *   weights: { name: number } (missing fields weigh 1)
+ */
+export function createBm25Index(docs, { weights = {}, k1 = 1.2, b = 0.75 } = {}) {
+  const entries = docs.map((d) => {
+    const tf = new Map();
+    let length = 0;
+    for (const [field, text] of Object.entries(d.fields)) {
+      const w = weights[field] ?? 1;
+      for (const term of tokenize(text)) {
+        tf.set(term, (tf.get(term) || 0) + w);
+        length += w;
+      }
+    }
+    return { id: d.id, tf, length };
+  });
+
+  const df = new Map();
+  for (const e of entries) for (const term of e.tf.keys()) df.set(term, (df.get(term) || 0) + 1);
+  const avgLength = entries.reduce((n, e) => n + e.length, 0) / (entries.length || 1) || 1;
+  const N = entries.length;
+
+  function idf(term) {
+    const n = df.get(term) || 0;
+    return Math.log(1 + (N - n + 0.5) / (n + 0.5));
+  }
+
+  /**
+   * Expand query terms against the vocabulary: exact, prefix (last term only, for type-ahead)
+   * and edit-distance matches. Returns [{ term, weight }] per query term.
+   */
+  function expand(queryTerms, { fuzzy = true } = {}) {
+    return queryTerms.map((q, i) => {
+      const out = df.has(q) ? [{ term: q, weight: 1 }] : [];
+      if (!fuzzy) return out;
+      const isLast = i === queryTerms.length - 1;
+      const maxEdits = q.length >= 8 ? 2 : q.length >= 4 ? 1 : 0;
+      for (const term of df.keys()) {
+        if (term === q) continue;
+        if (isLast && q.length >= 2 && term.startsWith(q)) out.push({ term, weight: 0.8 });
+        else if (maxEdits && editDistance(q, term, maxEdits) <= maxEdits) out.push({ term, weight: 0.6 });
+      }
+      return out;
+    });
+  }
+
+  /** Score every document; returns [{ id, score, terms }] with score > 0, best first */
+  function search(query, { fuzzy = true, limit = Infinity } = {}) {
+    const expanded = expand(tokenize(query), { fuzzy });
+    const results = [];
+    for (const e of entries) {
+      let score = 0;
+      const terms = new Set();
+      for (const alternatives of expanded) {
+        // Best alternative per query term, so a typo doesn't count several times
+        let best = 0;
+        let bestTerm = null;
+        for (const { term, weight } of alternatives) {
+          const f = e.tf.get(term);
+          if (!f) continue;
+          const s = weight * idf(term) * ((f * (k1 + 1)) / (f + k1 * (1 - b + (b * e.length) / avgLength)));
+          if (s > best) {
+            best = s;
+            bestTerm = term;
+          }
+        }
+        if (bestTerm) {
+          score += best;
+          terms.add(bestTerm);
+        }
+      }
+      if (score > 0) results.push({ id: e.id, score, terms: [...terms] });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  return { search, expand, size: N };
+}
+
+/** [start, end) ranges in `text` whose tokens are in `terms` (merged when adjacent) */
+export function highlightRanges(text, terms) {
+  const wanted = new Set(terms);
+  const ranges = [];
+  for (const t of tokenize(text, { withPositions: true })) {
+    if (!wanted.has(t.term)) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && t.start - last[1] <= 1) last[1] = t.end;
+    else ranges.push([t.start, t.end]);
+  }
+  return ranges;
+}
+
+/** Window of `text` around the first highlight (about `size` chars), with ranges shifted to match */
+export function snippet(text, ranges, size = 180) {
+  const s = String(text || '');
+  if (!ranges.length || s.length <= size) return { text: s.slice(0, size), ranges: ranges.filter((r) => r[1] <= size) };
+  const start = Math.max(0, Math.min(ranges[0][0] - Math.floor(size / 3), s.length - size));
+  const end = Math.min(s.length, start + size);
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    text: `${prefix}${s.slice(start, end)}${end < s.length ? '…' : ''}`,
+    ranges: ranges.filter((r) => r[0] >= start && r[1] <= end).map(([a, b]) => [a + shift, b + shift]),
+  };
+}
+
+export function cosine(a, b) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
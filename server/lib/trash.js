@@ -0,0 +1,63 @@
+// server/lib/trash.js
+/* Trash bin for deleted findings: kept with their old position until restored or purged */
+import fs from 'fs';
+import path from 'path';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+/**
+ * Trash store in DATA_DIR/trash.json. Entries are
+ *   { id, deletedAt, deletedBy, sem_template,
+ *     location: { section, subSection, index, sectionTitle, subSectionTitle } }
+ * newest first; `location` is where the finding lived, so a restore can put it back there.
+ */
+export function createTrashStore(dataDir) {
+  const file = path.join(dataDir, 'trash.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return [];
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return Array.isArray(parsed?.items) ? parsed.items : [];
+    } catch (e) {
+      console.error('Failed to parse trash file:', e);
+      return [];
+    }
+  }
+
+  function save(items) {
+    writeJsonAtomic(file, { items });
+  }
+
+  return {
+    list() {
+      return load();
+    },
+
+    get(id) {
+      return load().find((t) => t.id === id) || null;
+    },
+
+    /** Put a deleted finding in the trash (replacing an older copy with the same id) */
+    add({ sem_template, location, user }) {
+      const id = sem_template.sem_id || sem_template.sem_header;
+      const entry = {
+        id,
+        deletedAt: new Date().toISOString(),
+        deletedBy: user?.username || '',
+        location,
+        sem_template,
+      };
+      save([entry, ...load().filter((t) => t.id !== id)]);
+      return entry;
+    },
+
+    /** Take an entry out of the trash (restore or purge); the removed entry, or null */
+    remove(id) {
+      const items = load();
+      const hit = items.find((t) => t.id === id);
+      if (!hit) return null;
+      save(items.filter((t) => t.id !== id));
+      return hit;
+    },
+  };
+}
@@ -0,0 +1,366 @@
+// server/lib/urlPolicy.js
+/* SSRF guard for outbound scraping: scheme/domain allowlists, private-IP blocking, size + type limits */
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/** Policy violation or fetch failure with a machine-readable reason for the scrape result */
+export class UrlPolicyError extends Error {
+  constructor(reason, message, status) {
+    super(message);
+    this.name = 'UrlPolicyError';
+    this.reason = reason;
+    if (status != null) this.status = status;
+  }
+}
+
+const BLOCKED = new net.BlockList();
+// IPv4: "this" network, RFC1918, CGNAT, loopback, link-local (incl. cloud metadata), documentation (TEST-NET-1/2/3),
+// benchmarking, multicast, reserved
+for (const [addr, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]) {
+  BLOCKED.addSubnet(addr, prefix, 'ipv4');
+}
+// IPv6: unspecified, loopback, documentation, unique-local, link-local, multicast
+BLOCKED.addAddress('::', 'ipv6');
+BLOCKED.addAddress('::1', 'ipv6');
+BLOCKED.addSubnet('2001:db8::', 32, 'ipv6');
+BLOCKED.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED.addSubnet('fe80::', 10, 'ipv6');
+BLOCKED.addSubnet('ff00::', 8, 'ipv6');
+
+/** The eight 16-bit groups of an IPv6 address (a trailing dotted IPv4 becomes the last two) */
+function ipv6Groups(ip) {
+  let text = ip.toLowerCase();
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part) => (part ? part.split(':').map((g) => parseInt(g, 16)) : []);
+  const left = parse(head);
+  const right = tail == null ? [] : parse(tail);
+  return [...left, ...new Array(8 - left.length - right.length).fill(0), ...right];
+}
+
+// IPv6 ranges that carry an IPv4 address, which is what the connection really reaches: IPv4-mapped
+// (::ffff:0:0/96), IPv4-compatible (::/96, e.g. [::127.0.0.1]), NAT64 (64:ff9b::/96) and 6to4 (2002::/16)
+function embeddedIpv4(ip) {
+  const g = ipv6Groups(ip);
+  const v4 = (hi, lo) => [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff].join('.');
+  const zeros = (from, to) => g.slice(from, to).every((x) => x === 0);
+  if (zeros(0, 5) && (g[5] === 0xffff || g[5] === 0)) return v4(g[6], g[7]);
+  if (g[0] === 0x64 && g[1] === 0xff9b && zeros(2, 6)) return v4(g[6], g[7]);
+  if (g[0] === 0x2002) return v4(g[1], g[2]);
+  return null;
+}
+
+export function isPrivateAddress(ip) {
+  const family = net.isIP(ip);
+  if (family === 4) return BLOCKED.check(ip, 'ipv4');
+  if (family === 6) {
+    const v4 = embeddedIpv4(ip);
+    return BLOCKED.check(ip, 'ipv6') || (v4 != null && BLOCKED.check(v4, 'ipv4'));
+  }
+  return true; // not an IP at all: refuse rather than guess
+}
+
+function envList(v) {
+  return String(v || '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Policy from env:
+ *   SCRAPE_ALLOWED_SCHEMES   default "https,http"
+ *   SCRAPE_ALLOWED_DOMAINS   e.g. "support.google.com,learn.microsoft.com" (subdomains included); empty = any public host
+ *   SCRAPE_ALLOW_PRIVATE     "true" to allow private/loopback targets (local development only)
+ *   SCRAPE_MAX_BYTES         default 2 MB
+ *   SCRAPE_MAX_REDIRECTS     default 5
+ *   SCRAPE_CONTENT_TYPES     default "text/html,application/xhtml+xml,text/plain,text/markdown,application/pdf"
+ */
+export function loadUrlPolicy(env = process.env) {
+  const schemes = envList(env.SCRAPE_ALLOWED_SCHEMES);
+  const types = envList(env.SCRAPE_CONTENT_TYPES);
+  return {
+    schemes: schemes.length ? schemes : ['https', 'http'],
+    domains: envList(env.SCRAPE_ALLOWED_DOMAINS),
+    allowPrivate: String(env.SCRAPE_ALLOW_PRIVATE || '').toLowerCase() === 'true',
+    maxBytes: Number(env.SCRAPE_MAX_BYTES) || 2 * 1024 * 1024,
+    maxRedirects: env.SCRAPE_MAX_REDIRECTS != null ? Number(env.SCRAPE_MAX_REDIRECTS) : 5,
+    contentTypes: types.length
+      ? types
+      : ['text/html', 'application/xhtml+xml', 'text/plain', 'text/markdown', 'application/pdf'],
+  };
+}
+
+function domainAllowed(host, domains) {
+  if (!domains.length) return true;
+  const h = host.toLowerCase().replace(/\.$/, '');
+  return domains.some((d) => h === d || h.endsWith(`.${d}`));
+}
+
+/** Static checks (no network): parseable URL, allowed scheme, allowed domain, literal IPs */
+export function checkUrl(raw, policy) {
+  let u;
+  try {
+    u = new URL(String(raw));
+  } catch {
+    throw new UrlPolicyError('invalid_url', 'Not a valid URL');
+  }
+  const scheme = u.protocol.replace(/:$/, '').toLowerCase();
+  if (!policy.schemes.includes(scheme)) {
+    throw new UrlPolicyError('scheme_not_allowed', `Scheme "${scheme}" is not allowed`);
+  }
+  if (u.username || u.password) {
+    throw new UrlPolicyError('credentials_in_url', 'URLs with embedded credentials are not allowed');
+  }
+  const host = u.hostname.replace(/^\[|\]$/g, '');
+  if (!domainAllowed(host, policy.domains)) {
+    throw new UrlPolicyError('domain_not_allowed', `Host "${host}" is not on the scrape allowlist`);
+  }
+  if (net.isIP(host) && !policy.allowPrivate && isPrivateAddress(host)) {
+    throw new UrlPolicyError('private_address', `Address ${host} is private, loopback or link-local`);
+  }
+  return u;
+}
+
+/**
+ * Resolve a host and refuse it when any address is private (unless the policy allows private targets).
+ * For clients that do their own connections (the headless renderer); Node requests use guardedLookup.
+ */
+export async function checkHostAddress(hostname, policy) {
+  if (policy.allowPrivate) return;
+  const host = String(hostname).replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) {
+    if (isPrivateAddress(host)) {
+      throw new UrlPolicyError('private_address', `Address ${host} is private, loopback or link-local`);
+    }
+    return;
+  }
+  let list;
+  try {
+    list = await dns.promises.lookup(host, { all: true });
+  } catch {
+    throw new UrlPolicyError('dns_failed', `Could not resolve ${host}`);
+  }
+  const bad = list.find((a) => isPrivateAddress(a.address));
+  if (bad) throw new UrlPolicyError('private_address', `${host} resolves to private address ${bad.address}`);
+}
+
+/**
+ * DNS lookup used for every connection: every resolved address must be public.
+ * Doing it inside the socket's lookup (rather than before fetch) closes the DNS-rebinding gap.
+ */
+function guardedLookup(policy) {
+  return (hostname, options, cb) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return cb(new UrlPolicyError('dns_failed', `Could not resolve ${hostname}`));
+      const list = Array.isArray(addresses) ? addresses : [{ address: addresses, family: options.family }];
+      if (!policy.allowPrivate) {
+        const bad = list.find((a) => isPrivateAddress(a.address));
+        if (bad) {
+          return cb(
+            new UrlPolicyError('private_address', `${hostname} resolves to private address ${bad.address}`)
+          );
+        }
+      }
+      if (options.all) return cb(null, list);
+      cb(null, list[0].address, list[0].family);
+    });
+  };
+}
+
+// Hop-by-hop headers a forward proxy must not pass on
+const PROXY_HEADERS = ['proxy-connection', 'proxy-authorization', 'keep-alive'];
+// CONNECT tunnels carry opaque bytes, so they only go to the web ports (not to mail, SSH or database ports)
+const TUNNEL_PORTS = [443, 80];
+
+/**
+ * Local forward proxy for clients that make their own connections (the headless renderer). The browser
+ * hands every request to it (plain HTTP, and HTTPS/WebSocket tunnels via CONNECT) without resolving names
+ * itself; each upstream connection goes through guardedLookup, so the address checked is the address
+ * connected to. Plain ws:// upgrades are refused and tunnels only reach TUNNEL_PORTS. Requests it forwards
+ * carry a Via header. Listens on 127.0.0.1 only and can only reach what the policy allows. Resolves to
+ * { url, close() }.
+ */
+export async function startGuardedProxy(policy) {
+  const lookup = guardedLookup(policy);
+
+  // Literal IPs skip the lookup, so they are checked here
+  function target(hostname, scheme) {
+    if (!policy.schemes.includes(scheme)) {
+      throw new UrlPolicyError('scheme_not_allowed', `Scheme "${scheme}" is not allowed`);
+    }
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && !policy.allowPrivate && isPrivateAddress(host)) {
+      throw new UrlPolicyError('private_address', `Address ${host} is private, loopback or link-local`);
+    }
+    return host;
+  }
+  const statusFor = (e) => (e instanceof UrlPolicyError ? 403 : 502);
+  const refuseTunnel = (socket, e) => {
+    const status = statusFor(e);
+    socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n\r\n`);
+  };
+
+  const server = http.createServer((req, res) => {
+    let u;
+    try {
+      u = new URL(req.url);
+      target(u.hostname, u.protocol.replace(/:$/, ''));
+    } catch (e) {
+      return void res.writeHead(statusFor(e)).end();
+    }
+    const via = [req.headers.via, '1.1 security-copilot-proxy'].filter(Boolean).join(', ');
+    const headers = { ...req.headers, via };
+    for (const h of PROXY_HEADERS) delete headers[h];
+    const upstream = http.request(u, { method: req.method, headers, lookup }, (r) => {
+      res.writeHead(r.statusCode || 502, r.headers);
+      r.pipe(res);
+    });
+    upstream.on('error', (e) => {
+      if (!res.headersSent) res.writeHead(statusFor(e));
+      res.end();
+    });
+    req.pipe(upstream);
+  });
+
+  server.on('connect', (req, socket, head) => {
+    socket.on('error', () => {});
+    let host;
+    let port;
+    try {
+      const u = new URL(`https://${req.url}`);
+      host = target(u.hostname, 'https');
+      port = Number(u.port) || 443;
+      if (!TUNNEL_PORTS.includes(port)) {
+        const ports = TUNNEL_PORTS.join(', ');
+        throw new UrlPolicyError('port_not_allowed', `Port ${port} is not allowed (tunnels only go to ${ports})`);
+      }
+    } catch (e) {
+      return void refuseTunnel(socket, e);
+    }
+    const upstream = net.connect({ host, port, lookup });
+    upstream.on('connect', () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head?.length) upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', (e) => refuseTunnel(socket, e));
+    socket.on('close', () => upstream.destroy());
+  });
+
+  server.on('upgrade', (_req, socket) => socket.destroy());
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    close: () =>
+      new Promise((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+function requestOnce(u, { headers, signal, policy }) {
+  const mod = u.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = mod.request(
+      u,
+      { method: 'GET', headers: { 'user-agent': 'security-copilot-scraper', ...headers }, lookup: guardedLookup(policy), signal },
+      resolve
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+function readLimited(res, maxBytes) {
+  return new Promise((resolve, reject) => {
+    const declared = Number(res.headers['content-length']);
+    if (declared > maxBytes) {
+      res.destroy();
+      return reject(new UrlPolicyError('too_large', `Response is ${declared} bytes (limit ${maxBytes})`));
+    }
+    const chunks = [];
+    let size = 0;
+    res.on('data', (c) => {
+      size += c.length;
+      if (size > maxBytes) {
+        res.destroy();
+        reject(new UrlPolicyError('too_large', `Response exceeded ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(c);
+    });
+    res.on('end', () => resolve(Buffer.concat(chunks)));
+    res.on('error', reject);
+  });
+}
+
+/**
+ * GET a URL under the policy, following redirects manually so each hop is re-checked.
+ * Returns { status, headers, body?: Buffer, finalUrl }. 304 and non-2xx come back without a body.
+ */
+export async function safeFetch(raw, { policy, headers = {}, signal } = {}) {
+  let u = checkUrl(raw, policy);
+
+  for (let hop = 0; ; hop++) {
+    let res;
+    try {
+      res = await requestOnce(u, { headers, signal, policy });
+    } catch (e) {
+      if (e instanceof UrlPolicyError) throw e;
+      if (e?.name === 'AbortError') throw new UrlPolicyError('timeout', 'Fetch timed out');
+      throw new UrlPolicyError('fetch_failed', e?.message || 'Fetch failed');
+    }
+
+    const status = res.statusCode || 0;
+    if ([301, 302, 303, 307, 308].includes(status) && res.headers.location) {
+      res.resume();
+      if (hop >= policy.maxRedirects) {
+        throw new UrlPolicyError('too_many_redirects', `More than ${policy.maxRedirects} redirects`);
+      }
+      u = checkUrl(new URL(res.headers.location, u).toString(), policy);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      res.resume();
+      return { status, headers: res.headers, finalUrl: u.toString() };
+    }
+
+    const type = String(res.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (type && !policy.contentTypes.includes(type)) {
+      res.destroy();
+      throw new UrlPolicyError('unsupported_content_type', `Content-Type "${type}" is not allowed`);
+    }
+
+    const body = await readLimited(res, policy.maxBytes);
+    return { status, headers: res.headers, body, finalUrl: u.toString() };
+  }
+}
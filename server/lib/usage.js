@@ -0,0 +1,302 @@
+// server/lib/usage.js
+/* LLM usage accounting: tokens, model and estimated cost per chat request, daily budgets and rate limits */
+import fs from 'fs';
+import path from 'path';
+
+const DAY_MS = 86400000;
+const RATE_WINDOW_MS = 60000;
+const HOLD_TTL_MS = 10 * 60000; // a hold nobody settled (crashed request) stops counting after this
+const RECENT_LIMIT = 50;
+const TOP_ISSUES = 20;
+
+// Estimated list prices, USD per 1M tokens [prompt, completion]; the longest model-name prefix wins.
+// Deployments with other names (Azure) or negotiated rates need LLM_PRICE_*_PER_MTOK.
+const PRICES = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'o4-mini': [1.1, 4.4],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-7-sonnet': [3, 15],
+  'claude-sonnet-4': [3, 15],
+  'claude-opus-4': [15, 75],
+};
+// Local / offline providers cost nothing
+const FREE_PROVIDERS = new Set(['mock', 'ollama']);
+
+function amount(v) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+/**
+ * Env:
+ *   LLM_PRICE_INPUT_PER_MTOK     USD per 1M prompt tokens (default: built-in table by model name)
+ *   LLM_PRICE_OUTPUT_PER_MTOK    USD per 1M completion tokens
+ *   USAGE_DAILY_TOKENS_PER_USER  tokens per user per UTC day (default 0 = unlimited)
+ *   USAGE_DAILY_COST_PER_USER    estimated USD per user per UTC day (default 0 = unlimited)
+ *   USAGE_DAILY_COST_TOTAL       estimated USD for all users together per UTC day (default 0 = unlimited)
+ *   CHAT_RATE_LIMIT_PER_MINUTE   chat requests per user per minute (default 0 = unlimited)
+ *   USAGE_RETENTION_DAYS         older records are dropped at startup (default 90)
+ */
+export function loadUsageConfig(env = process.env) {
+  const priced = env.LLM_PRICE_INPUT_PER_MTOK != null || env.LLM_PRICE_OUTPUT_PER_MTOK != null;
+  return {
+    price: priced
+      ? { input: amount(env.LLM_PRICE_INPUT_PER_MTOK), output: amount(env.LLM_PRICE_OUTPUT_PER_MTOK) }
+      : null,
+    dailyTokensPerUser: amount(env.USAGE_DAILY_TOKENS_PER_USER),
+    dailyCostPerUser: amount(env.USAGE_DAILY_COST_PER_USER),
+    dailyCostTotal: amount(env.USAGE_DAILY_COST_TOTAL),
+    ratePerMinute: amount(env.CHAT_RATE_LIMIT_PER_MINUTE),
+    retentionDays: amount(env.USAGE_RETENTION_DAYS) || 90,
+  };
+}
+
+/** USD per 1M tokens { input, output } for a model, or null when the price is unknown */
+export function priceFor(config, provider, model) {
+  if (config.price) return config.price;
+  if (FREE_PROVIDERS.has(provider)) return { input: 0, output: 0 };
+  const name = String(model || '').toLowerCase();
+  const key = Object.keys(PRICES)
+    .filter((k) => name.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? { input: PRICES[key][0], output: PRICES[key][1] } : null;
+}
+
+const dayOf = (ms) => new Date(ms).toISOString().slice(0, 10);
+
+function secondsToMidnight(now) {
+  return Math.max(1, Math.ceil((DAY_MS - (now % DAY_MS)) / 1000));
+}
+
+function emptyTotals() {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function add(totals, r) {
+  totals.requests++;
+  totals.promptTokens += r.promptTokens;
+  totals.completionTokens += r.completionTokens;
+  totals.cost += r.cost || 0;
+  return totals;
+}
+
+function tally(map, key, r, fields) {
+  map.set(key, add(map.get(key) || { ...fields, ...emptyTotals() }, r));
+}
+
+/**
+ * Usage store bound to a data directory: one JSON line per LLM request in usage.jsonl (append-only,
+ * kept in memory for the dashboard and budget checks). Records are
+ *   { at, userId, username, issueId, route, provider, model, promptTokens, completionTokens,
+ *     estimated, cost, status }
+ * where `estimated` marks token counts approximated from text length (the provider reported none)
+ * and `cost` is null when the model's price is unknown.
+ */
+export function createUsageStore(dataDir, config) {
+  const file = path.join(dataDir, 'usage.jsonl');
+  const records = load();
+  const hits = new Map(); // user id -> request times within the rate window
+  const holds = new Map(); // hold id -> { at, userId, promptTokens, completionTokens, cost } of a running request
+  let nextHold = 1;
+
+  function load() {
+    let raw;
+    try {
+      raw = fs.readFileSync(file, 'utf8');
+    } catch {
+      return [];
+    }
+    const all = raw
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return null; // torn last line after a crash
+        }
+      })
+      .filter(Boolean);
+    const cutoff = Date.now() - config.retentionDays * DAY_MS;
+    const kept = all.filter((r) => Date.parse(r.at) >= cutoff);
+    if (kept.length < all.length) {
+      const tmp = `${file}.tmp`;
+      fs.writeFileSync(tmp, kept.map((r) => JSON.stringify(r) + '\n').join(''));
+      fs.renameSync(tmp, file);
+    }
+    return kept;
+  }
+
+  /** Today's (UTC) totals, for one user or everyone */
+  function today(userId) {
+    const day = dayOf(Date.now());
+    const totals = emptyTotals();
+    for (let i = records.length - 1; i >= 0 && records[i].at.startsWith(day); i--) {
+      if (!userId || records[i].userId === userId) add(totals, records[i]);
+    }
+    return totals;
+  }
+
+  /** Today's totals plus the estimates held by requests still running, for budget checks */
+  function committed(userId) {
+    const totals = today(userId);
+    const now = Date.now();
+    for (const [id, h] of holds) {
+      if (now - h.at >= HOLD_TTL_MS) holds.delete(id);
+      else if (!userId || h.userId === userId) add(totals, h);
+    }
+    return totals;
+  }
+
+  function costOf(provider, model, promptTokens, completionTokens) {
+    const price = priceFor(config, provider, model);
+    return price ? (promptTokens * price.input + completionTokens * price.output) / 1e6 : null;
+  }
+
+  function budgetError(message) {
+    return { code: 'budget_exceeded', error: message, retryAfter: secondsToMidnight(Date.now()) };
+  }
+
+  /** Rate limit and budget checks for one request: null when allowed (and counted), else the denial */
+  function limitError(user) {
+    const now = Date.now();
+    const id = user?.id || 'anonymous';
+    const recent = (hits.get(id) || []).filter((t) => now - t < RATE_WINDOW_MS);
+    if (config.ratePerMinute && recent.length >= config.ratePerMinute) {
+      hits.set(id, recent);
+      return {
+        code: 'rate_limited',
+        error: `Rate limit reached: at most ${config.ratePerMinute} chat requests per minute`,
+        retryAfter: Math.max(1, Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000)),
+      };
+    }
+
+    if (config.dailyTokensPerUser || config.dailyCostPerUser) {
+      const mine = committed(id);
+      if (config.dailyTokensPerUser && mine.promptTokens + mine.completionTokens >= config.dailyTokensPerUser) {
+        return budgetError(`Daily token budget reached (${config.dailyTokensPerUser} tokens per user)`);
+      }
+      if (config.dailyCostPerUser && mine.cost >= config.dailyCostPerUser) {
+        return budgetError(`Daily cost budget reached ($${config.dailyCostPerUser} per user)`);
+      }
+    }
+    if (config.dailyCostTotal && committed().cost >= config.dailyCostTotal) {
+      return budgetError(`The team's daily cost budget is used up ($${config.dailyCostTotal})`);
+    }
+
+    recent.push(now);
+    hits.set(id, recent);
+    return null;
+  }
+
+  return {
+    limits: {
+      dailyTokensPerUser: config.dailyTokensPerUser,
+      dailyCostPerUser: config.dailyCostPerUser,
+      dailyCostTotal: config.dailyCostTotal,
+      ratePerMinute: config.ratePerMinute,
+    },
+
+    /**
+     * Admit one chat request for a user. `estimate` ({ provider, model, promptTokens, completionTokens })
+     * is held against the daily budgets until record() or release() settles it, so concurrent requests
+     * cannot all pass on the same remaining budget. Returns { hold } when allowed (and counted against
+     * the rate limit), else { denied: { code: 'rate_limited' | 'budget_exceeded', error, retryAfter } }
+     * with retryAfter in seconds.
+     */
+    admit(user, estimate = {}) {
+      const denied = limitError(user);
+      if (denied) return { denied };
+      const promptTokens = estimate.promptTokens || 0;
+      const completionTokens = estimate.completionTokens || 0;
+      const hold = nextHold++;
+      holds.set(hold, {
+        at: Date.now(),
+        userId: user?.id || 'anonymous',
+        promptTokens,
+        completionTokens,
+        cost: costOf(estimate.provider, estimate.model, promptTokens, completionTokens),
+      });
+      return { hold };
+    },
+
+    /** Drop a hold without recording usage (the request failed before reaching the provider) */
+    release(hold) {
+      holds.delete(hold);
+    },
+
+    /** Record one LLM request; `usage` is { promptTokens, completionTokens }, replacing admit()'s `hold` */
+    record({ user, issueId, route, provider, model, usage, estimated = false, status = 'ok', hold }) {
+      holds.delete(hold);
+      const promptTokens = usage?.promptTokens || 0;
+      const completionTokens = usage?.completionTokens || 0;
+      const cost = costOf(provider, model, promptTokens, completionTokens);
+      const rec = {
+        at: new Date().toISOString(),
+        userId: user?.id || 'anonymous',
+        username: user?.username || '',
+        issueId: issueId ? String(issueId) : null,
+        route,
+        provider,
+        model,
+        promptTokens,
+        completionTokens,
+        estimated: !!estimated,
+        cost: cost == null ? null : Math.round(cost * 1e6) / 1e6,
+        status,
+      };
+      records.push(rec);
+      try {
+        fs.appendFileSync(file, JSON.stringify(rec) + '\n');
+      } catch (e) {
+        console.error('usage log write failed:', e.message);
+      }
+      return rec;
+    },
+
+    /**
+     * Aggregates over the last `days` UTC days (today included), for one user or everyone:
+     *   { days, since, totals, today, byDay, byUser, byModel, byIssue, recent }
+     * byDay has one entry per day (zeros included); byIssue holds the top issues by tokens.
+     */
+    summary({ days = 30, userId } = {}) {
+      const now = Date.now();
+      const since = dayOf(now - (days - 1) * DAY_MS);
+      const rows = records.filter((r) => r.at.slice(0, 10) >= since && (!userId || r.userId === userId));
+
+      const totals = emptyTotals();
+      let unpriced = 0;
+      const byDay = new Map();
+      for (let t = Date.parse(since); t <= now; t += DAY_MS) byDay.set(dayOf(t), { day: dayOf(t), ...emptyTotals() });
+      const byUser = new Map();
+      const byModel = new Map();
+      const byIssue = new Map();
+      for (const r of rows) {
+        add(totals, r);
+        if (r.cost == null) unpriced++;
+        tally(byDay, r.at.slice(0, 10), r, { day: r.at.slice(0, 10) });
+        tally(byUser, r.userId, r, { userId: r.userId, username: r.username });
+        tally(byModel, `${r.provider}/${r.model}`, r, { provider: r.provider, model: r.model });
+        if (r.issueId) tally(byIssue, r.issueId, r, { issueId: r.issueId });
+      }
+      const tokens = (t) => t.promptTokens + t.completionTokens;
+
+      return {
+        days,
+        since,
+        totals: { ...totals, unpriced },
+        today: today(userId),
+        byDay: [...byDay.values()],
+        byUser: [...byUser.values()].sort((a, b) => tokens(b) - tokens(a)),
+        byModel: [...byModel.values()].sort((a, b) => tokens(b) - tokens(a)),
+        byIssue: [...byIssue.values()].sort((a, b) => tokens(b) - tokens(a)).slice(0, TOP_ISSUES),
+        recent: rows.slice(-RECENT_LIMIT).reverse(),
+      };
+    },
+  };
+}
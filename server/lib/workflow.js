@@ -0,0 +1,124 @@
+// server/lib/workflow.js
+/* Remediation workflow per finding: status, owner, due date and notes, with a history of every change */
+import fs from 'fs';
+import path from 'path';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+export const WORKFLOW_STATUSES = ['open', 'in_progress', 'risk_accepted', 'resolved'];
+const FIELDS = ['status', 'owner', 'dueDate', 'notes'];
+const OWNER_MAX = 80;
+const NOTES_MAX = 4000;
+const HISTORY_MAX = 200; // per finding; the oldest entries are dropped
+
+export class WorkflowError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/** Every finding starts open with nobody assigned */
+function initialState() {
+  return { status: 'open', owner: '', dueDate: null, notes: '' };
+}
+
+/** Validated subset of { status, owner, dueDate, notes } from a request body */
+function cleanPatch(body) {
+  const patch = {};
+  if (body.status !== undefined) {
+    if (!WORKFLOW_STATUSES.includes(body.status)) {
+      throw new WorkflowError(`status must be one of: ${WORKFLOW_STATUSES.join(', ')}`);
+    }
+    patch.status = body.status;
+  }
+  if (body.owner !== undefined) {
+    patch.owner = String(body.owner ?? '').trim();
+    if (patch.owner.length > OWNER_MAX) throw new WorkflowError(`owner is too long (max ${OWNER_MAX} characters)`);
+  }
+  if (body.dueDate !== undefined) {
+    const due = body.dueDate == null ? '' : String(body.dueDate).trim();
+    if (due && (!/^\d{4}-\d{2}-\d{2}$/.test(due) || Number.isNaN(Date.parse(due)))) {
+      throw new WorkflowError('dueDate must be a date (YYYY-MM-DD)');
+    }
+    patch.dueDate = due || null;
+  }
+  if (body.notes !== undefined) {
+    patch.notes = String(body.notes ?? '').trim();
+    if (patch.notes.length > NOTES_MAX) throw new WorkflowError(`notes are too long (max ${NOTES_MAX} characters)`);
+  }
+  return patch;
+}
+
+function summarize(item) {
+  const { history, ...rest } = item;
+  return rest;
+}
+
+/**
+ * Workflow store in DATA_DIR/workflow.json, keyed by finding id (sem_id). Findings without an entry
+ * are open. Entries are
+ *   { status, owner, dueDate, notes, updatedAt, updatedBy, history: [{ at, by, changes: { field: [from, to] } }] }
+ */
+export function createWorkflowStore(dataDir) {
+  const file = path.join(dataDir, 'workflow.json');
+
+  function load() {
+    if (!fs.existsSync(file)) return { items: {} };
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return parsed?.items && typeof parsed.items === 'object' ? parsed : { items: {} };
+    } catch (e) {
+      console.error('Failed to parse workflow file:', e);
+      return { items: {} };
+    }
+  }
+
+  function save(obj) {
+    writeJsonAtomic(file, obj);
+  }
+
+  return {
+    /** { [issueId]: state without history } for every finding that has left the defaults */
+    list() {
+      const { items } = load();
+      return Object.fromEntries(Object.entries(items).map(([id, item]) => [id, summarize(item)]));
+    },
+
+    /** Full state with history (defaults when the finding was never touched) */
+    get(issueId) {
+      return load().items[issueId] || { ...initialState(), history: [] };
+    },
+
+    /**
+     * Apply a change from `user`; only fields that actually change are recorded in the history.
+     * Throws WorkflowError for invalid values.
+     */
+    update(issueId, body, user) {
+      const patch = cleanPatch(body || {});
+      const data = load();
+      const item = data.items[issueId] || { ...initialState(), history: [] };
+      const changes = {};
+      for (const field of FIELDS) {
+        if (field in patch && patch[field] !== item[field]) changes[field] = [item[field], patch[field]];
+      }
+      if (!Object.keys(changes).length) return item;
+
+      const at = new Date().toISOString();
+      const by = user?.username || '';
+      Object.assign(item, patch, { updatedAt: at, updatedBy: by });
+      item.history = [...(item.history || []), { at, by, changes }].slice(-HISTORY_MAX);
+      data.items[issueId] = item;
+      save(data);
+      return item;
+    },
+
+    /** Forget a finding's workflow (when it is deleted for good) */
+    remove(issueId) {
+      const data = load();
+      if (!data.items[issueId]) return false;
+      delete data.items[issueId];
+      save(data);
+      return true;
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// server/scripts/create-user.js
+// Usage: npm run create-user -- <username> <password> [viewer|editor|admin]
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ROLES, createUserStore } from '../lib/auth.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+
+const [username, password, role = 'viewer'] = process.argv.slice(2);
+if (!username || !password || !ROLES.includes(role)) {
+  console.error(`Usage: npm run create-user -- <username> <password> [${ROLES.join('|')}]`);
+  process.exit(1);
+}
+
+try {
+  const user = createUserStore(DATA_DIR).create({ username, password, role });
+  console.log(`Created ${user.role} "${user.username}" in ${DATA_DIR}`);
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
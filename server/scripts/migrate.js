@@ -0,0 +1,43 @@
+// server/scripts/migrate.js
+// Copy the issue catalog between storage drivers.
+//   npm run migrate -- sqlite [file.json]   import nested JSON (default DATA_DIR/issues.json) into DATA_DIR/issues.db
+//   npm run migrate -- json                 export DATA_DIR/issues.db back to DATA_DIR/issues.json
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createIssueRepository } from '../lib/storage/index.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+const SEED_FILE = path.join(__dirname, '..', 'seed', 'issues.seed.json');
+
+function count(doc) {
+  let n = 0;
+  for (const sec of doc.sections || []) for (const sub of sec.sub_sections || []) n += (sub.finding_templates || []).length;
+  return n;
+}
+
+const [target, fromFile] = process.argv.slice(2);
+
+try {
+  if (target === 'sqlite') {
+    const src = fromFile || path.join(DATA_DIR, 'issues.json');
+    const doc = JSON.parse(fs.readFileSync(src, 'utf8'));
+    if (!Array.isArray(doc.sections)) throw new Error(`${src} has no "sections" array`);
+    const repo = await createIssueRepository({ dataDir: DATA_DIR, seedFile: SEED_FILE, driver: 'sqlite' });
+    repo.replace(doc);
+    console.log(`Imported ${count(doc)} findings from ${src} into ${path.join(DATA_DIR, 'issues.db')}`);
+  } else if (target === 'json') {
+    const repo = await createIssueRepository({ dataDir: DATA_DIR, seedFile: SEED_FILE, driver: 'sqlite' });
+    const doc = repo.read();
+    const json = await createIssueRepository({ dataDir: DATA_DIR, seedFile: SEED_FILE, driver: 'json' });
+    json.replace(doc);
+    console.log(`Exported ${count(doc)} findings to ${path.join(DATA_DIR, 'issues.json')}`);
+  } else {
+    console.error('Usage: npm run migrate -- sqlite [file.json] | json');
+    process.exit(1);
+  }
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
@@ -0,0 +1,45 @@
+// server/test/auth.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createAuth, createLoginLimiter, createUserStore } from '../lib/auth.js';
+
+test('logins for unknown or password-less users fail like wrong passwords', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+  try {
+    const users = createUserStore(dir);
+    users.create({ username: 'alice', password: 's3cret' });
+    users.create({ username: 'sso', provider: 'oidc', subject: 'sub-1' });
+    const auth = createAuth({ users, env: { AUTH_SECRET: 'x'.repeat(32) } });
+    assert.equal(auth.login('alice', 'wrong'), null);
+    assert.equal(auth.login('nobody', 's3cret'), null);
+    assert.equal(auth.login('sso', 's3cret'), null);
+    assert.equal(auth.login('ALICE', 's3cret').user.username, 'alice');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('the login limiter blocks a username after too many failures, from any address', () => {
+  const limiter = createLoginLimiter({ LOGIN_MAX_FAILURES: '3' });
+  for (const ip of ['10.0.0.1', '10.0.0.2', '10.0.0.3']) {
+    assert.equal(limiter.admit(ip, 'alice'), null);
+    limiter.fail(ip, 'alice');
+  }
+  const denied = limiter.admit('10.0.0.4', ' Alice ');
+  assert.equal(denied.code, 'rate_limited');
+  assert.ok(denied.retryAfter > 0 && denied.retryAfter <= 15 * 60);
+  assert.equal(limiter.admit('10.0.0.4', 'bob'), null);
+  limiter.succeed('alice');
+  assert.equal(limiter.admit('10.0.0.4', 'alice'), null);
+});
+
+test('the login limiter blocks an address that tries many usernames', () => {
+  const limiter = createLoginLimiter({ LOGIN_MAX_FAILURES: '3' });
+  for (const name of ['a', 'b', 'c']) limiter.fail('10.0.0.1', name);
+  assert.equal(limiter.admit('10.0.0.1', 'd').code, 'rate_limited');
+  assert.equal(limiter.admit('10.0.0.2', 'd'), null);
+  assert.equal(createLoginLimiter({ LOGIN_MAX_FAILURES: '0' }).admit('10.0.0.1', 'a'), null);
+});
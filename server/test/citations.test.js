@@ -0,0 +1,55 @@
+// server/test/citations.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractCitations } from '../lib/citations.js';
+import { chunkText, selectPassages } from '../lib/retrieval.js';
+
+const page =
+  'Rotating keys\n\n' +
+  '  Open the IAM console and pick the user.\n' +
+  '\n\n' +
+  '      Then click rotate keys now.\n' +
+  '\tFinally delete the old key once nothing uses it.\n';
+
+test('chunkText maps every piece of a passage back to the page', () => {
+  const [chunk] = chunkText(page, { size: 1000 });
+  assert.equal(
+    chunk.text,
+    'Rotating keys\nOpen the IAM console and pick the user.\nThen click rotate keys now.\n' +
+      'Finally delete the old key once nothing uses it.'
+  );
+  for (const { at, start } of chunk.pieces) {
+    const line = chunk.text.slice(at).split('\n')[0];
+    assert.equal(page.slice(start, start + line.length), line);
+  }
+});
+
+test('citation offsets point at the quoted sentence in the page, after blank and indented lines', async () => {
+  const { passages } = await selectPassages({
+    query: 'rotate keys',
+    sources: [{ url: 'https://docs.example.com/keys', text: page }],
+    config: { chunkChars: 1000, budgetTokens: 3000, embeddings: false },
+  });
+  for (const [claim, quote] of [
+    ['Click rotate keys now', 'Then click rotate keys now.'],
+    ['Delete the old key once nothing uses it', 'Finally delete the old key once nothing uses it.'],
+  ]) {
+    const [c] = extractCitations(`${claim} [1.1].`, passages);
+    assert.equal(c.quote, quote);
+    assert.equal(page.slice(c.start, c.end), quote);
+  }
+});
+
+test('citation offsets stay right in later passages of a long page', async () => {
+  const lines = Array.from({ length: 40 }, (_, i) => `\n   Step ${i + 1}: apply setting number ${i + 1} now.`);
+  const text = lines.join('\n');
+  const { passages } = await selectPassages({
+    query: 'setting number 37',
+    sources: [{ url: 'https://docs.example.com/steps', text }],
+    config: { chunkChars: 200, budgetTokens: 3000, embeddings: false },
+  });
+  const p = passages.find((x) => x.text.includes('Step 37:'));
+  const [c] = extractCitations(`Apply setting number 37 [${p.id}].`, [p]);
+  assert.equal(c.quote, 'Step 37: apply setting number 37 now.');
+  assert.equal(text.slice(c.start, c.end), c.quote);
+});
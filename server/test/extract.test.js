@@ -0,0 +1,84 @@
+// server/test/extract.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { documentFormat, extractDocument, htmlToMarkdown } from '../lib/extract.js';
+
+const fixture = (name) => fs.readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+// pdf-parse is optional: with it the fixture is parsed, without it extraction must say what to install
+const hasPdfParse = await import('pdf-parse/lib/pdf-parse.js').then(
+  () => true,
+  () => false
+);
+
+test('htmlToMarkdown keeps the main content and drops page chrome', () => {
+  const { title, text } = htmlToMarkdown(fixture('article.html').toString('utf8'));
+  assert.equal(title, 'Rotate access keys');
+  assert.match(text, /^# Rotate access keys\n\nLong-lived access keys/);
+  for (const chrome of ['Products', 'Pricing', 'Docs /', 'IAM', 'Roles', 'Copyright', 'cookies', 'analytics']) {
+    assert.ok(!text.includes(chrome), `"${chrome}" should have been removed`);
+  }
+});
+
+test('htmlToMarkdown keeps ordered lists, tables and code', () => {
+  const { text } = htmlToMarkdown(fixture('article.html').toString('utf8'));
+  assert.ok(
+    text.includes(
+      '1. Create a second access key for the user.\n' +
+        '2. Update every application to use the **new** key.\n' +
+        '3. Deactivate the old key, then delete it once nothing breaks.'
+    )
+  );
+  assert.ok(text.includes('| Setting | Value |\n| --- | --- |\n| Keys per user | 2 |\n| Maximum age | 90 days |'));
+  assert.ok(
+    text.includes(
+      '```bash\naws iam create-access-key --user-name alice\n' +
+        'aws iam update-access-key --access-key-id AKIAOLD --status Inactive\n```'
+    )
+  );
+});
+
+test('htmlToMarkdown numbers a list from its start attribute', () => {
+  const { text } = htmlToMarkdown('<main><h1>Steps</h1><ol start="4"><li>Four</li><li>Five</li></ol></main>');
+  assert.equal(text, '# Steps\n\n4. Four\n5. Five');
+});
+
+test('documentFormat uses the Content-Type, then the PDF signature, then the URL', () => {
+  assert.equal(documentFormat('text/html; charset=utf-8', Buffer.from('<p>x</p>')), 'html');
+  assert.equal(documentFormat('text/plain', Buffer.from('x')), 'text');
+  assert.equal(documentFormat('text/markdown', Buffer.from('# x')), 'text');
+  assert.equal(documentFormat('application/pdf', Buffer.from('x')), 'pdf');
+  assert.equal(documentFormat('application/octet-stream', fixture('guide.pdf')), 'pdf');
+  assert.equal(documentFormat('', Buffer.from('x'), 'https://example.com/README.md?raw=1'), 'text');
+  assert.equal(documentFormat('', Buffer.from('x'), 'https://example.com/docs'), 'html');
+});
+
+test('extractDocument passes plain text through with normalized line endings', async () => {
+  const doc = await extractDocument(fixture('notes.txt'), { contentType: 'text/plain; charset=utf-8' });
+  assert.deepEqual(doc, {
+    format: 'text',
+    title: '',
+    text:
+      'Rotate access keys\n\n1. Create a second key.\n2. Update the applications.\n\n' +
+      'Keep at most two keys per user.',
+  });
+});
+
+test('extractDocument converts HTML', async () => {
+  const doc = await extractDocument(fixture('article.html'), { contentType: 'text/html' });
+  assert.equal(doc.format, 'html');
+  assert.equal(doc.title, 'Rotate access keys');
+  assert.match(doc.text, /## Steps/);
+});
+
+test('extractDocument reads PDFs with pdf-parse', { skip: !hasPdfParse && 'pdf-parse is not installed' }, async () => {
+  const doc = await extractDocument(fixture('guide.pdf'), { contentType: 'application/pdf' });
+  assert.equal(doc.format, 'pdf');
+  assert.match(doc.text, /Rotate access keys every 90 days/);
+});
+
+test('extractDocument asks for pdf-parse when it is missing', { skip: hasPdfParse && 'pdf-parse is installed' }, () =>
+  assert.rejects(extractDocument(fixture('guide.pdf'), { contentType: 'application/pdf' }), {
+    message: 'PDF references need the pdf-parse package (npm i pdf-parse)',
+  }));
@@ -0,0 +1,63 @@
+// server/test/importer.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { catalogToCsv, filterCatalog, parseFilters } from '../lib/exporter.js';
+import { applyImport, planImport, readSource } from '../lib/importer.js';
+
+const catalog = () => ({
+  sections: [
+    {
+      title: 'Identity',
+      sub_sections: [
+        {
+          title: 'Access keys',
+          finding_templates: [
+            {
+              sem_template: {
+                sem_id: 'f-1',
+                sem_header: 'Rotate access keys',
+                sem_category: 'IAM',
+                severity_score: 0.6,
+                sem_long_description: "'-1 is what the API returns for keys that never expire",
+                sem_recommendations: ['=Rotate every 90 days', "'quoted' advice", '-1 day grace'],
+                sem_resolution_instruction: ['https://docs.example.com/keys', 'https://example.com/rotate'],
+                sem_reference_labels: { 'https://docs.example.com/keys': 'Key guide' },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+/** Import `content` into an empty catalog and return the one finding it creates */
+function importInto(format, content) {
+  const doc = { sections: [] };
+  const plan = planImport(doc, readSource({ format, content }).rows);
+  assert.deepEqual(plan.map((p) => p.action), ['create']);
+  applyImport(doc, plan);
+  return doc.sections[0].sub_sections[0].finding_templates[0].sem_template;
+}
+
+// Everything but the id, which an import assigns anew
+const fields = ({ sem_id, ...st }) => st;
+const original = () => fields(catalog().sections[0].sub_sections[0].finding_templates[0].sem_template);
+
+test('a native JSON export imports back with its reference labels', () => {
+  const json = JSON.stringify(filterCatalog(catalog(), parseFilters({})));
+  const st = importInto('native', json);
+  assert.deepEqual(fields(st), original());
+});
+
+test('a CSV export imports back with its values as written, including leading quotes', () => {
+  const st = importInto('csv', catalogToCsv(catalog()));
+  // CSV has no column for reference labels
+  const { sem_reference_labels, ...expected } = original();
+  assert.deepEqual(fields(st), expected);
+});
+
+test('a leading quote in a CSV that is not ours is kept', () => {
+  const st = importInto('csv', "Title,Description\nRotate access keys,'-1 means never\n");
+  assert.equal(st.sem_long_description, "'-1 means never");
+});
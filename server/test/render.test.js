@@ -0,0 +1,199 @@
+// server/test/render.test.js
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { createRenderer, loadRenderConfig, renderModeFor } from '../lib/render.js';
+import { scrapeUrl } from '../lib/scrape.js';
+import { loadUrlPolicy, startGuardedProxy } from '../lib/urlPolicy.js';
+
+const fixture = (name) => fs.readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+// Fixtures are served from 127.0.0.1, which the policy only allows for local development
+const policy = loadUrlPolicy({ SCRAPE_ALLOW_PRIVATE: 'true' });
+
+const hasEngine = await Promise.any([import('playwright'), import('puppeteer')]).then(
+  () => true,
+  () => false
+);
+
+let server;
+let base;
+const viaHeaders = new Map(); // path -> Via header of its last request (set by the renderer's proxy)
+
+before(async () => {
+  const pages = {
+    '/spa': 'spa.html',
+    '/spa-content': 'spa-content.html',
+    '/article': 'article.html',
+    '/lockdown': 'lockdown.html',
+  };
+  server = http.createServer((req, res) => {
+    const name = pages[req.url];
+    if (!name) return void res.writeHead(404).end();
+    viaHeaders.set(req.url, req.headers.via);
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' }).end(fixture(name));
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+/** Renderer with the real mode rules that "renders" a saved browser snapshot and counts its calls */
+function snapshotRenderer(env, html = fixture('spa-rendered.html').toString('utf8')) {
+  const config = loadRenderConfig(env);
+  const calls = [];
+  return {
+    calls,
+    modeFor: (url) => renderModeFor(config, url),
+    minChars: config.minChars,
+    async render(url) {
+      calls.push(url);
+      return { html, finalUrl: url, engine: 'snapshot' };
+    },
+  };
+}
+
+test('renderModeFor picks the most specific matching domain, else the default', () => {
+  const config = loadRenderConfig({
+    SCRAPE_RENDER: 'never',
+    SCRAPE_RENDER_DOMAINS: 'example.com=always, docs.example.com=never, *.help.test, spa.test=bogus',
+  });
+  assert.equal(renderModeFor(config, 'https://example.com/a'), 'always');
+  assert.equal(renderModeFor(config, 'https://www.example.com/a'), 'always');
+  assert.equal(renderModeFor(config, 'https://docs.example.com/a'), 'never');
+  assert.equal(renderModeFor(config, 'https://api.docs.example.com/a'), 'never');
+  assert.equal(renderModeFor(config, 'https://kb.help.test/'), 'auto');
+  assert.equal(renderModeFor(config, 'https://help.test/'), 'auto');
+  assert.equal(renderModeFor(config, 'https://spa.test/'), 'auto');
+  assert.equal(renderModeFor(config, 'https://notexample.com/'), 'never');
+  assert.equal(renderModeFor(config, 'not a url'), 'never');
+  assert.equal(renderModeFor(loadRenderConfig({ SCRAPE_RENDER: 'auto' }), 'https://other.test/'), 'auto');
+});
+
+test('auto renders an SPA shell whose static text is too short', async () => {
+  const renderer = snapshotRenderer({ SCRAPE_RENDER: 'auto', SCRAPE_RENDER_MIN_CHARS: '100' });
+  const r = await scrapeUrl(`${base}/spa`, { policy, renderer });
+  assert.equal(r.ok, true);
+  assert.equal(r.rendered, true);
+  assert.equal(r.title, 'Enable multi-factor authentication');
+  assert.match(r.text, /1\. Open the security settings\.\n2\. Turn on multi-factor authentication\./);
+  assert.deepEqual(renderer.calls, [`${base}/spa`]);
+});
+
+test('auto keeps a page whose static text is long enough without rendering it', async () => {
+  const renderer = snapshotRenderer({ SCRAPE_RENDER: 'auto', SCRAPE_RENDER_MIN_CHARS: '100' });
+  const r = await scrapeUrl(`${base}/article`, { policy, renderer });
+  assert.equal(r.ok, true);
+  assert.equal(r.rendered, undefined);
+  assert.match(r.text, /^# Rotate access keys/);
+  assert.deepEqual(renderer.calls, []);
+});
+
+test('auto keeps the static text when rendering finds no more', async () => {
+  const renderer = snapshotRenderer({ SCRAPE_RENDER: 'auto' }, fixture('spa.html').toString('utf8'));
+  const r = await scrapeUrl(`${base}/spa`, { policy, renderer });
+  assert.equal(r.rendered, undefined);
+  assert.equal(r.text, '# Help Center\n\nLoading…');
+  assert.equal(renderer.calls.length, 1);
+});
+
+test('always renders even pages with enough static text', async () => {
+  const renderer = snapshotRenderer({ SCRAPE_RENDER: 'never', SCRAPE_RENDER_DOMAINS: '127.0.0.1=always' });
+  const r = await scrapeUrl(`${base}/article`, { policy, renderer });
+  assert.equal(r.rendered, true);
+  assert.match(r.text, /^# Enable multi-factor authentication/);
+  assert.deepEqual(renderer.calls, [`${base}/article`]);
+});
+
+test('never leaves pages static', async () => {
+  const renderer = snapshotRenderer({ SCRAPE_RENDER: 'never' });
+  const r = await scrapeUrl(`${base}/spa`, { policy, renderer });
+  assert.equal(r.rendered, undefined);
+  assert.deepEqual(renderer.calls, []);
+});
+
+test('falls back to the static text without an engine', { skip: hasEngine && 'engine installed' }, async () => {
+  const config = loadRenderConfig({ SCRAPE_RENDER: 'always', SCRAPE_RENDER_ENGINE: 'playwright' });
+  const renderer = createRenderer(config, policy);
+  try {
+    const r = await scrapeUrl(`${base}/spa`, { policy, renderer });
+    assert.equal(r.ok, true);
+    assert.equal(r.rendered, undefined);
+    assert.equal(r.text, '# Help Center\n\nLoading…');
+  } finally {
+    await renderer.close();
+  }
+});
+
+test('renders the SPA with a real engine, through the guarded proxy', { skip: !hasEngine && 'no engine' }, async () => {
+  const renderer = createRenderer(loadRenderConfig({ SCRAPE_RENDER: 'auto', SCRAPE_RENDER_MIN_CHARS: '100' }), policy);
+  try {
+    const r = await scrapeUrl(`${base}/spa`, { policy, renderer });
+    assert.equal(r.rendered, true);
+    assert.equal(r.title, 'Enable multi-factor authentication');
+    assert.match(r.text, /1\. Open the security settings\.\n2\. Turn on multi-factor authentication\./);
+    // The page and the content its script fetched both came through the proxy
+    assert.match(viaHeaders.get('/spa'), /security-copilot-proxy/);
+    assert.match(viaHeaders.get('/spa-content'), /security-copilot-proxy/);
+  } finally {
+    await renderer.close();
+  }
+});
+
+test('rendered pages get no WebSocket and no service workers', { skip: !hasEngine && 'no engine' }, async () => {
+  const renderer = createRenderer(loadRenderConfig({ SCRAPE_RENDER: 'always' }), policy);
+  try {
+    const { html } = await renderer.render(`${base}/lockdown`);
+    assert.match(html, /websocket=undefined serviceWorker=false/);
+  } finally {
+    await renderer.close();
+  }
+});
+
+test('the renderer proxy refuses private addresses unless the policy allows them', async () => {
+  const strict = await startGuardedProxy(loadUrlPolicy({}));
+  const open = await startGuardedProxy(policy);
+  const viaProxy = (proxy, target) =>
+    new Promise((resolve, reject) => {
+      const { hostname, port } = new URL(proxy.url);
+      http
+        .get({ hostname, port, path: target, headers: { host: new URL(target).host } }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        })
+        .on('error', reject);
+    });
+  try {
+    assert.equal(await viaProxy(strict, `${base}/spa`), 403);
+    assert.equal(await viaProxy(strict, `${base.replace('127.0.0.1', 'localhost')}/spa`), 403);
+    assert.equal(await viaProxy(strict, 'http://[::ffff:127.0.0.1]/spa'), 403);
+    assert.equal(await viaProxy(open, `${base}/spa`), 200);
+  } finally {
+    await Promise.all([strict.close(), open.close()]);
+  }
+});
+
+test('the renderer proxy only tunnels to web ports', async () => {
+  const proxy = await startGuardedProxy(policy);
+  const tunnel = (target) =>
+    new Promise((resolve, reject) => {
+      const { hostname, port } = new URL(proxy.url);
+      http
+        .request({ hostname, port, method: 'CONNECT', path: target })
+        .on('connect', (res, socket) => {
+          socket.destroy();
+          resolve(res.statusCode);
+        })
+        .on('error', reject)
+        .end();
+    });
+  try {
+    assert.equal(await tunnel('127.0.0.1:22'), 403);
+    assert.equal(await tunnel(new URL(base).host), 403);
+    assert.equal(await tunnel('127.0.0.1:5432'), 403);
+  } finally {
+    await proxy.close();
+  }
+});
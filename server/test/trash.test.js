@@ -0,0 +1,67 @@
+// server/test/trash.test.js
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trash-test-'));
+let server;
+let base;
+
+/** A port nothing listens on right now */
+const freePort = () =>
+  new Promise((resolve) => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+
+before(async () => {
+  const port = await freePort();
+  base = `http://127.0.0.1:${port}`;
+  server = spawn(process.execPath, ['index.js'], {
+    cwd: new URL('..', import.meta.url),
+    env: { ...process.env, DATA_DIR: dataDir, PORT: String(port), AUTH_DISABLED: 'true', LLM_PROVIDER: 'mock' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise((resolve, reject) => {
+    server.stdout.on('data', (chunk) => String(chunk).includes('Server listening') && resolve());
+    server.on('exit', (code) => reject(new Error(`server exited with ${code}`)));
+  });
+});
+
+after(() => {
+  server.kill();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+async function api(method, url, body) {
+  const res = await fetch(`${base}${url}`, {
+    method,
+    headers: body ? { 'content-type': 'application/json' } : {},
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  assert.ok(res.ok, `${method} ${url} -> ${res.status}`);
+  return res.json();
+}
+
+test('purging a finding from the trash deletes its conversations and keeps the others', async () => {
+  const { created: gone } = await api('POST', '/api/issues', { sem_header: 'Rotate access keys' });
+  const { created: kept } = await api('POST', '/api/issues', { sem_header: 'Enable MFA' });
+  const message = [{ role: 'user', content: 'How do I fix this?' }];
+  for (const { sem_id } of [gone, kept, gone]) {
+    await api('POST', '/api/conversations', { issueId: sem_id, messages: message });
+  }
+
+  await api('DELETE', `/api/issues/${gone.sem_id}`);
+  // In the trash the finding can still come back, so its conversations stay
+  assert.equal((await api('GET', `/api/conversations?issueId=${gone.sem_id}`)).conversations.length, 2);
+
+  await api('DELETE', `/api/trash/${gone.sem_id}`);
+  const { conversations } = await api('GET', '/api/conversations');
+  assert.deepEqual(conversations.map((c) => c.issueId), [kept.sem_id]);
+});
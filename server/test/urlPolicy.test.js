@@ -0,0 +1,53 @@
+// server/test/urlPolicy.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPrivateAddress } from '../lib/urlPolicy.js';
+
+test('isPrivateAddress blocks non-public IPv4 ranges and allows public addresses', () => {
+  const blocked = [
+    '0.0.0.0',
+    '10.1.2.3',
+    '100.64.0.1',
+    '100.127.255.254',
+    '127.0.0.1',
+    '169.254.169.254',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.0.0.8',
+    '192.0.2.10',
+    '192.168.1.1',
+    '198.18.0.1',
+    '198.19.255.255',
+    '198.51.100.7',
+    '203.0.113.200',
+    '224.0.0.1',
+    '255.255.255.255',
+  ];
+  for (const ip of blocked) assert.equal(isPrivateAddress(ip), true, ip);
+  for (const ip of ['8.8.8.8', '1.1.1.1', '100.128.0.1', '172.32.0.1', '192.0.3.1', '198.51.101.1', '203.0.114.1']) {
+    assert.equal(isPrivateAddress(ip), false, ip);
+  }
+});
+
+test('isPrivateAddress blocks non-public IPv6 ranges and IPv4 addresses embedded in IPv6', () => {
+  const blocked = [
+    '::',
+    '::1',
+    '2001:db8::1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'ff02::1',
+    '::ffff:127.0.0.1',
+    '::ffff:c000:0201', // 192.0.2.1
+    '::ffff:198.51.100.1',
+    '::203.0.113.5',
+    '64:ff9b::a9fe:a9fe', // 169.254.169.254
+    '2002:c0a8:0101::1', // 192.168.1.1
+  ];
+  for (const ip of blocked) assert.equal(isPrivateAddress(ip), true, ip);
+  for (const ip of ['2606:4700:4700::1111', '2a00:1450:4001::200e', '::ffff:8.8.8.8', '2002:0808:0808::1']) {
+    assert.equal(isPrivateAddress(ip), false, ip);
+  }
+  assert.equal(isPrivateAddress('example.com'), true);
+});
@@ -0,0 +1,42 @@
+// server/test/usage.test.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createUsageStore, loadUsageConfig } from '../lib/usage.js';
+
+const alice = { id: 'u-1', username: 'alice' };
+const estimate = { provider: 'openai', model: 'gpt-4o', promptTokens: 4000, completionTokens: 2000 };
+
+function withStore(env, fn) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-test-'));
+  try {
+    fn(createUsageStore(dir, loadUsageConfig(env)));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('running requests hold their estimate against the daily budget', () =>
+  withStore({ USAGE_DAILY_TOKENS_PER_USER: '10000' }, (usage) => {
+    const first = usage.admit(alice, estimate);
+    const second = usage.admit(alice, estimate);
+    assert.ok(first.hold && second.hold);
+    // 12000 tokens are held, so a third concurrent request is refused before anything was recorded
+    assert.equal(usage.admit(alice, estimate).denied.code, 'budget_exceeded');
+
+    // Recording the real (smaller) usage settles the hold and frees the rest of the budget
+    const used = { promptTokens: 500, completionTokens: 200 };
+    usage.record({ user: alice, route: 'chat', ...estimate, usage: used, hold: first.hold });
+    usage.release(second.hold);
+    assert.ok(usage.admit(alice, estimate).hold);
+  }));
+
+test('holds count against the team cost budget across users', () =>
+  withStore({ USAGE_DAILY_COST_TOTAL: '0.05' }, (usage) => {
+    // 4000 * $2.5 + 2000 * $10 per 1M tokens = $0.03 per request
+    assert.ok(usage.admit(alice, estimate).hold);
+    assert.ok(usage.admit({ id: 'u-2' }, estimate).hold);
+    assert.equal(usage.admit({ id: 'u-3' }, estimate).denied.code, 'budget_exceeded');
+  }));